@@ -1,5 +1,23 @@
 import { FastifyInstance, FastifyPluginOptions } from "fastify";
-import { getValidationResponse } from "../services/validation";
+import { z } from "zod";
+import {
+  getTrustInfo,
+  getValidationResponse,
+  listValidatedAgents,
+  parseAgentId,
+} from "../services/validation";
+
+const agentListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).default(20).transform((limit) => Math.min(limit, 100)),
+  offset: z.coerce.number().int().min(0).default(0),
+  minCollateral: z
+    .string()
+    .regex(/^\d+$/, "minCollateral must be USDC base units")
+    .transform((value) => BigInt(value))
+    .optional(),
+  sort: z.enum(["collateral", "claims"]).default("collateral"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
 
 /**
  * Validation Response Routes
@@ -17,9 +35,16 @@ export async function validationRoutes(
     Params: { agentId: string };
   }>("/agents/:agentId/validation.json", async (request, reply) => {
     const { agentId } = request.params;
+    const id = parseAgentId(agentId);
+    if (id === null) {
+      return reply.status(400).send({
+        error: "invalid_agent_id",
+        message: `Invalid agent ID: ${agentId}`,
+      });
+    }
 
     try {
-      const response = await getValidationResponse(agentId);
+      const response = await getValidationResponse(id);
 
       if (!response) {
         return reply.status(404).send({
@@ -47,9 +72,16 @@ export async function validationRoutes(
     Params: { agentId: string };
   }>("/agents/:agentId/trust-info.json", async (request, reply) => {
     const { agentId } = request.params;
+    const id = parseAgentId(agentId);
+    if (id === null) {
+      return reply.status(400).send({
+        error: "invalid_agent_id",
+        message: `Invalid agent ID: ${agentId}`,
+      });
+    }
 
     try {
-      const trustInfo = await getTrustInfo(agentId);
+      const trustInfo = await getTrustInfo(id);
 
       if (!trustInfo) {
         return reply.status(404).send({
@@ -72,24 +104,28 @@ export async function validationRoutes(
   });
 
   // List all validated agents (with pagination)
+  // Query: limit, offset, minCollateral (USDC base units), sort=collateral|claims, order=asc|desc
   fastify.get<{
-    Querystring: { limit?: string; offset?: string; minCollateral?: string };
+    Querystring: Record<string, string>;
   }>("/agents", async (request, reply) => {
-    const limit = Math.min(parseInt(request.query.limit || "20", 10), 100);
-    const offset = parseInt(request.query.offset || "0", 10);
-    const minCollateral = request.query.minCollateral
-      ? BigInt(request.query.minCollateral)
-      : undefined;
+    const parsed = agentListQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({
+        error: "invalid_request",
+        message: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      });
+    }
+    const { limit, offset, minCollateral, sort, order } = parsed.data;
 
     try {
-      const agents = await listValidatedAgents({ limit, offset, minCollateral });
+      const { agents, total } = await listValidatedAgents({ limit, offset, minCollateral, sort, order });
 
-      return reply.send({
+      return reply.header("Cache-Control", "public, max-age=60").send({
         agents,
         pagination: {
           limit,
           offset,
-          total: agents.length,
+          total,
         },
       });
     } catch (error) {
@@ -101,55 +137,3 @@ export async function validationRoutes(
     }
   });
 }
-
-// Placeholder implementations - will be connected to subgraph/contracts
-async function getTrustInfo(agentId: string): Promise<TrustInfo | null> {
-  // TODO: Query subgraph or contracts
-  console.log(`Getting trust info for agent ${agentId}`);
-  return null;
-}
-
-async function listValidatedAgents(_params: {
-  limit: number;
-  offset: number;
-  minCollateral?: bigint;
-}): Promise<AgentSummary[]> {
-  // TODO: Query subgraph
-  return [];
-}
-
-// Types
-interface TrustInfo {
-  version: string;
-  agentId: string;
-  validatorAddress: string;
-  collateral: {
-    amount: string;
-    asset: string;
-    vaultAddress: string;
-  };
-  terms: {
-    hash: string;
-    uri: string;
-    maxPayoutPerClaim: string;
-    councilId: string;
-  };
-  validation: {
-    status: "valid" | "invalid" | "revoked";
-    issuedAt: string;
-    requestHash: string;
-  };
-  claims: {
-    total: number;
-    approved: number;
-    pending: number;
-  };
-}
-
-interface AgentSummary {
-  agentId: string;
-  owner: string;
-  collateralAmount: string;
-  isValidated: boolean;
-  pendingClaims: number;
-}
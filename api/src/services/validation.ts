@@ -1,16 +1,38 @@
-import { createPublicClient, http, type Address } from "viem";
-import { baseSepolia } from "viem/chains";
+import {
+  createDataProvider,
+  createTrustfulClient,
+  getChainConfig,
+  type AgentTrustSnapshot,
+  type DataProviderMode,
+} from "@trustful-agents/sdk";
+import type { Address } from "viem";
 
 // Configuration
-const RPC_URL = process.env.RPC_URL_BASE_SEPOLIA || "https://sepolia.base.org";
-const TRUSTFUL_VALIDATOR_ADDRESS = process.env.TRUSTFUL_VALIDATOR_ADDRESS as Address;
-const COLLATERAL_VAULT_ADDRESS = process.env.COLLATERAL_VAULT_ADDRESS as Address;
-const TERMS_REGISTRY_ADDRESS = process.env.TERMS_REGISTRY_ADDRESS as Address;
-
-// Create viem client
-const client = createPublicClient({
-  chain: baseSepolia,
-  transport: http(RPC_URL),
+const CHAIN_ID = parseInt(process.env.CHAIN_ID || "84532", 10);
+const network = getChainConfig(CHAIN_ID);
+const RPC_URL = process.env.RPC_URL || process.env.RPC_URL_BASE_SEPOLIA || network.dataSource.rpcUrl;
+const SUBGRAPH_URL = process.env.SUBGRAPH_URL || network.dataSource.subgraphUrl;
+const DATA_PROVIDER_MODE = (process.env.DATA_PROVIDER_MODE || network.dataSource.mode) as DataProviderMode;
+const VALIDATOR_NAME = process.env.VALIDATOR_NAME || "Trustful Agents";
+
+// Deployed addresses come from config/networks/; env vars override them (e.g. a fresh Anvil deployment)
+const contracts = {
+  ...network.contracts,
+  trustfulValidator: (process.env.TRUSTFUL_VALIDATOR_ADDRESS as Address) || network.contracts.trustfulValidator,
+  collateralVault: (process.env.COLLATERAL_VAULT_ADDRESS as Address) || network.contracts.collateralVault,
+  termsRegistry: (process.env.TERMS_REGISTRY_ADDRESS as Address) || network.contracts.termsRegistry,
+};
+
+// Single-agent reads go through the client, lists through the data provider; both share one cache
+const client = createTrustfulClient({ chainId: CHAIN_ID, rpcUrl: RPC_URL, contracts, cache: true });
+
+const provider = createDataProvider({
+  mode: DATA_PROVIDER_MODE,
+  chainId: CHAIN_ID,
+  rpcUrl: RPC_URL,
+  subgraphUrl: SUBGRAPH_URL,
+  contracts,
+  cache: client.cache,
 });
 
 /**
@@ -55,40 +77,225 @@ export interface ValidationResponse {
   generatedAt: string;
 }
 
+/**
+ * Trust info for the A2A Agent Card extension
+ */
+export interface TrustInfo {
+  version: string;
+  agentId: string;
+  validatorAddress: string;
+  collateral: {
+    amount: string;
+    asset: string;
+    vaultAddress: string;
+  };
+  terms: {
+    hash: string;
+    uri: string;
+    maxPayoutPerClaim: string;
+    councilId: string;
+  };
+  validation: {
+    status: "valid" | "invalid" | "revoked";
+    issuedAt: string;
+    requestHash: string;
+  };
+  claims: {
+    total: number;
+    approved: number;
+    pending: number;
+  };
+}
+
+export interface AgentSummary {
+  agentId: string;
+  owner: string;
+  collateralAmount: string;
+  isValidated: boolean;
+  totalClaims: number;
+  pendingClaims: number;
+}
+
+export type AgentSort = "collateral" | "claims";
+
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+
+/**
+ * Parse an agentId path parameter (decimal token id)
+ */
+export function parseAgentId(value: string): bigint | null {
+  return /^\d+$/.test(value) ? BigInt(value) : null;
+}
+
+function toIsoDate(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+/**
+ * Max payout from the agent's verified T&C document, or null when the
+ * document can't be fetched or doesn't match its on-chain hash
+ */
+async function getMaxPayoutPerClaim(snapshot: AgentTrustSnapshot): Promise<bigint | null> {
+  if (!snapshot.activeTerms) return null;
+  const result = await client.getVerifiedTerms(snapshot.agentId);
+  return result.valid ? result.terms.maxPayoutPerClaim : null;
+}
+
 /**
  * Get validation response for an agent
+ * @returns null if the agent has never been validated
  */
-export async function getValidationResponse(
-  agentId: string
-): Promise<ValidationResponse | null> {
-  // TODO: Implement actual contract calls
-  // For now, return a mock response structure
-
-  // This will be replaced with actual calls to:
-  // 1. TrustfulValidator.getValidationRecord(agentId)
-  // 2. TrustfulValidator.checkConditions(agentId)
-  // 3. CollateralVault.getAccount(agentId)
-  // 4. TermsRegistry.getActiveTerms(agentId)
-  // 5. ClaimsManager.getClaimStats(agentId) - via subgraph
-
-  console.log("Fetching validation for agent:", agentId);
-  console.log("Contracts not yet deployed - returning null");
-
-  return null;
+export async function getValidationResponse(agentId: bigint): Promise<ValidationResponse | null> {
+  return toValidationResponse(await client.getAgentTrustSnapshot(agentId));
+}
+
+async function toValidationResponse(snapshot: AgentTrustSnapshot): Promise<ValidationResponse | null> {
+  const { agentId, validationRecord, conditions, collateral, activeTerms, claimStats } = snapshot;
+
+  if (validationRecord.issuedAt === 0n) {
+    return null;
+  }
+
+  const maxPayout = await getMaxPayoutPerClaim(snapshot);
+
+  return {
+    $schema: "https://eips.ethereum.org/EIPS/eip-8004",
+    version: "1.0",
+    agentId: agentId.toString(),
+    validator: {
+      address: contracts.trustfulValidator,
+      name: VALIDATOR_NAME,
+    },
+    validation: {
+      isValid: snapshot.isValidated,
+      requestHash: validationRecord.requestHash,
+      issuedAt: toIsoDate(validationRecord.issuedAt),
+      // Validations don't expire; they stay valid until revoked
+      expiresAt: null,
+      nonce: Number(validationRecord.nonce),
+    },
+    conditions: {
+      hasMinimumCollateral: conditions.hasMinimumCollateral,
+      hasTermsRegistered: conditions.hasActiveTerms,
+      hasValidMaxPayout: maxPayout !== null && maxPayout > 0n,
+      isOwnerValid: conditions.isOwnerValid,
+    },
+    trustInfo: {
+      collateralAmount: collateral.balance.toString(),
+      collateralAsset: contracts.usdc,
+      maxPayoutPerClaim: (maxPayout ?? 0n).toString(),
+      councilId: activeTerms?.terms.councilId ?? ZERO_HASH,
+      termsUri: activeTerms?.terms.contentUri ?? "",
+      termsHash: activeTerms?.terms.contentHash ?? ZERO_HASH,
+    },
+    statistics: {
+      totalClaims: Number(claimStats.totalClaims),
+      approvedClaims: Number(claimStats.approvedClaims),
+      rejectedClaims: Number(claimStats.rejectedClaims),
+      pendingClaims: Number(claimStats.pendingClaims),
+      totalPaidOut: claimStats.totalPaidOut.toString(),
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get trust info for an agent
+ * @returns null if the agent has no collateral, terms or validation history
+ */
+export async function getTrustInfo(agentId: bigint): Promise<TrustInfo | null> {
+  const snapshot = await client.getAgentTrustSnapshot(agentId);
+  const { validationRecord, collateral, activeTerms, claimStats } = snapshot;
+
+  if (validationRecord.issuedAt === 0n && collateral.balance === 0n && !activeTerms) {
+    return null;
+  }
+
+  let status: TrustInfo["validation"]["status"] = "invalid";
+  if (snapshot.isValidated) {
+    status = "valid";
+  } else if (validationRecord.revokedAt > 0n) {
+    status = "revoked";
+  }
+
+  const maxPayout = await getMaxPayoutPerClaim(snapshot);
+
+  return {
+    version: "1.0",
+    agentId: agentId.toString(),
+    validatorAddress: contracts.trustfulValidator,
+    collateral: {
+      amount: collateral.balance.toString(),
+      asset: contracts.usdc,
+      vaultAddress: contracts.collateralVault,
+    },
+    terms: {
+      hash: activeTerms?.terms.contentHash ?? ZERO_HASH,
+      uri: activeTerms?.terms.contentUri ?? "",
+      maxPayoutPerClaim: (maxPayout ?? 0n).toString(),
+      councilId: activeTerms?.terms.councilId ?? ZERO_HASH,
+    },
+    validation: {
+      status,
+      issuedAt: validationRecord.issuedAt > 0n ? toIsoDate(validationRecord.issuedAt) : "",
+      requestHash: validationRecord.requestHash,
+    },
+    claims: {
+      total: Number(claimStats.totalClaims),
+      approved: Number(claimStats.approvedClaims),
+      pending: Number(claimStats.pendingClaims),
+    },
+  };
+}
+
+/**
+ * List validated agents with the total matching count
+ */
+export async function listValidatedAgents(params: {
+  limit: number;
+  offset: number;
+  minCollateral?: bigint;
+  sort: AgentSort;
+  order: "asc" | "desc";
+}): Promise<{ agents: AgentSummary[]; total: number }> {
+  const filter = { isValidated: true, minCollateral: params.minCollateral };
+
+  const [agents, total] = await Promise.all([
+    provider.getAgents({
+      ...filter,
+      first: params.limit,
+      skip: params.offset,
+      orderBy: params.sort === "claims" ? "totalClaims" : "collateralBalance",
+      orderDirection: params.order,
+    }),
+    provider.getAgentCount(filter),
+  ]);
+
+  return {
+    agents: agents.map((agent) => ({
+      agentId: agent.agentId.toString(),
+      owner: agent.owner,
+      collateralAmount: agent.collateralBalance.toString(),
+      isValidated: agent.isValidated,
+      totalClaims: agent.totalClaims,
+      pendingClaims: agent.pendingClaims,
+    })),
+    total,
+  };
 }
 
 /**
  * Batch fetch validation for multiple agents
  */
 export async function batchGetValidationResponses(
-  agentIds: string[]
+  agentIds: bigint[]
 ): Promise<Map<string, ValidationResponse | null>> {
   const results = new Map<string, ValidationResponse | null>();
 
-  // TODO: Use multicall for efficiency
-  for (const agentId of agentIds) {
-    results.set(agentId, await getValidationResponse(agentId));
-  }
+  // One multicall for every agent
+  const snapshots = await client.getAgentTrustSnapshots(agentIds);
+  const responses = await Promise.all(snapshots.map(toValidationResponse));
+  agentIds.forEach((agentId, i) => results.set(agentId.toString(), responses[i]));
 
   return results;
 }
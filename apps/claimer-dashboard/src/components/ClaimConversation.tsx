@@ -1,9 +1,19 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useSignMessage, useSignTypedData } from 'wagmi'
 import { 
   MessageSquare, Reply, Upload, Send, Loader2, FileText, Download,
-  User, Bot, Shield, ChevronDown, ChevronRight
+  User, Bot, Shield, ChevronDown, ChevronRight, Lock
 } from 'lucide-react'
-import { hashFile, fileToBase64DataUri, canDisplayInline, MAX_EVIDENCE_SIZE } from '../lib/api'
+import {
+  canDisplayInline, fetchClaimMessages, uploadEvidence, downloadStoredEvidence, MAX_STORED_EVIDENCE_SIZE,
+  type ClaimAccessGrant
+} from '../lib/api'
+import { buildClaimAccessTypedData, buildClaimMessageTypedData } from '../lib/claimMessages'
+import {
+  unlockClaimKey, createContentKey, encryptMessageContent, encryptEvidenceFile, decryptEvidenceFile,
+  decryptClaimMessage, wrapContentKey, fetchClaimKeyStatus, rewrapMissingKeys,
+  type ClaimKey, type EncryptedPayload, type WrappedKey
+} from '../lib/claimEncryption'
 
 export type AuthorRole = 'claimer' | 'provider' | 'council'
 
@@ -13,6 +23,8 @@ export interface ClaimMessage {
   evidence_data: string | null; evidence_filename: string | null;
   evidence_mimetype: string | null; evidence_size: number | null;
   created_at: string; replies: ClaimMessage[];
+  signature?: string | null; content_hash?: string | null; signed_timestamp?: string | null;
+  encrypted?: boolean; wrapped_keys?: WrappedKey[];
 }
 
 interface ConversationProps {
@@ -35,6 +47,10 @@ const roleConfig: Record<AuthorRoleWithLegacy, { color: string; bgColor: string;
 
 const defaultRoleConfig = { color: 'text-surface-400', bgColor: 'bg-surface-700', icon: User, label: 'Unknown' }
 
+function flattenMessages(list: ClaimMessage[]): ClaimMessage[] {
+  return list.flatMap(m => [m, ...flattenMessages(m.replies || [])])
+}
+
 export default function ClaimConversation({
   claimId, currentUserAddress, currentUserRole, isEvidencePeriod,
   claimantAddress, filedAt, initialDescription, onMessagePosted
@@ -42,10 +58,21 @@ export default function ClaimConversation({
   const [messages, setMessages] = useState<ClaimMessage[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // Set when the conversation is private and needs a ClaimAccess grant
+  const [accessRequired, setAccessRequired] = useState(false)
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
   const [content, setContent] = useState('')
   const [evidenceFile, setEvidenceFile] = useState<File | null>(null)
   const [posting, setPosting] = useState(false)
+  const { signTypedDataAsync } = useSignTypedData()
+  const { signMessageAsync } = useSignMessage()
+  const accessGrant = useRef<ClaimAccessGrant | null>(null)
+  // End-to-end encryption: the unlocked wallet key, and what it has decrypted
+  const [claimKey, setClaimKey] = useState<ClaimKey | null>(null)
+  const [decrypted, setDecrypted] = useState<Record<string, EncryptedPayload>>({})
+  const [encrypt, setEncrypt] = useState(false)
+  const [unlocking, setUnlocking] = useState(false)
+  const contentKeys = useRef(new Map<string, CryptoKey>())
 
   const descriptionMessage: ClaimMessage | null = initialDescription ? {
     id: 'initial-description', claim_id: claimId, parent_id: null,
@@ -57,19 +84,21 @@ export default function ClaimConversation({
   } : null
 
   const allMessages = descriptionMessage ? [descriptionMessage, ...messages] : messages
+  const hasEncrypted = flattenMessages(messages).some(m => m.encrypted)
 
   const fetchMessages = useCallback(async () => {
     try {
-      const res = await fetch(`${API_BASE}/claims/${claimId}/messages`)
-      if (!res.ok) throw new Error('Failed to fetch messages')
-      const data = await res.json()
-      setMessages(data.messages || [])
+      const grant = accessGrant.current
+      const valid = grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60
+      const fetched = await fetchClaimMessages<ClaimMessage>(claimId, valid ? grant : null)
+      setAccessRequired(fetched === null)
+      setMessages(fetched || [])
       setError(null)
     } catch (err) {
       console.error('Error fetching messages:', err)
       setError('Failed to load conversation')
     } finally { setLoading(false) }
-  }, [claimId])
+  }, [claimId, currentUserAddress])
 
   useEffect(() => {
     fetchMessages()
@@ -79,29 +108,148 @@ export default function ClaimConversation({
     }
   }, [fetchMessages, isEvidencePeriod])
 
+  // Another wallet must not see what this one decrypted
+  useEffect(() => {
+    setClaimKey(null); setDecrypted({}); contentKeys.current.clear()
+  }, [currentUserAddress])
+
+  // Once one message is encrypted, keep the conversation encrypted by default
+  useEffect(() => { if (hasEncrypted) setEncrypt(true) }, [hasEncrypted])
+
+  // Decrypt new messages, then share our own messages' keys with recipients missing them
+  useEffect(() => {
+    if (!claimKey) return
+    let cancelled = false
+    ;(async () => {
+      const results: Record<string, EncryptedPayload> = {}
+      for (const m of flattenMessages(messages)) {
+        if (!m.encrypted || contentKeys.current.has(m.id)) continue
+        try {
+          const { payload, contentKey } = await decryptClaimMessage(m, claimKey)
+          contentKeys.current.set(m.id, contentKey)
+          results[m.id] = payload
+        } catch (err) { console.warn(`Could not decrypt message ${m.id}:`, err) }
+      }
+      if (cancelled) return
+      if (Object.keys(results).length > 0) setDecrypted(prev => ({ ...prev, ...results }))
+      const grant = accessGrant.current
+      if (contentKeys.current.size > 0 && grant && grant.expires > Date.now() / 1000 + 60) {
+        await rewrapMissingKeys(claimId, contentKeys.current, grant).catch(err => console.error('Error sharing message keys:', err))
+      }
+    })()
+    return () => { cancelled = true }
+  }, [claimKey, messages, claimId])
+
+  // Signed once and reused until it nearly expires
+  const getAccessGrant = async (): Promise<ClaimAccessGrant> => {
+    const grant = accessGrant.current
+    if (grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60) return grant
+    if (!currentUserAddress) throw new Error('Connect your wallet to access evidence')
+    const { typedData, expires } = buildClaimAccessTypedData(claimId, currentUserAddress)
+    const signature = await signTypedDataAsync(typedData)
+    accessGrant.current = { address: currentUserAddress, expires, signature }
+    return accessGrant.current
+  }
+
+  const getClaimKey = async (): Promise<ClaimKey> => {
+    if (!currentUserAddress) throw new Error('Connect your wallet to use encryption')
+    const key = await unlockClaimKey(currentUserAddress, signMessageAsync, typedData => signTypedDataAsync(typedData))
+    setClaimKey(key)
+    return key
+  }
+
+  const handleViewConversation = async () => {
+    setLoading(true); setError(null)
+    try {
+      await getAccessGrant()
+      await fetchMessages()
+    } catch (err) {
+      console.error('Error signing claim access:', err)
+      setError(err instanceof Error ? err.message : 'Failed to access conversation')
+      setLoading(false)
+    }
+  }
+
+  const handleUnlock = async () => {
+    setUnlocking(true); setError(null)
+    try {
+      // The grant first, so keys can be shared as soon as messages decrypt
+      await getAccessGrant()
+      await getClaimKey()
+    } catch (err) {
+      console.error('Error unlocking encryption key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unlock encrypted messages')
+    } finally { setUnlocking(false) }
+  }
+
+  const handleDownloadEvidence = async (message: ClaimMessage) => {
+    if (!message.evidence_hash) return
+    try {
+      let blob = await downloadStoredEvidence(claimId, message.evidence_hash, await getAccessGrant())
+      const evidence = decrypted[message.id]?.evidence
+      const contentKey = contentKeys.current.get(message.id)
+      if (message.encrypted) {
+        if (!evidence || !contentKey) throw new Error('Decrypt the message before downloading its evidence')
+        blob = await decryptEvidenceFile(blob, contentKey, evidence.mimetype)
+      }
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = evidence?.filename || message.evidence_filename || 'evidence'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error downloading evidence:', err)
+      setError(err instanceof Error ? err.message : 'Failed to download evidence')
+    }
+  }
+
   const handleSubmit = async () => {
     if (!content.trim() || !currentUserAddress || !currentUserRole) return
     setPosting(true); setError(null)
     try {
+      // Encrypted messages get a fresh content key, shared with every recipient
+      const contentKey = encrypt ? await createContentKey() : null
+      if (contentKey) await getClaimKey()
       let evidencePayload: any = {}
+      let evidenceInfo: EncryptedPayload['evidence']
       if (evidenceFile && currentUserRole !== 'council') {
-        if (evidenceFile.size > MAX_EVIDENCE_SIZE) {
-          setError(`File too large. Maximum size is ${MAX_EVIDENCE_SIZE / 1024}KB`)
+        if (evidenceFile.size > MAX_STORED_EVIDENCE_SIZE) {
+          setError(`File too large. Maximum size is ${MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB`)
           setPosting(false); return
         }
+        // Uploaded to the evidence store; the message references it by hash
+        const file = contentKey ? await encryptEvidenceFile(evidenceFile, contentKey) : evidenceFile
+        const stored = await uploadEvidence(claimId, file, await getAccessGrant())
         evidencePayload = {
-          evidenceHash: await hashFile(evidenceFile),
-          evidenceData: await fileToBase64DataUri(evidenceFile),
-          evidenceFilename: evidenceFile.name,
-          evidenceMimetype: evidenceFile.type,
-          evidenceSize: evidenceFile.size
+          evidenceHash: stored.keccak256,
+          evidenceFilename: stored.filename,
+          evidenceMimetype: stored.mimetype,
+          evidenceSize: stored.size
         }
+        evidenceInfo = { filename: evidenceFile.name, mimetype: evidenceFile.type || 'application/octet-stream', size: evidenceFile.size }
       }
+      let body = content.trim()
+      let encryption = {}
+      if (contentKey) {
+        const { recipients } = await fetchClaimKeyStatus(claimId, await getAccessGrant())
+        body = await encryptMessageContent({ content: content.trim(), evidence: evidenceInfo }, contentKey)
+        encryption = { encrypted: true, keys: await wrapContentKey(contentKey, recipients) }
+      }
+      // Sign the message so the API can verify it came from this wallet
+      const { typedData, timestamp } = buildClaimMessageTypedData({
+        claimId, parentId: replyingTo, role: currentUserRole,
+        content: body, evidenceHash: evidencePayload.evidenceHash
+      })
+      const signature = await signTypedDataAsync(typedData)
       const res = await fetch(`${API_BASE}/claims/${claimId}/messages`, {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           authorAddress: currentUserAddress, authorRole: currentUserRole,
-          content: content.trim(), parentId: replyingTo, ...evidencePayload
+          content: body, parentId: replyingTo, ...evidencePayload, ...encryption,
+          signature, timestamp
         })
       })
       if (!res.ok) { const errData = await res.json(); throw new Error(errData.error || 'Failed to post message') }
@@ -131,10 +279,29 @@ export default function ClaimConversation({
 
       {error && <div className="p-3 bg-danger/10 border border-danger/30 rounded-lg text-danger text-sm">{error}</div>}
 
+      {hasEncrypted && !claimKey && currentUserRole && (
+        <div className="flex items-center justify-between gap-4 p-3 bg-surface-800 border border-surface-700 rounded-lg text-sm text-surface-300">
+          <span className="flex items-center gap-2"><Lock className="w-4 h-4" /> Some messages are end-to-end encrypted.</span>
+          <button onClick={handleUnlock} disabled={unlocking} className="btn btn-secondary text-sm">
+            {unlocking ? <><Loader2 className="w-4 h-4 mr-1 animate-spin" />Unlocking...</> : 'Decrypt messages'}
+          </button>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-8">
           <Loader2 className="w-6 h-6 text-claimer animate-spin" />
         </div>
+      ) : accessRequired ? (
+        <div className="text-center py-8 text-surface-500">
+          <Lock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>This conversation is only visible to the claim's participants</p>
+          {currentUserAddress ? (
+            <button onClick={handleViewConversation} className="btn btn-secondary text-sm mt-3">Sign to view</button>
+          ) : (
+            <p className="text-sm mt-1">Connect your wallet to view it</p>
+          )}
+        </div>
       ) : (
         <>
           {allMessages.length === 0 ? (
@@ -148,6 +315,7 @@ export default function ClaimConversation({
               {allMessages.map(message => (
                 <MessageThread key={message.id} message={message} claimantAddress={claimantAddress}
                   onReply={canPost && message.id !== 'initial-description' ? setReplyingTo : undefined}
+                  onDownloadEvidence={handleDownloadEvidence} decrypted={decrypted}
                   isInitialDescription={message.id === 'initial-description'} depth={0} />
               ))}
             </div>
@@ -171,17 +339,21 @@ export default function ClaimConversation({
                       <label className="btn btn-secondary text-sm cursor-pointer">
                         <Upload className="w-4 h-4 mr-1" />
                         {evidenceFile ? evidenceFile.name : 'Attach Evidence'}
-                        <input type="file" className="hidden" onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)} disabled={posting} />
+                        <input type="file" className="hidden" accept="image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/csv,text/markdown,application/json" onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)} disabled={posting} />
                       </label>
                     )}
                     {evidenceFile && <button onClick={() => setEvidenceFile(null)} className="text-surface-400 hover:text-surface-100 text-sm">Remove</button>}
+                    <label className="flex items-center gap-1 text-sm text-surface-400 cursor-pointer" title="Only the claim parties and council can read encrypted messages">
+                      <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} disabled={posting} />
+                      <Lock className="w-3 h-3" /> Encrypt
+                    </label>
                   </div>
                   <button onClick={handleSubmit} disabled={!content.trim() || posting} className="btn btn-primary">
                     {posting ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Posting...</> : <><Send className="w-4 h-4 mr-2" />Post</>}
                   </button>
                 </div>
-                {evidenceFile && evidenceFile.size > MAX_EVIDENCE_SIZE && (
-                  <p className="text-danger text-sm">File too large ({(evidenceFile.size / 1024).toFixed(1)}KB). Maximum is {MAX_EVIDENCE_SIZE / 1024}KB.</p>
+                {evidenceFile && evidenceFile.size > MAX_STORED_EVIDENCE_SIZE && (
+                  <p className="text-danger text-sm">File too large ({(evidenceFile.size / 1024 / 1024).toFixed(1)}MB). Maximum is {MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB.</p>
                 )}
               </div>
             </div>
@@ -192,14 +364,19 @@ export default function ClaimConversation({
   )
 }
 
-function MessageThread({ message, claimantAddress, onReply, isInitialDescription, depth }: {
+function MessageThread({ message, claimantAddress, onReply, onDownloadEvidence, decrypted, isInitialDescription, depth }: {
   message: ClaimMessage; claimantAddress: string; onReply?: (id: string) => void;
+  onDownloadEvidence: (message: ClaimMessage) => void; decrypted: Record<string, EncryptedPayload>;
   isInitialDescription?: boolean; depth: number;
 }) {
   const [expanded, setExpanded] = useState(true)
   const config = roleConfig[message.author_role as AuthorRoleWithLegacy] || defaultRoleConfig
   const Icon = config.icon
   const hasReplies = message.replies && message.replies.length > 0
+  // Encrypted messages show nothing until they are decrypted
+  const plaintext = message.encrypted ? decrypted[message.id] : null
+  const evidenceFilename = message.encrypted ? plaintext?.evidence?.filename : message.evidence_filename
+  const evidenceSize = message.encrypted ? plaintext?.evidence?.size : message.evidence_size
 
   const getDisplayName = () => {
     if (message.author_role === 'claimer') return 'Claimer'
@@ -231,11 +408,16 @@ function MessageThread({ message, claimantAddress, onReply, isInitialDescription
               <span className={`font-medium ${config.color}`}>{getDisplayName()}</span>
               {isInitialDescription && <span className="ml-2 text-xs bg-claimer/20 text-claimer px-2 py-0.5 rounded">Initial Claim</span>}
               <span className="text-surface-500 text-xs ml-2">{new Date(message.created_at).toLocaleString()}</span>
+              {message.encrypted && <span title="End-to-end encrypted"><Lock className="w-3 h-3 inline ml-2 text-surface-500" /></span>}
             </div>
           </div>
           {onReply && <button onClick={() => onReply(message.id)} className="text-surface-400 hover:text-surface-100 p-1" title="Reply"><Reply className="w-4 h-4" /></button>}
         </div>
-        <p className="text-surface-200 whitespace-pre-wrap">{message.content}</p>
+        {message.encrypted && !plaintext ? (
+          <p className="text-surface-500 italic">Encrypted message</p>
+        ) : (
+          <p className="text-surface-200 whitespace-pre-wrap">{plaintext ? plaintext.content : message.content}</p>
+        )}
         {message.evidence_data && (
           <div className="mt-3 p-3 bg-surface-900 rounded border border-surface-700">
             <div className="flex items-center gap-2 mb-2">
@@ -251,6 +433,18 @@ function MessageThread({ message, claimantAddress, onReply, isInitialDescription
             )}
           </div>
         )}
+        {!message.evidence_data && message.evidence_hash && evidenceFilename && (
+          <div className="mt-3 p-3 bg-surface-900 rounded border border-surface-700">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-claimer" />
+              <span className="text-sm text-surface-300">{evidenceFilename}</span>
+              {evidenceSize && <span className="text-xs text-surface-500">({(evidenceSize / 1024).toFixed(1)}KB)</span>}
+              <button onClick={() => onDownloadEvidence(message)} className="text-claimer hover:text-claimer-light ml-auto flex items-center gap-1 text-sm">
+                <Download className="w-3 h-3" /> Download
+              </button>
+            </div>
+          </div>
+        )}
       </div>
       {hasReplies && (
         <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-1 text-sm text-surface-400 hover:text-surface-100 mt-2 ml-2">
@@ -262,7 +456,7 @@ function MessageThread({ message, claimantAddress, onReply, isInitialDescription
         <div className="mt-2 space-y-2">
           {message.replies.map(reply => (
             <MessageThread key={reply.id} message={reply} claimantAddress={claimantAddress}
-              onReply={onReply} isInitialDescription={false} depth={depth + 1} />
+              onReply={onReply} onDownloadEvidence={onDownloadEvidence} decrypted={decrypted} isInitialDescription={false} depth={depth + 1} />
           ))}
         </div>
       )}
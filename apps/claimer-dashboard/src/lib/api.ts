@@ -2,8 +2,6 @@
 
 const API_BASE = import.meta.env.DEV ? '/api' : (import.meta.env.VITE_API_URL || 'https://api.trustful-agents.ai')
 
-export const MAX_EVIDENCE_SIZE = 10240 // 10KB
-
 export enum ClaimStatus {
   Filed = 0, EvidenceClosed = 1, VotingClosed = 2, Approved = 3,
   Rejected = 4, Executed = 5, Cancelled = 6, Expired = 7
@@ -85,9 +83,10 @@ export async function calculateDeposit(agentId: string, amount: string): Promise
   return res.json()
 }
 
-export async function saveClaimMetadata(claimId: string, metadata: ClaimMetadata): Promise<void> {
+// Only the claimant can save metadata, proven with a ClaimAccess grant
+export async function saveClaimMetadata(claimId: string, metadata: ClaimMetadata, grant: ClaimAccessGrant): Promise<void> {
   const res = await fetch(`${API_BASE}/claims/${claimId}/metadata`, {
-    method: 'POST', headers: { 'Content-Type': 'application/json' },
+    method: 'POST', headers: { 'Content-Type': 'application/json', ...claimAccessHeaders(grant) },
     body: JSON.stringify(metadata)
   })
   if (!res.ok) throw new Error('Failed to save metadata')
@@ -170,16 +169,6 @@ export function isClaimResolved(claim: Claim): boolean {
   return [ClaimStatus.Approved, ClaimStatus.Rejected, ClaimStatus.Executed, ClaimStatus.Cancelled, ClaimStatus.Expired].includes(claim.status)
 }
 
-// v1.3: Evidence stored in DATABASE
-export async function fileToBase64DataUri(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => resolve(reader.result as string)
-    reader.onerror = reject
-    reader.readAsDataURL(file)
-  })
-}
-
 export function hashFile(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
@@ -194,6 +183,51 @@ export function hashFile(file: File): Promise<string> {
   })
 }
 
+// Larger evidence goes to the API's evidence store, which addresses files by
+// keccak256/sha256. Per-type limits: PDF 25MB, images 10MB, text/CSV/JSON 5MB
+export const MAX_STORED_EVIDENCE_SIZE = 25 * 1024 * 1024
+
+export interface ClaimAccessGrant { address: string; expires: number; signature: string }
+
+export interface StoredEvidence {
+  keccak256: string; sha256: string; size: number; mimetype: string;
+  filename: string; uploader: string; uploadedAt: string; url: string
+}
+
+export function claimAccessHeaders(grant: ClaimAccessGrant): Record<string, string> {
+  return {
+    'X-Claim-Access-Address': grant.address,
+    'X-Claim-Access-Expires': grant.expires.toString(),
+    'X-Claim-Access-Signature': grant.signature
+  }
+}
+
+// Conversations are private to the claim's participants unless the claimant
+// made its evidence public. Resolves to null when access is denied.
+export async function fetchClaimMessages<T>(claimId: string, grant: ClaimAccessGrant | null): Promise<T[] | null> {
+  const res = await fetch(`${API_BASE}/claims/${claimId}/messages`, { headers: grant ? claimAccessHeaders(grant) : {} })
+  if (res.status === 401 || res.status === 403) return null
+  if (!res.ok) throw new Error('Failed to fetch messages')
+  const data = await res.json()
+  return data.messages || []
+}
+
+export async function uploadEvidence(claimId: string, file: File, grant: ClaimAccessGrant): Promise<StoredEvidence> {
+  const body = new FormData()
+  body.append('file', file)
+  const res = await fetch(`${API_BASE}/claims/${claimId}/evidence`, {
+    method: 'POST', headers: claimAccessHeaders(grant), body
+  })
+  if (!res.ok) { const errData = await res.json().catch(() => ({})); throw new Error(errData.error || 'Failed to upload evidence') }
+  return res.json()
+}
+
+export async function downloadStoredEvidence(claimId: string, hash: string, grant: ClaimAccessGrant): Promise<Blob> {
+  const res = await fetch(`${API_BASE}/claims/${claimId}/evidence/${hash}`, { headers: claimAccessHeaders(grant) })
+  if (!res.ok) { const errData = await res.json().catch(() => ({})); throw new Error(errData.error || 'Failed to download evidence') }
+  return res.blob()
+}
+
 export function canDisplayInline(mimetype: string | null): boolean {
   return mimetype ? mimetype.startsWith('image/') : false
 }
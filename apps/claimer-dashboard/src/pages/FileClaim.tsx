@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { useAccount, useReadContract, useSignTypedData, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { 
   Search, 
   AlertTriangle, 
@@ -28,10 +28,12 @@ import {
   hashFile, 
   formatAddress,
   getAgentDisplayName,
-  fileToBase64DataUri,
-  MAX_EVIDENCE_SIZE,
+  saveClaimMetadata,
+  uploadEvidence,
+  MAX_STORED_EVIDENCE_SIZE,
   type AgentMetadata
 } from '../lib/api'
+import { buildClaimAccessTypedData, buildClaimMessageTypedData } from '../lib/claimMessages'
 import { 
   searchAgents, 
   getCouncil,
@@ -47,6 +49,7 @@ export default function FileClaim() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const { address } = useAccount()
+  const { signTypedDataAsync } = useSignTypedData()
   
   // Form state
   const [step, setStep] = useState<Step>('agent')
@@ -273,34 +276,55 @@ export default function FileClaim() {
         setSavingMetadata(true)
         const apiBase = import.meta.env.DEV ? '/api' : (import.meta.env.VITE_API_URL || 'https://api.trustful-agents.ai')
         
-        // Save metadata
-        const saveMetadata = fetch(`${apiBase}/claims/${claimId}/metadata`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            title: `Claim against Agent #${agentId}`,
-            description: description
-          })
-        })
+        // Sign one ClaimAccess grant to prove we are the claimant; it covers
+        // both the metadata and the evidence upload
+        const grant = address
+          ? (() => {
+              const { typedData, expires } = buildClaimAccessTypedData(claimId, address)
+              return signTypedDataAsync(typedData).then(signature => ({ address, expires, signature }))
+            })()
+          : null
+
+        const saveMetadata = grant
+          ? grant.then(g => saveClaimMetadata(claimId, {
+              title: `Claim against Agent #${agentId}`,
+              description: description
+            }, g))
+          : Promise.resolve()
         
-        // If there's an evidence file, post it as the initial message
-        const saveEvidence = (evidenceFile && address) 
-          ? fileToBase64DataUri(evidenceFile).then(evidenceData =>
-              fetch(`${apiBase}/claims/${claimId}/messages`, {
+        // If there's an evidence file, upload it to the evidence store and post
+        // a signed initial message referencing it
+        const saveEvidence = (evidenceFile && address && grant) 
+          ? (async () => {
+              const stored = await uploadEvidence(claimId, evidenceFile, await grant)
+              const { typedData, timestamp } = buildClaimMessageTypedData({
+                claimId,
+                parentId: null,
+                role: 'claimer',
+                content: description,
+                evidenceHash: stored.keccak256
+              })
+              const signature = await signTypedDataAsync(typedData)
+              const res = await fetch(`${apiBase}/claims/${claimId}/messages`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                   authorAddress: address,
                   authorRole: 'claimer',
                   content: description,
-                  evidenceHash: evidenceHash || null,
-                  evidenceData: evidenceData,
-                  evidenceFilename: evidenceFile.name,
-                  evidenceMimetype: evidenceFile.type,
-                  evidenceSize: evidenceFile.size
+                  evidenceHash: stored.keccak256,
+                  evidenceFilename: stored.filename,
+                  evidenceMimetype: stored.mimetype,
+                  evidenceSize: stored.size,
+                  signature,
+                  timestamp
                 })
               })
-            )
+              if (!res.ok) {
+                const errData = await res.json().catch(() => ({}))
+                throw new Error(errData.error || 'Failed to post evidence message')
+              }
+            })()
           : Promise.resolve()
         
         Promise.all([saveMetadata, saveEvidence])
@@ -314,7 +338,7 @@ export default function FileClaim() {
         navigate('/')
       }
     }
-  }, [claimSuccess, claimReceipt, description, agentId, navigate, evidenceFile, evidenceHash, address])
+  }, [claimSuccess, claimReceipt, description, agentId, navigate, evidenceFile, address, signTypedDataAsync])
 
   // Hash and upload evidence file when selected
   // Hash evidence file when selected (no IPFS upload in v1.3)
@@ -667,22 +691,22 @@ export default function FileClaim() {
                       {evidenceFile ? evidenceFile.name : 'Click to upload evidence'}
                     </p>
                     <p className="text-sm text-surface-500">
-                      Max {MAX_EVIDENCE_SIZE / 1024}KB - Screenshots, documents, logs
+                      Max {MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB - Screenshots, documents, logs
                     </p>
                   </label>
                 </div>
                 
                 {/* File size warning */}
-                {evidenceFile && evidenceFile.size > MAX_EVIDENCE_SIZE && (
+                {evidenceFile && evidenceFile.size > MAX_STORED_EVIDENCE_SIZE && (
                   <div className="mt-2 p-2 bg-danger/10 border border-danger/20 rounded">
                     <p className="text-sm text-danger">
-                      File too large ({(evidenceFile.size / 1024).toFixed(1)}KB). Maximum is {MAX_EVIDENCE_SIZE / 1024}KB.
+                      File too large ({(evidenceFile.size / 1024 / 1024).toFixed(1)}MB). Maximum is {MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB.
                     </p>
                   </div>
                 )}
                 
                 {/* File selected success */}
-                {evidenceFile && evidenceFile.size <= MAX_EVIDENCE_SIZE && (
+                {evidenceFile && evidenceFile.size <= MAX_STORED_EVIDENCE_SIZE && (
                   <div className="mt-2 p-2 bg-accent/10 border border-accent/20 rounded flex items-center gap-2">
                     <CheckCircle className="w-4 h-4 text-accent" />
                     <span className="text-sm text-accent">File ready ({(evidenceFile.size / 1024).toFixed(1)}KB)</span>
@@ -706,7 +730,7 @@ export default function FileClaim() {
             </button>
             <button
               onClick={() => setStep('review')}
-              disabled={!canProceed.evidence || (evidenceFile !== null && evidenceFile.size > MAX_EVIDENCE_SIZE)}
+              disabled={!canProceed.evidence || (evidenceFile !== null && evidenceFile.size > MAX_STORED_EVIDENCE_SIZE)}
               className="btn btn-primary"
             >
               Continue
@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSignMessage, useSignTypedData } from 'wagmi';
 import { 
   MessageSquare, 
   Reply, 
@@ -10,9 +11,30 @@ import {
   Bot,
   Shield,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Lock
 } from 'lucide-react';
-import { formatAddress, canDisplayInline } from '../lib/api';
+import {
+  formatAddress,
+  canDisplayInline,
+  downloadStoredEvidence,
+  fetchClaimMessages,
+  type ClaimAccessGrant,
+} from '../lib/api';
+import { buildClaimAccessTypedData, buildClaimMessageTypedData } from '../lib/claimMessages';
+import {
+  createContentKey,
+  decryptClaimMessage,
+  decryptEvidenceFile,
+  encryptMessageContent,
+  fetchClaimKeyStatus,
+  rewrapMissingKeys,
+  unlockClaimKey,
+  wrapContentKey,
+  type ClaimKey,
+  type EncryptedPayload,
+  type WrappedKey,
+} from '../lib/claimEncryption';
 
 const API_BASE = import.meta.env.DEV ? '/api' : (import.meta.env.VITE_API_URL || 'https://api.trustful-agents.ai');
 
@@ -35,6 +57,11 @@ export interface ClaimMessage {
   evidence_size: number | null;
   created_at: string;
   replies: ClaimMessage[];
+  signature?: string | null;
+  content_hash?: string | null;
+  signed_timestamp?: string | null;
+  encrypted?: boolean;
+  wrapped_keys?: WrappedKey[];
 }
 
 interface ConversationProps {
@@ -59,6 +86,10 @@ const roleConfig: Record<AuthorRoleWithLegacy, { color: string; bgColor: string;
 
 const defaultRoleConfig = { color: 'text-governance-400', bgColor: 'bg-governance-700', icon: User, label: 'Unknown' };
 
+function flattenMessages(list: ClaimMessage[]): ClaimMessage[] {
+  return list.flatMap((m) => [m, ...flattenMessages(m.replies || [])]);
+}
+
 export default function ClaimConversation({
   claimId,
   currentUserAddress,
@@ -72,11 +103,23 @@ export default function ClaimConversation({
   const [messages, setMessages] = useState<ClaimMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the conversation is private and needs a ClaimAccess grant
+  const [accessRequired, setAccessRequired] = useState(false);
   
   // Composer state
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [content, setContent] = useState('');
   const [posting, setPosting] = useState(false);
+  const { signTypedDataAsync } = useSignTypedData();
+  const { signMessageAsync } = useSignMessage();
+  const accessGrant = useRef<ClaimAccessGrant | null>(null);
+
+  // End-to-end encryption: the unlocked wallet key, and what it has decrypted
+  const [claimKey, setClaimKey] = useState<ClaimKey | null>(null);
+  const [decrypted, setDecrypted] = useState<Record<string, EncryptedPayload>>({});
+  const [encrypt, setEncrypt] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const contentKeys = useRef(new Map<string, CryptoKey>());
 
   // Create a "virtual" first message from the description
   const descriptionMessage: ClaimMessage | null = initialDescription ? {
@@ -99,14 +142,16 @@ export default function ClaimConversation({
   const allMessages = descriptionMessage 
     ? [descriptionMessage, ...messages]
     : messages;
+  const hasEncrypted = flattenMessages(messages).some((m) => m.encrypted);
 
   // Fetch messages
   const fetchMessages = useCallback(async () => {
     try {
-      const res = await fetch(`${API_BASE}/claims/${claimId}/messages`);
-      if (!res.ok) throw new Error('Failed to fetch messages');
-      const data = await res.json();
-      setMessages(data.messages || []);
+      const grant = accessGrant.current;
+      const valid = grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60;
+      const fetched = await fetchClaimMessages<ClaimMessage>(claimId, valid ? grant : null);
+      setAccessRequired(fetched === null);
+      setMessages(fetched || []);
       setError(null);
     } catch (err) {
       console.error('Error fetching messages:', err);
@@ -114,7 +159,7 @@ export default function ClaimConversation({
     } finally {
       setLoading(false);
     }
-  }, [claimId]);
+  }, [claimId, currentUserAddress]);
 
   useEffect(() => {
     fetchMessages();
@@ -126,21 +171,169 @@ export default function ClaimConversation({
     }
   }, [fetchMessages, isEvidencePeriod]);
 
+  // Another wallet must not see what this one decrypted
+  useEffect(() => {
+    setClaimKey(null);
+    setDecrypted({});
+    contentKeys.current.clear();
+  }, [currentUserAddress]);
+
+  // Once one message is encrypted, keep the conversation encrypted by default
+  useEffect(() => {
+    if (hasEncrypted) setEncrypt(true);
+  }, [hasEncrypted]);
+
+  // Decrypt new messages, then share our own messages' keys with recipients missing them
+  // (such as members who joined the council after a message was posted)
+  useEffect(() => {
+    if (!claimKey) return;
+    let cancelled = false;
+
+    const decryptMessages = async () => {
+      const results: Record<string, EncryptedPayload> = {};
+      for (const m of flattenMessages(messages)) {
+        if (!m.encrypted || contentKeys.current.has(m.id)) continue;
+        try {
+          const { payload, contentKey } = await decryptClaimMessage(m, claimKey);
+          contentKeys.current.set(m.id, contentKey);
+          results[m.id] = payload;
+        } catch (err) {
+          console.warn(`Could not decrypt message ${m.id}:`, err);
+        }
+      }
+      if (cancelled) return;
+      if (Object.keys(results).length > 0) {
+        setDecrypted((prev) => ({ ...prev, ...results }));
+      }
+
+      const grant = accessGrant.current;
+      if (contentKeys.current.size > 0 && grant && grant.expires > Date.now() / 1000 + 60) {
+        await rewrapMissingKeys(claimId, contentKeys.current, grant)
+          .catch((err) => console.error('Error sharing message keys:', err));
+      }
+    };
+
+    decryptMessages();
+    return () => { cancelled = true; };
+  }, [claimKey, messages, claimId]);
+
+  // Stored evidence needs a signed access grant, reused until it nearly expires
+  const getAccessGrant = async (): Promise<ClaimAccessGrant> => {
+    const grant = accessGrant.current;
+    if (grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60) {
+      return grant;
+    }
+    if (!currentUserAddress) throw new Error('Connect your wallet to access evidence');
+    const { typedData, expires } = buildClaimAccessTypedData(claimId, currentUserAddress);
+    const signature = await signTypedDataAsync(typedData);
+    accessGrant.current = { address: currentUserAddress, expires, signature };
+    return accessGrant.current;
+  };
+
+  const getClaimKey = async (): Promise<ClaimKey> => {
+    if (!currentUserAddress) throw new Error('Connect your wallet to use encryption');
+    const key = await unlockClaimKey(
+      currentUserAddress,
+      signMessageAsync,
+      (typedData) => signTypedDataAsync(typedData)
+    );
+    setClaimKey(key);
+    return key;
+  };
+
+  const handleViewConversation = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await getAccessGrant();
+      await fetchMessages();
+    } catch (err) {
+      console.error('Error signing claim access:', err);
+      setError(err instanceof Error ? err.message : 'Failed to access conversation');
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setError(null);
+    try {
+      // The grant first, so keys can be shared as soon as messages decrypt
+      await getAccessGrant();
+      await getClaimKey();
+    } catch (err) {
+      console.error('Error unlocking encryption key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unlock encrypted messages');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleDownloadEvidence = async (message: ClaimMessage) => {
+    if (!message.evidence_hash) return;
+    try {
+      let blob = await downloadStoredEvidence(claimId, message.evidence_hash, await getAccessGrant());
+      const evidence = decrypted[message.id]?.evidence;
+      const contentKey = contentKeys.current.get(message.id);
+      if (message.encrypted) {
+        if (!evidence || !contentKey) throw new Error('Decrypt the message before downloading its evidence');
+        blob = await decryptEvidenceFile(blob, contentKey, evidence.mimetype);
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = evidence?.filename || message.evidence_filename || 'evidence';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading evidence:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download evidence');
+    }
+  };
+
   const handleSubmit = async () => {
     if (!content.trim() || !currentUserAddress) return;
     
     setPosting(true);
     
     try {
+      // Encrypted messages get a fresh content key, shared with every recipient
+      let body = content.trim();
+      let encryption = {};
+      if (encrypt) {
+        await getClaimKey();
+        const contentKey = await createContentKey();
+        const { recipients } = await fetchClaimKeyStatus(claimId, await getAccessGrant());
+        body = await encryptMessageContent({ content: content.trim() }, contentKey);
+        encryption = {
+          encrypted: true,
+          keys: await wrapContentKey(contentKey, recipients),
+        };
+      }
+
+      // Sign the message so the API can verify it came from this wallet
+      const { typedData, timestamp } = buildClaimMessageTypedData({
+        claimId,
+        parentId: replyingTo,
+        role: 'councilor',
+        content: body,
+      });
+      const signature = await signTypedDataAsync(typedData);
+      
       const res = await fetch(`${API_BASE}/claims/${claimId}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           authorAddress: currentUserAddress,
           authorRole: 'councilor', // v1.3: use 'council' instead of 'councilor'
-          content: content.trim(),
+          content: body,
           parentId: replyingTo,
           // Council members cannot attach evidence
+          ...encryption,
+          signature,
+          timestamp,
         })
       });
       
@@ -186,10 +379,39 @@ export default function ClaimConversation({
         </div>
       )}
 
+      {hasEncrypted && !claimKey && currentUserAddress && (
+        <div className="mb-4 flex items-center justify-between gap-4 p-3 bg-governance-800 border border-governance-700 rounded-lg text-sm text-governance-300">
+          <span className="flex items-center gap-2">
+            <Lock className="w-4 h-4" />
+            Some messages are end-to-end encrypted.
+          </span>
+          <button onClick={handleUnlock} disabled={unlocking} className="btn-secondary text-sm">
+            {unlocking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                Unlocking...
+              </>
+            ) : 'Decrypt messages'}
+          </button>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-8">
           <Loader2 className="w-6 h-6 text-council animate-spin" />
         </div>
+      ) : accessRequired ? (
+        <div className="text-center py-8 text-governance-500">
+          <Lock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>This conversation is only visible to the claim's participants</p>
+          {currentUserAddress ? (
+            <button onClick={handleViewConversation} className="btn-secondary text-sm mt-3">
+              Sign to view
+            </button>
+          ) : (
+            <p className="text-sm mt-1">Connect your wallet to view it</p>
+          )}
+        </div>
       ) : (
         <>
           {/* Messages */}
@@ -210,6 +432,8 @@ export default function ClaimConversation({
                   claimantAddress={claimantAddress}
                   providerAddress={providerAddress}
                   onReply={canPost && message.id !== 'initial-description' ? setReplyingTo : undefined}
+                  onDownloadEvidence={handleDownloadEvidence}
+                  decrypted={decrypted}
                   isInitialDescription={message.id === 'initial-description'}
                   depth={0}
                 />
@@ -243,9 +467,24 @@ export default function ClaimConversation({
                 />
                 
                 <div className="flex items-center justify-between gap-4">
-                  <p className="text-xs text-governance-500">
-                    Posting as council member
-                  </p>
+                  <div className="flex items-center gap-4">
+                    <p className="text-xs text-governance-500">
+                      Posting as council member
+                    </p>
+                    <label
+                      className="flex items-center gap-1 text-xs text-governance-400 cursor-pointer"
+                      title="Only the claim parties and council can read encrypted messages"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={encrypt}
+                        onChange={(e) => setEncrypt(e.target.checked)}
+                        disabled={posting}
+                      />
+                      <Lock className="w-3 h-3" />
+                      Encrypt
+                    </label>
+                  </div>
                   
                   <button
                     onClick={handleSubmit}
@@ -280,6 +519,8 @@ function MessageThread({
   claimantAddress,
   providerAddress,
   onReply,
+  onDownloadEvidence,
+  decrypted,
   isInitialDescription,
   depth 
 }: { 
@@ -287,6 +528,8 @@ function MessageThread({
   claimantAddress: string;
   providerAddress: string;
   onReply?: (id: string) => void;
+  onDownloadEvidence: (message: ClaimMessage) => void;
+  decrypted: Record<string, EncryptedPayload>;
   isInitialDescription?: boolean;
   depth: number;
 }) {
@@ -295,6 +538,11 @@ function MessageThread({
   const Icon = config.icon;
   
   const hasReplies = message.replies && message.replies.length > 0;
+
+  // Encrypted messages show nothing until they are decrypted
+  const plaintext = message.encrypted ? decrypted[message.id] : null;
+  const evidenceFilename = message.encrypted ? plaintext?.evidence?.filename : message.evidence_filename;
+  const evidenceSize = message.encrypted ? plaintext?.evidence?.size : message.evidence_size;
   
   // Determine display name
   const getDisplayName = () => {
@@ -337,6 +585,11 @@ function MessageThread({
               <span className="text-governance-500 text-xs ml-2">
                 {new Date(message.created_at).toLocaleString()}
               </span>
+              {message.encrypted && (
+                <span title="End-to-end encrypted">
+                  <Lock className="w-3 h-3 inline ml-2 text-governance-500" />
+                </span>
+              )}
             </div>
           </div>
           
@@ -352,7 +605,11 @@ function MessageThread({
         </div>
         
         {/* Content */}
-        <p className="text-governance-200 whitespace-pre-wrap">{message.content}</p>
+        {message.encrypted && !plaintext ? (
+          <p className="text-governance-500 italic">Encrypted message</p>
+        ) : (
+          <p className="text-governance-200 whitespace-pre-wrap">{plaintext ? plaintext.content : message.content}</p>
+        )}
         
         {/* Evidence attachment - v1.3: DB-stored */}
         {message.evidence_data && (
@@ -383,6 +640,27 @@ function MessageThread({
             )}
           </div>
         )}
+        
+        {/* Evidence attachment - in the evidence store, fetched on demand */}
+        {!message.evidence_data && message.evidence_hash && evidenceFilename && (
+          <div className="mt-3 p-3 bg-governance-900 rounded border border-governance-700">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-council" />
+              <span className="text-sm text-governance-300">{evidenceFilename}</span>
+              {evidenceSize && (
+                <span className="text-xs text-governance-500">
+                  ({(evidenceSize / 1024).toFixed(1)}KB)
+                </span>
+              )}
+              <button
+                onClick={() => onDownloadEvidence(message)}
+                className="text-council hover:text-council/80 ml-auto flex items-center gap-1 text-sm"
+              >
+                <Download className="w-3 h-3" /> Download
+              </button>
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Replies toggle */}
@@ -406,6 +684,8 @@ function MessageThread({
               claimantAddress={claimantAddress}
               providerAddress={providerAddress}
               onReply={onReply}
+              onDownloadEvidence={onDownloadEvidence}
+              decrypted={decrypted}
               isInitialDescription={false}
               depth={depth + 1}
             />
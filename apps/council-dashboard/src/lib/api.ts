@@ -256,8 +256,53 @@ export function getStatusBadge(status: string): string {
 // v1.3 Evidence Helpers (DB-stored, not IPFS)
 // ============================================================================
 
-export const MAX_EVIDENCE_SIZE = 10240; // 10KB
-
 export function canDisplayInline(mimetype: string | null): boolean {
   return mimetype ? mimetype.startsWith('image/') : false;
 }
+
+// Larger evidence lives in the API's evidence store and is referenced from the
+// message by evidence_hash. Unless the claimant made the claim's evidence
+// public, reading it (and the conversation) needs a signed ClaimAccess grant.
+
+export interface ClaimAccessGrant {
+  address: string;
+  expires: number;
+  signature: string;
+}
+
+function claimAccessHeaders(grant: ClaimAccessGrant): Record<string, string> {
+  return {
+    'X-Claim-Access-Address': grant.address,
+    'X-Claim-Access-Expires': grant.expires.toString(),
+    'X-Claim-Access-Signature': grant.signature,
+  };
+}
+
+// Resolves to null when the conversation is private and access is denied
+export async function fetchClaimMessages<T>(
+  claimId: string,
+  grant: ClaimAccessGrant | null
+): Promise<T[] | null> {
+  const res = await fetch(`${API_BASE}/claims/${claimId}/messages`, {
+    headers: grant ? claimAccessHeaders(grant) : {},
+  });
+  if (res.status === 401 || res.status === 403) return null;
+  if (!res.ok) throw new Error('Failed to fetch messages');
+  const data = await res.json();
+  return data.messages || [];
+}
+
+export async function downloadStoredEvidence(
+  claimId: string,
+  hash: string,
+  grant: ClaimAccessGrant
+): Promise<Blob> {
+  const res = await fetch(`${API_BASE}/claims/${claimId}/evidence/${hash}`, {
+    headers: claimAccessHeaders(grant),
+  });
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}));
+    throw new Error(errData.error || 'Failed to download evidence');
+  }
+  return res.blob();
+}
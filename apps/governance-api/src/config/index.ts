@@ -114,6 +114,16 @@ export const NODE_ENV = process.env.NODE_ENV || 'development';
 export const PINATA_API_KEY = process.env.PINATA_API_KEY || '';
 export const PINATA_SECRET_KEY = process.env.PINATA_SECRET_KEY || '';
 
+// Claim evidence storage: 'fs' (EVIDENCE_DIR), 's3' (any S3-compatible
+// bucket) or 'ipfs' (pinned through Pinata, public, so encrypted evidence
+// only). See services/evidence-store.ts
+export const EVIDENCE_STORAGE = process.env.EVIDENCE_STORAGE || 'fs';
+export const EVIDENCE_DIR = process.env.EVIDENCE_DIR || './data/evidence';
+export const EVIDENCE_S3_BUCKET = process.env.EVIDENCE_S3_BUCKET || '';
+export const EVIDENCE_S3_ENDPOINT = process.env.EVIDENCE_S3_ENDPOINT || ''; // Empty = AWS
+export const EVIDENCE_S3_REGION = process.env.EVIDENCE_S3_REGION || process.env.AWS_REGION || 'eu-central-1';
+export const EVIDENCE_S3_PREFIX = process.env.EVIDENCE_S3_PREFIX || 'evidence/';
+
 // AWS SES
 export const AWS_REGION = process.env.AWS_REGION || 'eu-central-1';
 export const AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID || '';
@@ -126,6 +136,15 @@ export const JWT_SECRET = process.env.JWT_SECRET || 'dev-jwt-secret-change-me';
 // CORS
 export const CORS_ORIGIN = process.env.CORS_ORIGIN || '';
 
+// Validation response signing (EIP-712). Responses are unsigned when unset.
+// The signer address is published at /v1/validation-signer.json
+export const VALIDATION_SIGNER_PRIVATE_KEY = process.env.VALIDATION_SIGNER_PRIVATE_KEY || '';
+
+// Records each claim's frozen transcript root on-chain (a zero-value
+// transaction to itself, see services/transcript.ts). Roots are computed but
+// not anchored when unset. The account needs gas.
+export const TRANSCRIPT_ANCHOR_PRIVATE_KEY = process.env.TRANSCRIPT_ANCHOR_PRIVATE_KEY || '';
+
 // =============================================================================
 // Safe Transaction Service Helpers
 // =============================================================================
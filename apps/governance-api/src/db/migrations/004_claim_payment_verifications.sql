@@ -0,0 +1,19 @@
+-- Migration: 004_claim_payment_verifications.sql
+-- Latest on-chain verification of the x402 receipt behind each claim's paymentReceiptHash
+
+CREATE TABLE IF NOT EXISTS claim_payment_verifications (
+  claim_id BIGINT PRIMARY KEY,
+  verified BOOLEAN NOT NULL,
+  code VARCHAR(32),  -- Failure code (INVALID_RECEIPT, TX_NOT_FOUND, HASH_MISMATCH, ...), NULL when verified
+  message TEXT,
+  transaction_hash VARCHAR(66) NOT NULL,
+  payer VARCHAR(42),
+  payee VARCHAR(42),
+  amount NUMERIC(78, 0),  -- USDC base units
+  paid_at TIMESTAMPTZ,  -- Block timestamp of the payment
+  payment_receipt_hash VARCHAR(66),
+  receipt JSONB NOT NULL,  -- Receipt as submitted
+  verified_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_payment_tx ON claim_payment_verifications(transaction_hash);
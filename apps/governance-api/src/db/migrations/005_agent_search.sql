@@ -0,0 +1,8 @@
+-- Migration: 005_agent_search.sql
+-- Indexes for agent discovery (GET /v1/agents/search): full-text search over
+-- name and description, and capability filters
+
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents
+  USING GIN (to_tsvector('english', name || ' ' || COALESCE(description, '')));
+
+CREATE INDEX IF NOT EXISTS idx_agents_capabilities ON agents USING GIN (capabilities);
@@ -0,0 +1,12 @@
+-- Migration: 006_agent_card.sql
+-- Provider-managed fields for spec-conformant A2A Agent Cards
+
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS endpoint_url VARCHAR(500);  -- A2A service endpoint
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS version VARCHAR(50);  -- Agent's own version
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS documentation_url VARCHAR(500);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS provider_organization VARCHAR(255);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS provider_url VARCHAR(500);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS skills JSONB;  -- A2A AgentSkill[]
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS security_schemes JSONB;  -- A2A securitySchemes, by name
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS input_modes TEXT[];  -- MIME types, default text/plain
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS output_modes TEXT[];
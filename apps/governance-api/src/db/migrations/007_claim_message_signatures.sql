@@ -0,0 +1,12 @@
+-- Migration: 007_claim_message_signatures.sql
+-- EIP-712 signatures on claim conversation messages, so any party can verify
+-- who wrote each message (see services/claim-messages.ts). Messages posted
+-- before this migration have NULL signatures.
+
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS content_hash VARCHAR(66);  -- keccak256 of content
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS signature TEXT;  -- Author's EIP-712 ClaimMessage signature
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS signed_timestamp BIGINT;  -- Signed unix timestamp
+
+-- A signed message can only be posted once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_claim_messages_signature
+  ON claim_messages(signature) WHERE signature IS NOT NULL;
@@ -0,0 +1,32 @@
+-- Migration: 008_evidence_files.sql
+-- Claim evidence files kept in the evidence store (services/evidence-store.ts)
+-- rather than inline in claim_messages.evidence_data. Messages reference a
+-- file through claim_messages.evidence_hash (keccak256 or sha256 of the file).
+
+CREATE TABLE IF NOT EXISTS evidence_files (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  claim_id BIGINT NOT NULL,
+  uploader_address VARCHAR(42) NOT NULL,
+  keccak256 VARCHAR(66) NOT NULL,
+  sha256 VARCHAR(66) NOT NULL,
+  size BIGINT NOT NULL,
+  mimetype VARCHAR(255) NOT NULL,
+  filename VARCHAR(255) NOT NULL,
+  backend VARCHAR(10) NOT NULL,  -- fs, s3 or ipfs
+  storage_key TEXT NOT NULL,  -- Path/object key, or CID for ipfs
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (claim_id, keccak256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_evidence_files_sha256 ON evidence_files(claim_id, sha256);
+
+-- The 10KB limit and filename/size requirement now only apply to inline
+-- evidence; messages referencing stored files carry filename and size alone
+ALTER TABLE claim_messages DROP CONSTRAINT IF EXISTS chk_evidence_size_max;
+ALTER TABLE claim_messages DROP CONSTRAINT IF EXISTS chk_evidence_complete;
+ALTER TABLE claim_messages DROP CONSTRAINT IF EXISTS chk_inline_evidence;
+ALTER TABLE claim_messages ADD CONSTRAINT chk_inline_evidence
+  CHECK (
+    evidence_data IS NULL
+    OR (evidence_filename IS NOT NULL AND evidence_size IS NOT NULL AND evidence_size <= 10240)
+  );
@@ -0,0 +1,26 @@
+-- Migration: 009_claim_transcripts.sql
+-- Hash-chained claim transcripts (services/transcript.ts). Every message
+-- commits to the previous message of its claim, and when the evidence period
+-- closes the transcript's Merkle root is frozen and anchored on-chain.
+
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS seq INTEGER;  -- Position in the claim's chain, from 0
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS prev_hash VARCHAR(66);  -- message_hash of seq - 1 (zero hash for seq 0)
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS message_hash VARCHAR(66);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_claim_messages_seq
+  ON claim_messages(claim_id, seq) WHERE seq IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS claim_transcripts (
+  claim_id BIGINT PRIMARY KEY,
+  root VARCHAR(66) NOT NULL,  -- Merkle root over message_hash in seq order
+  head_hash VARCHAR(66) NOT NULL,  -- message_hash of the last message
+  message_count INTEGER NOT NULL,
+  frozen_at TIMESTAMPTZ DEFAULT NOW(),
+  anchor_tx_hash VARCHAR(66),
+  anchor_block BIGINT,
+  anchored_at TIMESTAMPTZ,
+  anchor_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_transcripts_unanchored
+  ON claim_transcripts(frozen_at) WHERE anchor_tx_hash IS NULL;
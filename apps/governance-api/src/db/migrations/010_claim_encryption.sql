@@ -0,0 +1,35 @@
+-- Migration: 010_claim_encryption.sql
+-- End-to-end encrypted claim messages (services/claim-encryption.ts). Each
+-- encrypted message has its own content key, wrapped separately for every
+-- claim party and council member with a registered encryption key.
+
+CREATE TABLE IF NOT EXISTS encryption_keys (
+  address VARCHAR(42) PRIMARY KEY,
+  public_key VARCHAR(132) NOT NULL,  -- Uncompressed P-256 point, hex
+  key_id VARCHAR(66) NOT NULL,  -- keccak256 of public_key
+  encrypted_private_key TEXT NOT NULL,  -- Backup, encrypted under a key derived from the owner's wallet signature
+  signature TEXT NOT NULL,  -- Owner's EIP-712 EncryptionKey signature
+  signed_timestamp BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE claim_messages ADD COLUMN IF NOT EXISTS encrypted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Encrypted messages carry their evidence in the evidence store only
+ALTER TABLE claim_messages DROP CONSTRAINT IF EXISTS chk_encrypted_no_inline_evidence;
+ALTER TABLE claim_messages ADD CONSTRAINT chk_encrypted_no_inline_evidence
+  CHECK (NOT encrypted OR evidence_data IS NULL);
+
+CREATE TABLE IF NOT EXISTS claim_message_keys (
+  message_id UUID NOT NULL REFERENCES claim_messages(id) ON DELETE CASCADE,
+  recipient_address VARCHAR(42) NOT NULL,
+  key_id VARCHAR(66) NOT NULL,  -- Recipient key the content key was wrapped for
+  ephemeral_public_key VARCHAR(132) NOT NULL,
+  wrapped_key TEXT NOT NULL,  -- Base64 AES-GCM IV and wrapped content key
+  wrapped_by VARCHAR(42) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (message_id, recipient_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_message_keys_recipient ON claim_message_keys(recipient_address);
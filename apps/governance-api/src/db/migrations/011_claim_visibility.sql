@@ -0,0 +1,21 @@
+-- Migration: 011_claim_visibility.sql
+-- Per-claim visibility policy (services/claim-visibility.ts). The summary is
+-- the claim itself, its votes and metadata; evidence is the conversation,
+-- transcript, payment receipt and evidence files. Claims without a row use
+-- the default: public summary, evidence for participants only.
+
+CREATE TABLE IF NOT EXISTS claim_visibility (
+  claim_id BIGINT PRIMARY KEY,
+  summary VARCHAR(16) NOT NULL DEFAULT 'public',
+  evidence VARCHAR(16) NOT NULL DEFAULT 'participants',
+  updated_by VARCHAR(42) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT chk_claim_visibility_levels CHECK (
+    summary IN ('public', 'participants') AND evidence IN ('public', 'participants')
+  ),
+  -- Evidence can't be more visible than the claim it belongs to
+  CONSTRAINT chk_claim_visibility_evidence CHECK (
+    summary = 'public' OR evidence = 'participants'
+  )
+);
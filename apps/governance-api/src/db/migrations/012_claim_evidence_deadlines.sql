@@ -0,0 +1,13 @@
+-- Migration: 012_claim_evidence_deadlines.sql
+-- Evidence deadlines of claims whose transcripts are still open, cached from
+-- the ClaimsManager so services/transcript.ts only polls claims that may be
+-- ready to freeze.
+
+CREATE TABLE IF NOT EXISTS claim_evidence_deadlines (
+  claim_id BIGINT PRIMARY KEY,
+  evidence_deadline TIMESTAMPTZ NOT NULL,
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_evidence_deadlines_deadline
+  ON claim_evidence_deadlines(evidence_deadline);
@@ -329,6 +329,22 @@ CREATE TABLE IF NOT EXISTS agents (
 
 CREATE INDEX IF NOT EXISTS idx_agents_owner ON agents(owner_address);
 
+-- A2A Agent Card fields (GET /v1/agents/:agentId/agent-card.json)
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS endpoint_url VARCHAR(500);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS version VARCHAR(50);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS documentation_url VARCHAR(500);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS provider_organization VARCHAR(255);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS provider_url VARCHAR(500);
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS skills JSONB; -- A2A AgentSkill[]
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS security_schemes JSONB; -- A2A securitySchemes, by name
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS input_modes TEXT[]; -- MIME types
+ALTER TABLE agents ADD COLUMN IF NOT EXISTS output_modes TEXT[];
+
+-- Full-text and capability search (GET /v1/agents/search)
+CREATE INDEX IF NOT EXISTS idx_agents_search ON agents
+    USING GIN (to_tsvector('english', name || ' ' || COALESCE(description, '')));
+CREATE INDEX IF NOT EXISTS idx_agents_capabilities ON agents USING GIN (capabilities);
+
 DROP TRIGGER IF EXISTS update_agents_updated_at ON agents;
 CREATE TRIGGER update_agents_updated_at
     BEFORE UPDATE ON agents
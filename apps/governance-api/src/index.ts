@@ -10,6 +10,7 @@ import { db, healthCheck as dbHealthCheck, closePool } from './db/index.js';
 import { healthCheck as safeHealthCheck } from './services/safe.js';
 import { processEmailQueue } from './services/email.js';
 import { cleanupExpiredSessions } from './services/auth.js';
+import { processTranscripts } from './services/transcript.js';
 
 import authRoutes from './routes/auth.js';
 import claimsRoutes from './routes/claims.js';
@@ -18,6 +19,10 @@ import safeRoutes from './routes/safe.js';
 import agentRoutes from './routes/agents.js';
 import pendingRoutes from './routes/pending.js';
 import validationRoutes from './routes/validation.js';
+import searchRoutes from './routes/search.js';
+import badgeRoutes from './routes/badges.js';
+import evidenceRoutes from './routes/evidence.js';
+import claimKeysRoutes from './routes/claim-keys.js';
 import providerAgentsRoutes from './routes/provider-agents.js';
 
 // ============================================================================
@@ -57,7 +62,11 @@ if (NODE_ENV === 'production') {
 app.use(cors({
   origin: CORS_ORIGIN.split(','),
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-owner-address'],
+  allowedHeaders: [
+    'Content-Type', 'Authorization', 'x-owner-address', 'Range',
+    'X-Claim-Access-Address', 'X-Claim-Access-Expires', 'X-Claim-Access-Signature',
+  ],
+  exposedHeaders: ['Content-Range', 'Content-Disposition'],
 }));
 
 // Rate limiting
@@ -106,8 +115,12 @@ app.use('/councils', councilRoutes);
 app.use('/safe', safeRoutes);
 app.use('/agents', agentRoutes);
 app.use('/pending', pendingRoutes);
+app.use('/v1', searchRoutes);
+app.use('/v1', badgeRoutes);
 app.use('/v1', validationRoutes);
 app.use('/provider/agents', providerAgentsRoutes);
+app.use('/claims', evidenceRoutes);  // Before claimsRoutes, whose /:claimId would catch /evidence/policy
+app.use('/claims', claimKeysRoutes);
 app.use('/claims', claimsRoutes);
 
 // Serve static frontend in production
@@ -154,6 +167,7 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 
 let emailQueueInterval: NodeJS.Timeout | null = null;
 let sessionCleanupInterval: NodeJS.Timeout | null = null;
+let transcriptInterval: NodeJS.Timeout | null = null;
 
 function startBackgroundTasks() {
   // Process email queue every 30 seconds
@@ -180,6 +194,18 @@ function startBackgroundTasks() {
     }
   }, 5 * 60 * 1000);
   
+  // Freeze and anchor claim transcripts every 5 minutes
+  transcriptInterval = setInterval(async () => {
+    try {
+      const { frozen, anchored } = await processTranscripts();
+      if (frozen > 0 || anchored > 0) {
+        console.log(`Froze ${frozen} and anchored ${anchored} claim transcripts`);
+      }
+    } catch (error) {
+      console.error('Transcript anchoring error:', error);
+    }
+  }, 5 * 60 * 1000);
+  
   console.log('Background tasks started');
 }
 
@@ -192,6 +218,10 @@ function stopBackgroundTasks() {
     clearInterval(sessionCleanupInterval);
     sessionCleanupInterval = null;
   }
+  if (transcriptInterval) {
+    clearInterval(transcriptInterval);
+    transcriptInterval = null;
+  }
   console.log('Background tasks stopped');
 }
 
@@ -0,0 +1,175 @@
+import type { Request, Response } from 'express';
+import type { Address, Hex } from 'viem';
+import { getSession } from '../services/auth.js';
+import { isSafeOwner } from '../services/safe.js';
+import {
+  getClaimParticipant,
+  verifyClaimAccessGrant,
+  type ClaimMessageRole,
+} from '../services/claim-messages.js';
+import { getClaimVisibility, type ClaimVisibility } from '../services/claim-visibility.js';
+
+// ============================================================================
+// Claim Access
+// ============================================================================
+// Callers identify themselves with a SIWE session (Authorization: Bearer,
+// see services/auth.ts) or, for a single claim, a signed ClaimAccess grant.
+// Roles come from chain: the claimant and provider at claim time from the
+// ClaimsManager, council members from the CouncilRegistry and governance
+// signers from the governance Safe's owners.
+
+export type ClaimRole = ClaimMessageRole | 'governance';
+
+export type ClaimScope = keyof ClaimVisibility;
+
+export interface ClaimAccess {
+  address: Address;
+  role: ClaimRole;
+  evidenceOpen: boolean;
+}
+
+export interface ClaimViewer {
+  // null for anonymous readers of public claims
+  address: Address | null;
+  role: ClaimRole | null;
+  visibility: ClaimVisibility;
+}
+
+type Identity = { address: Address | null } | { status: number; error: string };
+
+/**
+ * The caller's address from their session or, given a claimId, their
+ * ClaimAccess grant (X-Claim-Access-* headers, or address/expires/signature
+ * query parameters for links). Anonymous callers get a null address.
+ */
+export async function getRequestIdentity(req: Request, claimId?: string): Promise<Identity> {
+  const authHeader = req.get('Authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const session = await getSession(authHeader.slice(7));
+    if (!session) {
+      return { status: 401, error: 'Invalid or expired session' };
+    }
+    return { address: session.address as Address };
+  }
+
+  const address = req.get('X-Claim-Access-Address') ?? req.query.address;
+  const expires = req.get('X-Claim-Access-Expires') ?? req.query.expires;
+  const signature = req.get('X-Claim-Access-Signature') ?? req.query.signature;
+  if (claimId === undefined || (address === undefined && expires === undefined && signature === undefined)) {
+    return { address: null };
+  }
+  if (
+    typeof address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(address) ||
+    typeof expires !== 'string' || !/^\d+$/.test(expires) ||
+    typeof signature !== 'string' || !/^0x[a-fA-F0-9]+$/.test(signature)
+  ) {
+    return { status: 401, error: 'A signed ClaimAccess grant is required' };
+  }
+
+  const grantError = await verifyClaimAccessGrant({
+    claimId,
+    reader: address as Address,
+    expires: Number(expires),
+    signature: signature as Hex,
+  });
+  if (grantError) {
+    return { status: 401, error: grantError };
+  }
+  return { address: address as Address };
+}
+
+/**
+ * The address's role in a claim: a party or council member, else a
+ * governance signer, else null. Throws if the claim does not exist.
+ */
+export async function getClaimRole(
+  claimId: string,
+  address: Address
+): Promise<{ role: ClaimRole | null; evidenceOpen: boolean }> {
+  const participant = await getClaimParticipant(claimId, address);
+  if (participant.role) return participant;
+
+  // The Safe service being down must not lock participants out of claims
+  const isSigner = await isSafeOwner(address).catch((error) => {
+    console.warn('Could not check governance signers:', error);
+    return false;
+  });
+  return { role: isSigner ? 'governance' : null, evidenceOpen: participant.evidenceOpen };
+}
+
+/**
+ * Require an authenticated caller with a role in the claim. Sends the error
+ * response when access is denied.
+ */
+export async function authorizeClaimAccess(req: Request, res: Response): Promise<ClaimAccess | null> {
+  const { claimId } = req.params;
+  if (!/^\d+$/.test(claimId)) {
+    res.status(400).json({ error: 'claimId must be a decimal claim id' });
+    return null;
+  }
+
+  const identity = await getRequestIdentity(req, claimId);
+  if ('error' in identity) {
+    res.status(identity.status).json({ error: identity.error });
+    return null;
+  }
+  if (!identity.address) {
+    res.status(401).json({ error: 'Sign in or send a signed ClaimAccess grant to access this claim' });
+    return null;
+  }
+
+  try {
+    const { role, evidenceOpen } = await getClaimRole(claimId, identity.address);
+    if (!role) {
+      res.status(403).json({ error: 'Only the claim parties, its council and governance can access this claim' });
+      return null;
+    }
+    return { address: identity.address, role, evidenceOpen };
+  } catch (error) {
+    // getClaimParticipant throws 'Claim <id> not found' for unknown claims;
+    // anything else is a chain read failing
+    if (error instanceof Error && error.message === `Claim ${claimId} not found`) {
+      res.status(404).json({ error: 'Claim not found' });
+      return null;
+    }
+    console.error('Error verifying claim access:', error);
+    res.status(500).json({ error: 'Failed to check claim access' });
+    return null;
+  }
+}
+
+/**
+ * Enforce the claim's visibility policy for reading its summary or evidence:
+ * public scopes are open to anyone, the rest need a role in the claim. Sends
+ * the error response when access is denied.
+ */
+export async function authorizeClaimRead(
+  req: Request,
+  res: Response,
+  scope: ClaimScope
+): Promise<ClaimViewer | null> {
+  const { claimId } = req.params;
+  if (!/^\d+$/.test(claimId)) {
+    res.status(400).json({ error: 'claimId must be a decimal claim id' });
+    return null;
+  }
+
+  let visibility: ClaimVisibility;
+  try {
+    visibility = await getClaimVisibility(claimId);
+  } catch (error) {
+    console.error('Error loading claim visibility:', error);
+    res.status(500).json({ error: 'Failed to check claim access' });
+    return null;
+  }
+
+  // Private responses must not be served to others from a shared cache
+  res.setHeader('Vary', 'Authorization, X-Claim-Access-Address, X-Claim-Access-Signature');
+  if (visibility[scope] === 'public') {
+    return { address: null, role: null, visibility };
+  }
+
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return null;
+  return { address: access.address, role: access.role, visibility };
+}
@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  badgeETag,
+  getBadgeData,
+  getBadgeEmbed,
+  renderBadgePng,
+  renderBadgeSvg,
+  type BadgeOptions,
+} from '../services/badge.js';
+
+const router = Router();
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const badgeQuerySchema = z.object({
+  style: z.enum(['compact', 'card']).default('compact'),
+  theme: z.enum(['dark', 'light']).default('dark'),
+  size: z.enum(['sm', 'md', 'lg']).default('md'),
+});
+
+// The agent's NFT image: the full card at its original size
+const IMAGE_OPTIONS: BadgeOptions = { style: 'card', theme: 'dark', size: 'md' };
+
+function parseBadgeRequest(req: Request, res: Response): { agentId: string; options: BadgeOptions } | null {
+  const { agentId } = req.params;
+  if (!/^\d+$/.test(agentId)) {
+    res.status(400).json({
+      error: 'invalid_agent_id',
+      message: 'agentId must be a decimal token id',
+    });
+    return null;
+  }
+
+  const parsed = badgeQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.errors.map((e) => ({
+        field: e.path.join('.'),
+        message: e.message,
+      })),
+    });
+    return null;
+  }
+
+  return { agentId, options: parsed.data };
+}
+
+/**
+ * Send a badge, answering conditional requests with 304 before rendering
+ */
+async function sendBadge(req: Request, res: Response, agentId: string, options: BadgeOptions, format: 'svg' | 'png') {
+  try {
+    const data = await getBadgeData(agentId);
+    const etag = badgeETag(data, options, format);
+
+    // Badges are live: caches may keep them briefly but must revalidate
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'public, max-age=60, must-revalidate');
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    const svg = renderBadgeSvg(data, options);
+    if (format === 'png') {
+      res.setHeader('Content-Type', 'image/png');
+      res.send(renderBadgePng(svg));
+    } else {
+      res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8');
+      res.send(svg);
+    }
+  } catch (error) {
+    console.error(`Error rendering ${format} badge for agent ${agentId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to render badge',
+    });
+  }
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /v1/agents/:agentId/badge.svg?style=compact|card&theme=dark|light&size=sm|md|lg
+ * Live trust badge
+ */
+router.get('/agents/:agentId/badge.svg', async (req: Request, res: Response) => {
+  const request = parseBadgeRequest(req, res);
+  if (request) await sendBadge(req, res, request.agentId, request.options, 'svg');
+});
+
+/**
+ * GET /v1/agents/:agentId/badge.png
+ * Same badge, rasterized for hosts that don't render SVG
+ */
+router.get('/agents/:agentId/badge.png', async (req: Request, res: Response) => {
+  const request = parseBadgeRequest(req, res);
+  if (request) await sendBadge(req, res, request.agentId, request.options, 'png');
+});
+
+/**
+ * GET /v1/agents/:agentId/badge/embed
+ * HTML and Markdown snippets for embedding the badge
+ */
+router.get('/agents/:agentId/badge/embed', (req: Request, res: Response) => {
+  const request = parseBadgeRequest(req, res);
+  if (!request) return;
+
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.json(getBadgeEmbed(request.agentId, request.options));
+});
+
+/**
+ * GET /v1/agents/:agentId/image.svg
+ * The agent's image (agent card iconUrl / NFT image): the full dark card
+ */
+router.get('/agents/:agentId/image.svg', async (req: Request, res: Response) => {
+  const { agentId } = req.params;
+  if (!/^\d+$/.test(agentId)) {
+    res.status(400).send('Invalid agent id');
+    return;
+  }
+  await sendBadge(req, res, agentId, IMAGE_OPTIONS, 'svg');
+});
+
+export default router;
@@ -0,0 +1,173 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { Address, Hex } from 'viem';
+import { authorizeClaimAccess } from '../middleware/claim-access.js';
+import { transaction, queryMany } from '../db/index.js';
+import {
+  EncryptionKeyTypes,
+  checkWrappedKeys,
+  getClaimRecipients,
+  getEncryptionKey,
+  saveEncryptionKey,
+  storeWrappedKeys,
+  syncClaimKeys,
+  verifyEncryptionKeyRegistration,
+  type WrappedKey,
+} from '../services/claim-encryption.js';
+import { claimMessageDomain } from '../services/claim-messages.js';
+
+const router = Router();
+
+// ============================================================================
+// Encryption Keys
+// ============================================================================
+
+/**
+ * GET /claims/encryption-keys/:address
+ * An address's registered public key and its encrypted private key backup
+ */
+router.get('/encryption-keys/:address', async (req: Request, res: Response) => {
+  const { address } = req.params;
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return res.status(400).json({ error: 'address must be an address' });
+  }
+
+  try {
+    const key = await getEncryptionKey(address);
+    if (!key) {
+      return res.status(404).json({ error: 'No encryption key registered for this address' });
+    }
+    res.setHeader('Cache-Control', 'no-cache');
+    res.json({
+      address: key.address,
+      publicKey: key.public_key,
+      keyId: key.key_id,
+      encryptedPrivateKey: key.encrypted_private_key,
+      signature: key.signature,
+      timestamp: Number(key.signed_timestamp),
+      updatedAt: key.updated_at,
+    });
+  } catch (error) {
+    console.error('Error fetching encryption key:', error);
+    res.status(500).json({ error: 'Failed to fetch encryption key' });
+  }
+});
+
+/**
+ * POST /claims/encryption-keys
+ * Register or replace the caller's encryption key, signed as an EncryptionKey
+ */
+router.post('/encryption-keys', async (req: Request, res: Response) => {
+  const { address, publicKey, encryptedPrivateKey, timestamp, signature } = req.body ?? {};
+  if (
+    typeof address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(address) ||
+    typeof publicKey !== 'string' ||
+    typeof encryptedPrivateKey !== 'string' ||
+    typeof timestamp !== 'number' || !Number.isInteger(timestamp) ||
+    typeof signature !== 'string' || !/^0x[a-fA-F0-9]+$/.test(signature)
+  ) {
+    return res.status(400).json({
+      error: 'address, publicKey, encryptedPrivateKey, timestamp and signature are required',
+      eip712: { domain: claimMessageDomain, types: EncryptionKeyTypes, primaryType: 'EncryptionKey' },
+    });
+  }
+
+  const registration = {
+    owner: address as Address,
+    publicKey: publicKey as Hex,
+    encryptedPrivateKey,
+    timestamp,
+    signature: signature as Hex,
+  };
+  const registrationError = await verifyEncryptionKeyRegistration(registration);
+  if (registrationError) {
+    return res.status(registrationError.startsWith('Signature') ? 401 : 400).json({ error: registrationError });
+  }
+
+  try {
+    const key = await saveEncryptionKey(registration);
+    res.status(201).json({ address: key.address, publicKey: key.public_key, keyId: key.key_id });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('A newer')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error registering encryption key:', error);
+    res.status(500).json({ error: 'Failed to register encryption key' });
+  }
+});
+
+// ============================================================================
+// Claim Keys
+// ============================================================================
+
+/**
+ * GET /claims/:claimId/keys
+ * The claim's recipients and their keys, and the wraps still missing for
+ * them. Drops wraps of members who have left the council.
+ */
+router.get('/:claimId/keys', async (req: Request, res: Response) => {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+
+  try {
+    const status = await syncClaimKeys(req.params.claimId);
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.json(status);
+  } catch (error) {
+    console.error('Error syncing claim keys:', error);
+    res.status(500).json({ error: 'Failed to load claim keys' });
+  }
+});
+
+/**
+ * POST /claims/:claimId/keys
+ * Re-wrap content keys for recipients listed as missing:
+ * { wraps: [{ messageId, recipient, keyId, ephemeralPublicKey, wrappedKey }] }
+ * Only a message's author may wrap its key, except for their own wrap.
+ */
+router.post('/:claimId/keys', async (req: Request, res: Response) => {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+
+  try {
+    const { claimId } = req.params;
+    const wraps = req.body?.wraps as (WrappedKey & { messageId?: unknown })[] | undefined;
+
+    const recipients = await getClaimRecipients(claimId);
+    const wrapsError = checkWrappedKeys(wraps, recipients);
+    if (wrapsError) {
+      return res.status(400).json({ error: wrapsError });
+    }
+
+    const messageIds = [...new Set(wraps!.map((w) => w.messageId))];
+    if (messageIds.some((id) => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'Each wrapped key needs the messageId it belongs to' });
+    }
+    const messages = await queryMany<{ id: string; author_address: string }>(
+      'SELECT id, author_address FROM claim_messages WHERE claim_id = $1 AND encrypted AND id::text = ANY($2)',
+      [claimId, messageIds]
+    );
+    if (messages.length !== messageIds.length) {
+      return res.status(400).json({ error: 'Wrapped keys must belong to encrypted messages of this claim' });
+    }
+
+    // Nothing proves a wrap decrypts, so others must not write it
+    const caller = access.address.toLowerCase();
+    const authors = new Map(messages.map((m) => [m.id, m.author_address.toLowerCase()]));
+    if (wraps!.some((w) => authors.get(w.messageId as string) !== caller && w.recipient.toLowerCase() !== caller)) {
+      return res.status(403).json({ error: "Only a message's author can share its key" });
+    }
+
+    await transaction(async (client) => {
+      for (const messageId of messageIds as string[]) {
+        await storeWrappedKeys(client, messageId, wraps!.filter((w) => w.messageId === messageId), access.address);
+      }
+    });
+    res.json({ stored: wraps!.length });
+  } catch (error) {
+    console.error('Error storing wrapped keys:', error);
+    res.status(500).json({ error: 'Failed to store wrapped keys' });
+  }
+});
+
+export default router;
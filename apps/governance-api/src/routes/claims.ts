@@ -4,61 +4,64 @@
 // And: app.use('/claims', claimsRoutes);
 
 import { Router, Request, Response } from 'express';
-import { publicClient, CHAIN_ID, RPC_URL } from '../services/blockchain.js';
-import { db } from '../db/index.js';
-import { type Address, type Hex, encodeFunctionData, parseAbi } from 'viem';
+import { db, transaction } from '../db/index.js';
+import { type Address, type Hex, encodeFunctionData } from 'viem';
+import {
+  publicClient,
+  CLAIMS_MANAGER_ADDRESS,
+  COUNCIL_REGISTRY_ADDRESS,
+  RULING_EXECUTOR_ADDRESS,
+  ClaimsManagerAbi,
+  CouncilRegistryAbi,
+  RulingExecutorAbi,
+} from '../config/index.js';
+import {
+  parseX402Receipt,
+  verifyAndStoreClaimPayment,
+  getClaimPaymentVerification,
+} from '../services/payments.js';
+import {
+  ClaimMessageTypes,
+  claimMessageDomain,
+  evidenceMatchesHash,
+  hashMessageContent,
+  verifyClaimMessageSignature,
+} from '../services/claim-messages.js';
+import { getEvidenceFile } from '../services/evidence-store.js';
+import { chainClaimMessages, getTranscript, lockTranscript } from '../services/transcript.js';
+import {
+  ENCRYPTED_CONTENT_PATTERN,
+  checkWrappedKeys,
+  getClaimRecipients,
+  getWrappedKeys,
+  storeWrappedKeys,
+  type WrappedKey,
+} from '../services/claim-encryption.js';
+import {
+  authorizeClaimAccess,
+  authorizeClaimRead,
+  getClaimRole,
+  getRequestIdentity,
+} from '../middleware/claim-access.js';
+import {
+  checkClaimVisibility,
+  getClaimVisibilities,
+  setClaimVisibility,
+  type ClaimVisibility,
+} from '../services/claim-visibility.js';
 
 const router = Router();
 
-// ============================================================================
-// Contract Configuration
-// ============================================================================
-
-const CLAIMS_MANAGER_ADDRESS = process.env.CLAIMS_MANAGER_ADDRESS as Address;
-const COUNCIL_REGISTRY_ADDRESS = process.env.COUNCIL_REGISTRY_ADDRESS as Address;
-const RULING_EXECUTOR_ADDRESS = process.env.RULING_EXECUTOR_ADDRESS as Address;
-
 // ============================================================================
 // ABI Definitions
 // ============================================================================
+// Generated from config/abis/*.json (v1.3: fileClaim takes 3 params, evidence
+// lives in claim_messages). Using the generated ABIs instead of hand-written
+// fragments means tsc rejects any call that drifts from the deployed contracts.
 
-const claimsManagerABI = parseAbi([
-  // View functions (v1.3 - evidenceHash and evidenceUri removed from Claim struct)
-  'function getClaim(uint256 claimId) view returns ((uint256 claimId, uint256 agentId, address claimant, uint256 claimedAmount, uint256 approvedAmount, bytes32 paymentReceiptHash, bytes32 termsHashAtClaimTime, uint256 termsVersionAtClaimTime, address providerAtClaimTime, bytes32 councilId, uint256 claimantDeposit, uint256 lockedCollateral, uint8 status, uint256 filedAt, uint256 evidenceDeadline, uint256 votingDeadline, bool hadVotes))',
-  'function getClaimsByCouncil(bytes32 councilId) view returns (uint256[])',
-  'function getPendingClaimsByCouncil(bytes32 councilId) view returns (uint256[])',
-  'function getClaimsByClaimant(address claimant) view returns (uint256[])',
-  'function getClaimsByAgent(uint256 agentId) view returns (uint256[])',
-  'function getVotingProgress(uint256 claimId) view returns ((uint256 approveVotes, uint256 rejectVotes, uint256 abstainVotes, uint256 totalVotes, uint256 requiredQuorum, uint256 deadline, bool quorumReached))',
-  'function getVotes(uint256 claimId) view returns ((address voter, uint8 vote, uint256 approvedAmount, string reasoning, uint256 votedAt, uint256 lastChangedAt)[])',
-  'function getVote(uint256 claimId, address voter) view returns ((address voter, uint8 vote, uint256 approvedAmount, string reasoning, uint256 votedAt, uint256 lastChangedAt))',
-  'function hasVoted(uint256 claimId, address voter) view returns (bool)',
-  'function getVotersForClaim(uint256 claimId) view returns (address[])',
-  'function calculateRequiredDeposit(uint256 agentId, uint256 claimedAmount) view returns (uint256)',
-  'function nextClaimId() view returns (uint256)',
-  'function getClaimStats(uint256 agentId) view returns ((uint256 totalClaims, uint256 approvedClaims, uint256 rejectedClaims, uint256 pendingClaims, uint256 expiredClaims, uint256 totalPaidOut))',
-  'function calculateMedianApprovedAmount(uint256 claimId) view returns (uint256)',
-  // Write functions (v1.3 - fileClaim only takes 3 params, submitAdditionalEvidence removed)
-  'function fileClaim(uint256 agentId, uint256 claimedAmount, bytes32 paymentReceiptHash) returns (uint256)',
-  'function castVote(uint256 claimId, uint8 vote, uint256 approvedAmount, string reasoning)',
-  'function changeVote(uint256 claimId, uint8 vote, uint256 approvedAmount, string reasoning)',
-  'function finalizeClaim(uint256 claimId)',
-  'function cancelClaim(uint256 claimId)',
-]);
-
-const councilRegistryABI = parseAbi([
-  'function isActiveMember(bytes32 councilId, address member) view returns (bool)',
-  'function getCouncilMembers(bytes32 councilId) view returns (address[])',
-  'function getCouncil(bytes32 councilId) view returns ((bytes32 councilId, string name, string description, string vertical, uint256 memberCount, uint256 quorumPercentage, uint256 claimDepositPercentage, uint256 votingPeriod, uint256 evidencePeriod, bool active, uint256 createdAt, uint256 closedAt))',
-]);
-
-const rulingExecutorABI = parseAbi([
-  'function executeClaim(uint256 claimId)',
-  'function executeApprovedClaim(uint256 claimId)',
-  'function executeRejectedClaim(uint256 claimId)',
-  'function executeExpiredClaim(uint256 claimId)',
-  'function executeCancelledClaim(uint256 claimId)',
-]);
+const claimsManagerABI = ClaimsManagerAbi;
+const councilRegistryABI = CouncilRegistryAbi;
+const rulingExecutorABI = RulingExecutorAbi;
 
 // ============================================================================
 // Types
@@ -194,6 +197,13 @@ function formatVote(vote: any): VoteResponse {
 
 // GET /claims - List claims with filters
 router.get('/', async (req: Request, res: Response) => {
+  // Claims with a private summary are only listed for their participants,
+  // so only a session (not a per-claim grant) can see them here
+  const identity = await getRequestIdentity(req);
+  if ('error' in identity) {
+    return res.status(identity.status).json({ error: identity.error });
+  }
+
   try {
     const { councilId, status, claimant, agentId, pending } = req.query;
     
@@ -250,8 +260,15 @@ router.get('/', async (req: Request, res: Response) => {
     
     // Fetch claim details
     const claims: ClaimResponse[] = [];
+    const visibilities = await getClaimVisibilities(claimIds.map((id) => id.toString()));
     for (const claimId of claimIds) {
       try {
+        if (visibilities.get(claimId.toString())?.summary === 'participants') {
+          if (!identity.address) continue;
+          const { role } = await getClaimRole(claimId.toString(), identity.address);
+          if (!role) continue;
+        }
+        
         const claim = await publicClient.readContract({
           address: CLAIMS_MANAGER_ADDRESS,
           abi: claimsManagerABI,
@@ -284,6 +301,9 @@ router.get('/', async (req: Request, res: Response) => {
 
 // GET /claims/:claimId - Get claim details
 router.get('/:claimId', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
@@ -320,9 +340,14 @@ router.get('/:claimId', async (req: Request, res: Response) => {
       councilName = council.name;
     } catch {}
     
+    // null until an x402 receipt has been submitted for this claim
+    const payment = await getClaimPaymentVerification(claimId);
+    
     res.json({
       ...formatted,
       councilName,
+      visibility: viewer.visibility,
+      paymentVerified: payment ? payment.verified : null,
       votingProgress: {
         approveVotes: progress.approveVotes.toString(),
         rejectVotes: progress.rejectVotes.toString(),
@@ -341,6 +366,9 @@ router.get('/:claimId', async (req: Request, res: Response) => {
 
 // GET /claims/:claimId/votes - Get all votes for a claim
 router.get('/:claimId/votes', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
@@ -366,6 +394,9 @@ router.get('/:claimId/votes', async (req: Request, res: Response) => {
 
 // GET /claims/:claimId/my-vote - Check if address has voted
 router.get('/:claimId/my-vote', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     const { address } = req.query;
@@ -405,6 +436,9 @@ router.get('/:claimId/my-vote', async (req: Request, res: Response) => {
 
 // POST /claims/:claimId/vote - Get transaction data for voting
 router.post('/:claimId/vote', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     const { vote, approvedAmount, reasoning, voterAddress } = req.body;
@@ -458,6 +492,9 @@ router.post('/:claimId/vote', async (req: Request, res: Response) => {
 // - If claim needs finalization (Filed/EvidenceClosed) → returns finalizeClaim tx
 // - If claim is already finalized (Approved/Rejected/Expired) → returns executeClaim tx
 router.post('/:claimId/finalize', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
@@ -538,6 +575,9 @@ router.post('/:claimId/finalize', async (req: Request, res: Response) => {
 // POST /claims/:claimId/execute - Get transaction data for execution (RulingExecutor)
 // Use this after finalizeClaim to distribute funds
 router.post('/:claimId/execute', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
@@ -577,7 +617,7 @@ router.get('/members/:address/councils', async (req: Request, res: Response) =>
     // Get all active councils
     const councilIds = await publicClient.readContract({
       address: COUNCIL_REGISTRY_ADDRESS,
-      abi: parseAbi(['function getActiveCouncils() view returns (bytes32[])']),
+      abi: councilRegistryABI,
       functionName: 'getActiveCouncils',
     }) as Hex[];
     
@@ -618,6 +658,13 @@ router.get('/members/:address/councils', async (req: Request, res: Response) =>
 
 // GET /members/:address/pending-claims - Get pending claims for member's councils
 router.get('/members/:address/pending-claims', async (req: Request, res: Response) => {
+  // As for GET /claims, claims with a private summary are only listed for
+  // callers with a session and a role in them
+  const identity = await getRequestIdentity(req);
+  if ('error' in identity) {
+    return res.status(identity.status).json({ error: identity.error });
+  }
+
   try {
     const { address } = req.params;
     
@@ -628,7 +675,7 @@ router.get('/members/:address/pending-claims', async (req: Request, res: Respons
     // Get member's councils
     const councilIds = await publicClient.readContract({
       address: COUNCIL_REGISTRY_ADDRESS,
-      abi: parseAbi(['function getActiveCouncils() view returns (bytes32[])']),
+      abi: councilRegistryABI,
       functionName: 'getActiveCouncils',
     }) as Hex[];
     
@@ -649,9 +696,16 @@ router.get('/members/:address/pending-claims', async (req: Request, res: Respons
           functionName: 'getPendingClaimsByCouncil',
           args: [councilId],
         }) as bigint[];
+        const visibilities = await getClaimVisibilities(claimIds.map((id) => id.toString()));
         
         for (const claimId of claimIds) {
           try {
+            if (visibilities.get(claimId.toString())?.summary === 'participants') {
+              if (!identity.address) continue;
+              const { role } = await getClaimRole(claimId.toString(), identity.address);
+              if (!role) continue;
+            }
+            
             const claim = await publicClient.readContract({
               address: CLAIMS_MANAGER_ADDRESS,
               abi: claimsManagerABI,
@@ -727,6 +781,9 @@ router.get('/deposit-calculator', async (req: Request, res: Response) => {
 
 // GET /claims/:claimId/metadata - Get claim metadata (title, description)
 router.get('/:claimId/metadata', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
@@ -746,8 +803,14 @@ router.get('/:claimId/metadata', async (req: Request, res: Response) => {
   }
 });
 
-// POST /claims/:claimId/metadata - Save claim metadata
+// POST /claims/:claimId/metadata - Save claim metadata (claimant or governance)
 router.post('/:claimId/metadata', async (req: Request, res: Response) => {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+  if (access.role !== 'claimer' && access.role !== 'governance') {
+    return res.status(403).json({ error: 'Only the claimant can edit claim metadata' });
+  }
+
   try {
     const { claimId } = req.params;
     const { title, description } = req.body;
@@ -775,19 +838,108 @@ router.post('/:claimId/metadata', async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// Claim Visibility Routes
+// ============================================================================
+
+// GET /claims/:claimId/visibility - Get the claim's visibility policy
+router.get('/:claimId/visibility', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'summary');
+  if (!viewer) return;
+
+  res.json(viewer.visibility);
+});
+
+// PUT /claims/:claimId/visibility - Set the visibility policy (claimant or governance)
+// Body: { summary: 'public' | 'participants', evidence: 'public' | 'participants' }
+router.put('/:claimId/visibility', async (req: Request, res: Response) => {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+  if (access.role !== 'claimer' && access.role !== 'governance') {
+    return res.status(403).json({ error: 'Only the claimant can change claim visibility' });
+  }
+
+  const visibilityError = checkClaimVisibility(req.body);
+  if (visibilityError) {
+    return res.status(400).json({ error: visibilityError });
+  }
+
+  try {
+    const { summary, evidence } = req.body as ClaimVisibility;
+    const visibility = await setClaimVisibility(req.params.claimId, { summary, evidence }, access.address);
+    res.json(visibility);
+  } catch (error) {
+    console.error('Error saving claim visibility:', error);
+    res.status(500).json({ error: 'Failed to save visibility' });
+  }
+});
+
+// ============================================================================
+// Payment Verification Routes (x402)
+// ============================================================================
+
+// GET /claims/:claimId/payment - Get the stored payment verification
+router.get('/:claimId/payment', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
+  try {
+    const { claimId } = req.params;
+    
+    const verification = await getClaimPaymentVerification(claimId);
+    if (!verification) {
+      return res.status(404).json({ error: 'No payment receipt submitted' });
+    }
+    
+    res.json(verification);
+  } catch (error) {
+    console.error('Error fetching payment verification:', error);
+    res.status(500).json({ error: 'Failed to fetch payment verification' });
+  }
+});
+
+// POST /claims/:claimId/payment - Verify an x402 receipt against the claim (claimant or governance)
+// Body: { receipt } - settlement receipt as object, JSON or base64 (X-PAYMENT-RESPONSE header value)
+router.post('/:claimId/payment', async (req: Request, res: Response) => {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+  if (access.role !== 'claimer' && access.role !== 'governance') {
+    return res.status(403).json({ error: 'Only the claimant can submit a payment receipt' });
+  }
+
+  try {
+    const { claimId } = req.params;
+    
+    const receipt = parseX402Receipt(req.body?.receipt);
+    if (!receipt) {
+      return res.status(400).json({ error: 'receipt must be an x402 settlement receipt' });
+    }
+    
+    const verification = await verifyAndStoreClaimPayment(BigInt(claimId), receipt);
+    res.json(verification);
+  } catch (error) {
+    console.error('Error verifying payment:', error);
+    res.status(500).json({ error: 'Failed to verify payment' });
+  }
+});
+
 // ============================================================================
 // Claim Conversation Routes
 // ============================================================================
 
 // GET /claims/:claimId/messages - Get all messages for a claim
 router.get('/:claimId/messages', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
   try {
     const { claimId } = req.params;
     
     // v1.3: evidence stored in DB as base64 data (evidence_data, evidence_mimetype)
     const result = await db.query(
       `SELECT id, claim_id, parent_id, author_address, author_role,
-              content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size, created_at
+              content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size, created_at,
+              content_hash, signature, signed_timestamp, seq, prev_hash, message_hash, encrypted
        FROM claim_messages
        WHERE claim_id = $1
        ORDER BY created_at ASC`,
@@ -798,10 +950,12 @@ router.get('/:claimId/messages', async (req: Request, res: Response) => {
     const messages = result.rows;
     const messageMap = new Map<string, any>();
     const rootMessages: any[] = [];
+    // Encrypted messages come with their content key wrapped for each recipient
+    const wrappedKeys = await getWrappedKeys(messages.filter((m) => m.encrypted).map((m) => m.id));
     
     // First pass: create map of all messages
     for (const msg of messages) {
-      messageMap.set(msg.id, { ...msg, replies: [] });
+      messageMap.set(msg.id, { ...msg, wrapped_keys: msg.encrypted ? wrappedKeys.get(msg.id) ?? [] : undefined, replies: [] });
     }
     
     // Second pass: build tree structure
@@ -816,7 +970,13 @@ router.get('/:claimId/messages', async (req: Request, res: Response) => {
     
     res.json({
       messages: rootMessages,
-      totalCount: messages.length
+      totalCount: messages.length,
+      // Everything needed to re-verify each message's signature
+      eip712: {
+        domain: claimMessageDomain,
+        types: ClaimMessageTypes,
+        primaryType: 'ClaimMessage',
+      },
     });
   } catch (error) {
     console.error('Error fetching claim messages:', error);
@@ -838,7 +998,14 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
       evidenceData,
       evidenceFilename,
       evidenceMimetype,
-      evidenceSize
+      evidenceSize,
+      // EIP-712 signature over the message (see services/claim-messages.ts)
+      signature,
+      timestamp,
+      // End-to-end encrypted content and its wrapped content keys
+      // (see services/claim-encryption.ts)
+      encrypted,
+      keys,
     } = req.body;
     
     // Validate required fields
@@ -857,8 +1024,9 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'content is required' });
     }
     
-    // Validate evidence file size (10KB max)
-    if (evidenceSize && evidenceSize > 10240) {
+    // Validate inline evidence file size (10KB max). Larger files go through
+    // the evidence store (POST /claims/:claimId/evidence) and are referenced by hash
+    if (evidenceData && evidenceSize && evidenceSize > 10240) {
       return res.status(400).json({ error: 'Evidence file must be 10KB or less' });
     }
     
@@ -866,6 +1034,43 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
     if (normalizedRole === 'councilor' && (evidenceHash || evidenceData)) {
       return res.status(403).json({ error: 'Council members cannot submit evidence, only comments' });
     }
+
+    if (evidenceHash && !/^0x[a-fA-F0-9]{64}$/.test(evidenceHash)) {
+      return res.status(400).json({ error: 'evidenceHash must be a 32-byte hex hash' });
+    }
+    if (evidenceData && (!evidenceHash || !evidenceMatchesHash(evidenceData, evidenceHash))) {
+      return res.status(400).json({ error: 'evidenceHash does not match the evidence file' });
+    }
+    
+    if (encrypted === true) {
+      if (!ENCRYPTED_CONTENT_PATTERN.test(content.trim())) {
+        return res.status(400).json({ error: 'Encrypted content must be "enc:v1:" followed by base64' });
+      }
+      if (evidenceData) {
+        return res.status(400).json({ error: 'Encrypted evidence must be uploaded to the evidence store' });
+      }
+    }
+    
+    // The signature proves the caller controls authorAddress
+    if (!/^0x[a-fA-F0-9]{40}$/.test(authorAddress)) {
+      return res.status(400).json({ error: 'authorAddress must be an address' });
+    }
+    if (typeof signature !== 'string' || !/^0x[a-fA-F0-9]+$/.test(signature) || !Number.isInteger(timestamp)) {
+      return res.status(401).json({ error: 'signature and timestamp are required' });
+    }
+    const signatureError = await verifyClaimMessageSignature({
+      claimId,
+      parentId: parentId || null,
+      role: normalizedRole,
+      content: content.trim(),
+      evidenceHash: evidenceHash || null,
+      timestamp,
+      author: authorAddress as Address,
+      signature: signature as Hex,
+    });
+    if (signatureError) {
+      return res.status(401).json({ error: signatureError });
+    }
     
     // Verify the claim exists and check if evidence period is still open
     if (!CLAIMS_MANAGER_ADDRESS) {
@@ -926,6 +1131,17 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Claim not found' });
     }
     
+    // The author must be able to read their own message back
+    if (encrypted === true) {
+      const keysError = checkWrappedKeys(keys, await getClaimRecipients(claimId));
+      if (keysError) {
+        return res.status(400).json({ error: keysError });
+      }
+      if (!(keys as WrappedKey[]).some((k) => k.recipient.toLowerCase() === authorAddress.toLowerCase())) {
+        return res.status(400).json({ error: 'keys must include a wrapped key for the author' });
+      }
+    }
+    
     // Validate parent_id if provided
     if (parentId) {
       const parentCheck = await db.query(
@@ -937,28 +1153,61 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
       }
     }
     
-    // Insert the message (v1.3: use evidence_data and evidence_mimetype columns)
-    const result = await db.query(
-      `INSERT INTO claim_messages 
-       (claim_id, parent_id, author_address, author_role, content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       RETURNING *`,
-      [
-        claimId,
-        parentId || null,
-        authorAddress.toLowerCase(),
-        normalizedRole,
-        content.trim(),
-        evidenceHash || null,
-        evidenceData || null,
-        evidenceFilename || null,
-        evidenceMimetype || null,
-        evidenceSize || null
-      ]
-    );
+    // Evidence uploaded to the evidence store: take its details from there
+    const storedEvidence = evidenceHash && !evidenceData
+      ? await getEvidenceFile(claimId, evidenceHash)
+      : null;
     
-    res.status(201).json(result.rows[0]);
+    // Insert the message and append it to the claim's hash chain
+    // (v1.3: use evidence_data and evidence_mimetype columns)
+    const message = await transaction(async (client) => {
+      // Nothing can be added once the transcript is frozen
+      if (await lockTranscript(client, claimId)) return null;
+
+      const inserted = await client.query(
+        `INSERT INTO claim_messages 
+         (claim_id, parent_id, author_address, author_role, content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size,
+          content_hash, signature, signed_timestamp, encrypted)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         RETURNING *`,
+        [
+          claimId,
+          parentId || null,
+          authorAddress.toLowerCase(),
+          normalizedRole,
+          content.trim(),
+          evidenceHash || null,
+          evidenceData || null,
+          storedEvidence?.filename ?? (evidenceFilename || null),
+          storedEvidence?.mimetype ?? (evidenceMimetype || null),
+          storedEvidence ? Number(storedEvidence.size) : (evidenceSize || null),
+          hashMessageContent(content.trim()),
+          signature,
+          timestamp,
+          encrypted === true
+        ]
+      );
+      if (encrypted === true) {
+        await storeWrappedKeys(client, inserted.rows[0].id, keys, authorAddress);
+      }
+      await chainClaimMessages(client, claimId);
+
+      const chained = await client.query('SELECT * FROM claim_messages WHERE id = $1', [inserted.rows[0].id]);
+      return chained.rows[0];
+    });
+    
+    if (!message) {
+      return res.status(403).json({ error: 'The transcript of this claim is frozen' });
+    }
+    if (message.encrypted) {
+      message.wrapped_keys = (await getWrappedKeys([message.id])).get(message.id) ?? [];
+    }
+    res.status(201).json(message);
   } catch (error) {
+    // A signature can only be used once
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'This signed message was already posted' });
+    }
     console.error('Error posting message:', error);
     res.status(500).json({ error: 'Failed to post message' });
   }
@@ -966,6 +1215,9 @@ router.post('/:claimId/messages', async (req: Request, res: Response) => {
 
 // GET /claims/:claimId/messages/:messageId - Get a single message with its replies
 router.get('/:claimId/messages/:messageId', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
   try {
     const { claimId, messageId } = req.params;
     
@@ -973,14 +1225,16 @@ router.get('/:claimId/messages/:messageId', async (req: Request, res: Response)
     const result = await db.query(
       `WITH RECURSIVE message_tree AS (
          SELECT id, claim_id, parent_id, author_address, author_role,
-                content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size, created_at, 0 as depth
+                content, evidence_hash, evidence_data, evidence_filename, evidence_mimetype, evidence_size, created_at,
+                content_hash, signature, signed_timestamp, seq, prev_hash, message_hash, encrypted, 0 as depth
          FROM claim_messages
          WHERE id = $1 AND claim_id = $2
          
          UNION ALL
          
          SELECT cm.id, cm.claim_id, cm.parent_id, cm.author_address, cm.author_role,
-                cm.content, cm.evidence_hash, cm.evidence_data, cm.evidence_filename, cm.evidence_mimetype, cm.evidence_size, cm.created_at, mt.depth + 1
+                cm.content, cm.evidence_hash, cm.evidence_data, cm.evidence_filename, cm.evidence_mimetype, cm.evidence_size, cm.created_at,
+                cm.content_hash, cm.signature, cm.signed_timestamp, cm.seq, cm.prev_hash, cm.message_hash, cm.encrypted, mt.depth + 1
          FROM claim_messages cm
          INNER JOIN message_tree mt ON cm.parent_id = mt.id
        )
@@ -995,9 +1249,10 @@ router.get('/:claimId/messages/:messageId', async (req: Request, res: Response)
     // Build tree structure
     const messages = result.rows;
     const messageMap = new Map<string, any>();
+    const wrappedKeys = await getWrappedKeys(messages.filter((m) => m.encrypted).map((m) => m.id));
     
     for (const msg of messages) {
-      messageMap.set(msg.id, { ...msg, replies: [] });
+      messageMap.set(msg.id, { ...msg, wrapped_keys: msg.encrypted ? wrappedKeys.get(msg.id) ?? [] : undefined, replies: [] });
     }
     
     let rootMessage: any = null;
@@ -1017,4 +1272,24 @@ router.get('/:claimId/messages/:messageId', async (req: Request, res: Response)
   }
 });
 
+// GET /claims/:claimId/transcript - Export the hash-chained transcript with
+// Merkle proofs for each message, its integrity check and on-chain anchor
+router.get('/:claimId/transcript', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
+  try {
+    const { claimId } = req.params;
+    const transcript = await getTranscript(claimId);
+    if (transcript.messageCount === 0 && !transcript.frozen) {
+      return res.status(404).json({ error: 'No messages for this claim' });
+    }
+    
+    res.json(transcript);
+  } catch (error) {
+    console.error('Error exporting transcript:', error);
+    res.status(500).json({ error: 'Failed to export transcript' });
+  }
+});
+
 export default router;
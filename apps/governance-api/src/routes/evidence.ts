@@ -0,0 +1,215 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { authorizeClaimAccess, authorizeClaimRead, type ClaimAccess } from '../middleware/claim-access.js';
+import {
+  MAX_EVIDENCE_FILE_SIZE,
+  checkEvidencePolicy,
+  getEvidenceFile,
+  getEvidencePolicies,
+  listEvidenceFiles,
+  readEvidence,
+  storeEvidence,
+  type EvidenceFile,
+} from '../services/evidence-store.js';
+
+const router = Router();
+
+// Files are hashed and checked in memory before they reach a backend
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_EVIDENCE_FILE_SIZE, files: 1 },
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Only the claimant and provider can upload, during the evidence period.
+ * Runs before the body is read, so strangers can't upload at all.
+ */
+async function authorizeUpload(req: Request, res: Response, next: NextFunction) {
+  const access = await authorizeClaimAccess(req, res);
+  if (!access) return;
+
+  if (access.role === 'councilor') {
+    res.status(403).json({ error: 'Council members cannot submit evidence, only comments' });
+    return;
+  }
+  if (access.role === 'governance') {
+    res.status(403).json({ error: 'Only the claimant and provider can submit evidence' });
+    return;
+  }
+  if (!access.evidenceOpen) {
+    res.status(403).json({ error: 'Evidence period has ended' });
+    return;
+  }
+
+  res.locals.claimAccess = access;
+  next();
+}
+
+/**
+ * Receive the "file" field, answering oversized or malformed uploads with 4xx
+ */
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        res.status(413).json({ error: `Evidence files must be ${MAX_EVIDENCE_FILE_SIZE} bytes or less` });
+      } else {
+        res.status(400).json({ error: err.message });
+      }
+      return;
+    }
+    if (err) {
+      next(err);
+      return;
+    }
+    next();
+  });
+}
+
+function formatEvidenceFile(file: EvidenceFile) {
+  return {
+    keccak256: file.keccak256,
+    sha256: file.sha256,
+    size: Number(file.size),
+    mimetype: file.mimetype,
+    filename: file.filename,
+    uploader: file.uploader_address,
+    uploadedAt: file.created_at,
+    url: `/claims/${file.claim_id}/evidence/${file.keccak256}`,
+  };
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /claims/evidence/policy
+ * Accepted evidence types and their size limits
+ */
+router.get('/evidence/policy', (_req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.json({
+    maxSize: MAX_EVIDENCE_FILE_SIZE,
+    types: getEvidencePolicies().map((p) => ({ mimetype: p.mimetype, maxSize: p.maxSize })),
+  });
+});
+
+/**
+ * POST /claims/:claimId/evidence
+ * Upload an evidence file (multipart/form-data, "file" field). Reference the
+ * returned keccak256 as evidenceHash when posting the message.
+ */
+router.post('/:claimId/evidence', authorizeUpload, receiveFile, async (req: Request, res: Response) => {
+  const access = res.locals.claimAccess as ClaimAccess;
+  try {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file provided. Send a file in the "file" field.' });
+    }
+
+    const mimetype = file.mimetype.split(';')[0].trim().toLowerCase();
+    const policyError = checkEvidencePolicy(file.buffer, mimetype);
+    if (policyError) {
+      return res.status(415).json({ error: policyError });
+    }
+
+    const { file: stored, created } = await storeEvidence({
+      claimId: req.params.claimId,
+      uploader: access.address,
+      filename: file.originalname.slice(0, 255),
+      mimetype,
+      data: file.buffer,
+    });
+    res.status(created ? 201 : 200).json(formatEvidenceFile(stored));
+  } catch (error) {
+    console.error('Error storing evidence:', error);
+    res.status(500).json({ error: 'Failed to store evidence' });
+  }
+});
+
+/**
+ * GET /claims/:claimId/evidence
+ * Evidence files uploaded to a claim
+ */
+router.get('/:claimId/evidence', async (req: Request, res: Response) => {
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
+  try {
+    const files = await listEvidenceFiles(req.params.claimId);
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.json({ files: files.map(formatEvidenceFile) });
+  } catch (error) {
+    console.error('Error listing evidence:', error);
+    res.status(500).json({ error: 'Failed to list evidence' });
+  }
+});
+
+/**
+ * GET /claims/:claimId/evidence/:hash
+ * Download an evidence file by keccak256 or sha256. Supports single-range
+ * Range requests; multi-range requests get the whole file.
+ */
+router.get('/:claimId/evidence/:hash', async (req: Request, res: Response) => {
+  const { claimId, hash } = req.params;
+  if (!/^0x[a-fA-F0-9]{64}$/.test(hash)) {
+    return res.status(400).json({ error: 'hash must be a keccak256 or sha256 hash' });
+  }
+
+  const viewer = await authorizeClaimRead(req, res, 'evidence');
+  if (!viewer) return;
+
+  try {
+    const file = await getEvidenceFile(claimId, hash);
+    if (!file) {
+      return res.status(404).json({ error: 'Evidence file not found' });
+    }
+
+    const size = Number(file.size);
+    // Content never changes for a hash, but access depends on the caller
+    res.setHeader('ETag', `"${file.keccak256}"`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', file.mimetype);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename.replace(/[^\w.\- ]/g, '_')}"`);
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    const ranges = req.range(size);
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      return res.status(416).json({ error: 'Requested range not satisfiable' });
+    }
+    const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+      ? ranges[0]
+      : undefined;
+
+    const stream = await readEvidence(file, range);
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', size);
+    }
+
+    stream.on('error', (error) => {
+      console.error(`Error streaming evidence ${file.keccak256}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Error reading evidence:', error);
+    res.status(500).json({ error: 'Failed to read evidence' });
+  }
+});
+
+export default router;
@@ -21,6 +21,35 @@ const router = Router();
 // Validation Schemas
 // ============================================================================
 
+// A2A AgentSkill
+const skillSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().min(1).max(255),
+  description: z.string().min(1).max(2000),
+  tags: z.array(z.string().max(100)).max(20),
+  examples: z.array(z.string().max(500)).max(10).optional(),
+  inputModes: z.array(z.string().max(100)).max(10).optional(),
+  outputModes: z.array(z.string().max(100)).max(10).optional(),
+});
+
+// A2A security scheme (OpenAPI 3 style: apiKey, http, oauth2, openIdConnect, mutualTLS)
+const securitySchemeSchema = z
+  .object({ type: z.enum(['apiKey', 'http', 'oauth2', 'openIdConnect', 'mutualTLS']) })
+  .passthrough();
+
+// Agent card fields; an empty string clears a stored value
+const agentCardFields = {
+  endpointUrl: z.string().url().max(500).or(z.literal('')).optional(),
+  version: z.string().max(50).optional(),
+  documentationUrl: z.string().url().max(500).or(z.literal('')).optional(),
+  providerOrganization: z.string().max(255).optional(),
+  providerUrl: z.string().url().max(500).or(z.literal('')).optional(),
+  skills: z.array(skillSchema).max(50).optional(),
+  securitySchemes: z.record(z.string().max(100), securitySchemeSchema).optional(),
+  inputModes: z.array(z.string().max(100)).max(10).optional(),
+  outputModes: z.array(z.string().max(100)).max(10).optional(),
+};
+
 const createAgentSchema = z.object({
   agentId: z.string(),
   ownerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
@@ -28,6 +57,7 @@ const createAgentSchema = z.object({
   description: z.string().max(2000).optional(),
   capabilities: z.array(z.string().max(100)).max(20).optional(),
   websiteUrl: z.string().url().max(500).optional(),
+  ...agentCardFields,
 });
 
 const updateAgentSchema = z.object({
@@ -35,6 +65,7 @@ const updateAgentSchema = z.object({
   description: z.string().max(2000).optional(),
   capabilities: z.array(z.string().max(100)).max(20).optional(),
   websiteUrl: z.string().url().max(500).optional().nullable(),
+  ...agentCardFields,
 });
 
 // ============================================================================
@@ -129,7 +160,7 @@ router.post('/', async (req: Request, res: Response) => {
       return;
     }
 
-    const { agentId, ownerAddress, name, description, capabilities, websiteUrl } = parsed.data;
+    const { agentId, ownerAddress, name, description, capabilities, websiteUrl, ...card } = parsed.data;
 
     // Verify on-chain ownership
     const isOwner = await verifyOwnership(agentId, ownerAddress);
@@ -152,6 +183,7 @@ router.post('/', async (req: Request, res: Response) => {
       description,
       capabilities,
       websiteUrl,
+      ...card,
     });
 
     res.status(201).json(metadata);
@@ -200,7 +232,7 @@ router.put('/:agentId', async (req: Request, res: Response) => {
     }
     console.log('Ownership verified');
 
-    const { name, description, capabilities, websiteUrl } = parsed.data;
+    const { name, description, capabilities, websiteUrl, ...card } = parsed.data;
 
     // Check if metadata exists, if not create it
     const exists = await agentMetadataExists(agentId);
@@ -215,6 +247,7 @@ router.put('/:agentId', async (req: Request, res: Response) => {
         description,
         capabilities,
         websiteUrl: websiteUrl === null ? undefined : websiteUrl,
+        ...card,
       });
     } else {
       metadata = await updateAgentMetadata(agentId, ownerAddress, {
@@ -222,6 +255,7 @@ router.put('/:agentId', async (req: Request, res: Response) => {
         description,
         capabilities,
         websiteUrl: websiteUrl === null ? undefined : websiteUrl,
+        ...card,
       });
     }
 
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { parseUnits } from 'viem';
+import { z } from 'zod';
+import { searchAgents } from '../services/search.js';
+import { USDC_DECIMALS } from '../config/index.js';
+
+const router = Router();
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const booleanFlag = z.enum(['true', 'false']).transform((v) => v === 'true');
+
+// capability=a&capability=b and capability=a,b are both accepted
+const capabilityList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => (Array.isArray(v) ? v : [v]).flatMap((c) => c.split(',')).map((c) => c.trim()).filter(Boolean));
+
+const agentSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  capability: capabilityList.optional(),
+  vertical: z.string().trim().max(100).optional(),
+  minCollateral: z
+    .string()
+    .regex(/^\d+(\.\d{1,6})?$/, 'minCollateral must be a USDC amount')
+    .transform((v) => parseUnits(v, USDC_DECIMALS))
+    .optional(),
+  validatedOnly: booleanFlag.default('false'),
+  noPendingWithdrawal: booleanFlag.default('false'),
+  sort: z.enum(['relevance', 'collateral', 'score', 'claimRecord']).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /v1/agents/search
+ * Discover agents by metadata (full-text q, capability) and on-chain trust
+ * state (vertical, minCollateral, validatedOnly, noPendingWithdrawal), sorted
+ * by relevance, collateral, score or claimRecord. Sorts by relevance when q
+ * is given and by collateral otherwise. At most 1000 metadata matches are
+ * considered, and sorting by score ranks only the 100 most relevant of them;
+ * truncated is true when a search matched more.
+ */
+router.get('/agents/search', async (req: Request, res: Response) => {
+  // Parsed here rather than with validateQuery, which can't carry transforms
+  const parsed = agentSearchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Validation error',
+      details: parsed.error.errors.map((e) => ({
+        field: e.path.join('.'),
+        message: e.message,
+      })),
+    });
+  }
+  const query = parsed.data;
+
+  try {
+    const result = await searchAgents({
+      q: query.q || undefined,
+      capabilities: query.capability,
+      vertical: query.vertical || undefined,
+      minCollateral: query.minCollateral,
+      validatedOnly: query.validatedOnly,
+      noPendingWithdrawal: query.noPendingWithdrawal,
+      sort: query.sort ?? (query.q ? 'relevance' : 'collateral'),
+      order: query.order,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    res.setHeader('Cache-Control', 'public, max-age=30');
+    res.json(result);
+  } catch (error) {
+    console.error('Error searching agents:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to search agents',
+    });
+  }
+});
+
+export default router;
@@ -1,12 +1,19 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { formatUnits } from 'viem';
-import { getAgentMetadata } from '../services/agents.js';
+import { getAgentClaimSummary } from '../services/blockchain.js';
+import { TRUSTFUL_EXTENSION_JSON_SCHEMA, getAgentCard } from '../services/agent-card.js';
+import { TRUST_SCORE_WEIGHTS, computeTrustScore, getTrustScoreInputs } from '../services/score.js';
+import {
+  ValidationDocumentTypes,
+  getChainHead,
+  getValidationSigner,
+  signValidationDocument,
+  validationDomain,
+} from '../services/signing.js';
 import {
   CONTRACTS,
   CHAIN_ID,
-  API_URL,
-  DASHBOARD_URLS,
   publicClient,
   TrustfulValidatorAbi,
   CollateralVaultAbi,
@@ -20,133 +27,22 @@ const router = Router();
 // ============================================================================
 
 /**
- * GET /v1/agents/:agentId/agent-card.json
- * A2A Protocol Agent Card format
- * This is what tokenURI should point to
+ * Serve an agent's A2A Agent Card (see services/agent-card.ts)
  */
-router.get('/agents/:agentId/agent-card.json', async (req: Request, res: Response) => {
+async function sendAgentCard(req: Request, res: Response) {
   const { agentId } = req.params;
 
-  try {
-    console.log(`Fetching agent card for agent ${agentId}`);
-    console.log(`Using collateral vault: ${CONTRACTS.collateralVault}`);
-    
-    // Fetch metadata from DB and chain data in parallel
-    const [metadata, isValidated, validation, collateral, termsResult] = await Promise.all([
-      getAgentMetadata(agentId),
-      publicClient.readContract({
-        address: CONTRACTS.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: 'isValidated',
-        args: [BigInt(agentId)],
-      }),
-      publicClient.readContract({
-        address: CONTRACTS.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: 'getValidationRecord',
-        args: [BigInt(agentId)],
-      }).catch((err) => { console.log('getValidationRecord error:', err); return null; }),
-      publicClient.readContract({
-        address: CONTRACTS.collateralVault,
-        abi: CollateralVaultAbi,
-        functionName: 'getAccount',
-        args: [BigInt(agentId)],
-      }).catch((err) => { console.log('getAccount error:', err); return null; }),
-      publicClient.readContract({
-        address: CONTRACTS.termsRegistry,
-        abi: TermsRegistryAbi,
-        functionName: 'getActiveTerms',
-        args: [BigInt(agentId)],
-      }).catch((err) => { console.log('getActiveTerms error:', err); return null; }),
-    ]);
-
-    // getActiveTerms returns a tuple [termsData, version] — extract the data
-    const terms = termsResult ? termsResult[0] : null;
-
-    console.log(`Agent ${agentId} collateral result:`, collateral);
-    console.log(`Agent ${agentId} balance:`, collateral ? collateral.balance.toString() : 'null');
-
-    // Determine validation status
-    let trustStatus: 'valid' | 'invalid' | 'revoked' = 'invalid';
-    if (isValidated) {
-      trustStatus = 'valid';
-    } else if (validation && validation.revokedAt > 0n) {
-      trustStatus = 'revoked';
-    }
-
-    // Use DB metadata or fallback to generated values
-    const agentName = metadata?.name ?? `Trustful Agent #${agentId}`;
-    const agentDescription = metadata?.description ?? 
-      `AI Agent registered on Trustful Agents protocol with ${collateral ? formatUnits(collateral.balance, 6) : '0'} USDC collateral`;
-
-    // Build A2A Agent Card format
-    const agentCard = {
-      // Standard A2A Agent Card fields
-      name: agentName,
-      description: agentDescription,
-      image: `${API_URL}/v1/agents/${agentId}/image.svg`,
-      
-      // External URLs
-      external_url: `${DASHBOARD_URLS.provider}/agents/${agentId}`,
-      
-      // Standard NFT attributes
-      attributes: [
-        {
-          trait_type: 'Validation Status',
-          value: trustStatus,
-        },
-        {
-          trait_type: 'Collateral (USDC)',
-          value: collateral ? formatUnits(collateral.balance, 6) : '0',
-        },
-        {
-          trait_type: 'Chain',
-          value: 'Eth Sepolia',
-        },
-        {
-          trait_type: 'Validator',
-          value: CONTRACTS.trustfulValidator,
-        },
-        // Add capabilities as attributes if present
-        ...(metadata?.capabilities?.map(cap => ({
-          trait_type: 'Capability',
-          value: cap,
-        })) ?? []),
-      ],
-      
-      // Trustful extension (A2A compatible)
-      extensions: {
-        trustful: {
-          version: '1.0',
-          validatorAddress: CONTRACTS.trustfulValidator,
-          chainId: CHAIN_ID,
-          collateral: collateral ? {
-            amount: formatUnits(collateral.balance, 6),
-            asset: 'USDC',
-            vaultAddress: CONTRACTS.collateralVault,
-            withdrawalPending: collateral.withdrawalInitiatedAt > 0n,
-          } : null,
-          terms: terms && terms.active ? {
-            hash: terms.contentHash,
-            uri: terms.contentUri,
-            councilId: terms.councilId,
-          } : null,
-          validation: {
-            status: trustStatus,
-            issuedAt: validation && validation.issuedAt > 0n 
-              ? new Date(Number(validation.issuedAt) * 1000).toISOString() 
-              : null,
-          },
-          verificationUrl: `${API_URL}/v1/agents/${agentId}/validation.json`,
-          // Include website if present
-          ...(metadata?.website_url ? { websiteUrl: metadata.website_url } : {}),
-        },
-      },
-    };
+  if (!/^\d+$/.test(agentId)) {
+    return res.status(400).json({
+      error: 'invalid_agent_id',
+      message: 'agentId must be a decimal token id',
+    });
+  }
 
+  try {
     res.setHeader('Content-Type', 'application/json');
     res.setHeader('Cache-Control', 'public, max-age=60');
-    res.json(agentCard);
+    res.json(await getAgentCard(agentId));
   } catch (error) {
     console.error(`Error fetching agent card for agent ${agentId}:`, error);
     res.status(500).json({
@@ -154,104 +50,70 @@ router.get('/agents/:agentId/agent-card.json', async (req: Request, res: Respons
       message: 'Failed to fetch agent card',
     });
   }
-});
+}
 
 /**
- * GET /v1/agents/:agentId/image.svg
- * Dynamic SVG badge for the agent
+ * GET /v1/agents/:agentId/agent-card.json
+ * A2A Protocol Agent Card
+ * This is what tokenURI should point to
  */
-router.get('/agents/:agentId/image.svg', async (req: Request, res: Response) => {
-  const { agentId } = req.params;
+router.get('/agents/:agentId/agent-card.json', sendAgentCard);
 
-  try {
-    const [metadata, isValidated, collateral] = await Promise.all([
-      getAgentMetadata(agentId),
-      publicClient.readContract({
-        address: CONTRACTS.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: 'isValidated',
-        args: [BigInt(agentId)],
-      }),
-      publicClient.readContract({
-        address: CONTRACTS.collateralVault,
-        abi: CollateralVaultAbi,
-        functionName: 'getAccount',
-        args: [BigInt(agentId)],
-      }).catch(() => null),
-    ]);
-
-    const agentName = metadata?.name ?? `Agent #${agentId}`;
-    // Truncate long names for SVG display
-    const displayName = agentName.length > 20 ? agentName.substring(0, 18) + '...' : agentName;
-    
-    const collateralAmount = collateral ? formatUnits(collateral.balance, 6) : '0';
-    const statusColor = isValidated ? '#22c55e' : '#ef4444';
-    const statusText = isValidated ? 'VALIDATED' : 'NOT VALIDATED';
-
-    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">
-  <defs>
-    <linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">
-      <stop offset="0%" style="stop-color:#0a0a0f"/>
-      <stop offset="100%" style="stop-color:#12121a"/>
-    </linearGradient>
-  </defs>
-  <rect width="400" height="400" fill="url(#bg)"/>
-  <rect x="20" y="20" width="360" height="360" rx="20" fill="#1a1a24" stroke="#334155" stroke-width="2"/>
-  
-  <!-- Logo -->
-  <circle cx="200" cy="100" r="40" fill="#3b82f6" opacity="0.2"/>
-  <text x="200" y="115" font-family="Arial" font-size="40" fill="#3b82f6" text-anchor="middle">🤖</text>
-  
-  <!-- Agent Name -->
-  <text x="200" y="180" font-family="Arial" font-size="24" font-weight="bold" fill="#f8fafc" text-anchor="middle">${displayName}</text>
-  
-  <!-- Status Badge -->
-  <rect x="120" y="200" width="160" height="36" rx="18" fill="${statusColor}" opacity="0.2"/>
-  <circle cx="145" cy="218" r="6" fill="${statusColor}"/>
-  <text x="200" y="224" font-family="Arial" font-size="14" font-weight="bold" fill="${statusColor}" text-anchor="middle">${statusText}</text>
-  
-  <!-- Collateral -->
-  <text x="200" y="280" font-family="Arial" font-size="14" fill="#94a3b8" text-anchor="middle">Collateral</text>
-  <text x="200" y="310" font-family="Arial" font-size="28" font-weight="bold" fill="#f8fafc" text-anchor="middle">${collateralAmount} USDC</text>
-  
-  <!-- Footer -->
-  <text x="200" y="360" font-family="Arial" font-size="12" fill="#64748b" text-anchor="middle">Trustful Agents · Eth Sepolia</text>
-</svg>`;
+/**
+ * GET /v1/agents/:agentId/.well-known/agent.json
+ * GET /v1/agents/:agentId/.well-known/agent-card.json
+ * Well-known A2A discovery paths, treating /v1/agents/:agentId as the agent's host
+ */
+router.get('/agents/:agentId/.well-known/agent.json', sendAgentCard);
+router.get('/agents/:agentId/.well-known/agent-card.json', sendAgentCard);
 
-    res.setHeader('Content-Type', 'image/svg+xml');
-    res.setHeader('Cache-Control', 'public, max-age=60');
-    res.send(svg);
-  } catch (error) {
-    console.error(`Error generating image for agent ${agentId}:`, error);
-    res.status(500).send('Error generating image');
-  }
+/**
+ * GET /v1/extensions/trustful/v1
+ * JSON Schema of the Trustful A2A extension params (the extension's URI)
+ */
+router.get('/extensions/trustful/v1', (_req: Request, res: Response) => {
+  res.setHeader('Content-Type', 'application/schema+json');
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.send(JSON.stringify(TRUSTFUL_EXTENSION_JSON_SCHEMA, null, 2));
 });
 
 /**
  * GET /v1/agents/:agentId/validation.json
- * ERC-8004 validation response
+ * ERC-8004 validation response, read at one block and signed (see services/signing.ts)
  */
 router.get('/agents/:agentId/validation.json', async (req: Request, res: Response) => {
   const { agentId } = req.params;
 
+  if (!/^\d+$/.test(agentId)) {
+    return res.status(400).json({
+      error: 'invalid_agent_id',
+      message: 'agentId must be a decimal token id',
+    });
+  }
+
   try {
+    const head = await getChainHead();
     const isValidated = await publicClient.readContract({
       address: CONTRACTS.trustfulValidator,
       abi: TrustfulValidatorAbi,
       functionName: 'isValidated',
       args: [BigInt(agentId)],
+      blockNumber: head.blockNumber,
     });
 
-    res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Cache-Control', 'public, max-age=60');
-    
-    res.json({
+    const response = await signValidationDocument('validation', {
       agentId,
       isValidated,
       validatorAddress: CONTRACTS.trustfulValidator,
       chainId: CHAIN_ID,
+      blockNumber: head.blockNumber.toString(),
+      blockHash: head.blockHash,
       timestamp: new Date().toISOString(),
-    });
+    }, isValidated);
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    res.json(response);
   } catch (error) {
     console.error(`Error fetching validation for agent ${agentId}:`, error);
     res.status(500).json({
@@ -263,38 +125,53 @@ router.get('/agents/:agentId/validation.json', async (req: Request, res: Respons
 
 /**
  * GET /v1/agents/:agentId/trust-info.json
- * Detailed trust info for A2A Agent Card extension
+ * Detailed trust info for A2A Agent Card extension, read at one block and signed
  */
 router.get('/agents/:agentId/trust-info.json', async (req: Request, res: Response) => {
   const { agentId } = req.params;
 
+  if (!/^\d+$/.test(agentId)) {
+    return res.status(400).json({
+      error: 'invalid_agent_id',
+      message: 'agentId must be a decimal token id',
+    });
+  }
+
   try {
-    // Fetch all data in parallel
-    const [isValidated, validation, collateral, termsResult] = await Promise.all([
+    const head = await getChainHead();
+    const blockNumber = head.blockNumber;
+
+    // Fetch all data in parallel, at the same block
+    const [isValidated, validation, collateral, termsResult, claims] = await Promise.all([
       publicClient.readContract({
         address: CONTRACTS.trustfulValidator,
         abi: TrustfulValidatorAbi,
         functionName: 'isValidated',
         args: [BigInt(agentId)],
+        blockNumber,
       }),
       publicClient.readContract({
         address: CONTRACTS.trustfulValidator,
         abi: TrustfulValidatorAbi,
         functionName: 'getValidationRecord',
         args: [BigInt(agentId)],
+        blockNumber,
       }).catch(() => null),
       publicClient.readContract({
         address: CONTRACTS.collateralVault,
         abi: CollateralVaultAbi,
         functionName: 'getAccount',
         args: [BigInt(agentId)],
+        blockNumber,
       }).catch(() => null),
       publicClient.readContract({
         address: CONTRACTS.termsRegistry,
         abi: TermsRegistryAbi,
         functionName: 'getActiveTerms',
         args: [BigInt(agentId)],
+        blockNumber,
       }).catch(() => null),
+      getAgentClaimSummary(BigInt(agentId), blockNumber),
     ]);
 
     // getActiveTerms returns a tuple [termsData, version] — extract the data
@@ -332,17 +209,15 @@ router.get('/agents/:agentId/trust-info.json', async (req: Request, res: Respons
           : null,
         requestHash: validation?.requestHash || null,
       },
-      claims: {
-        total: 0,
-        approved: 0,
-        pending: 0,
-      },
+      claims,
+      blockNumber: blockNumber.toString(),
+      blockHash: head.blockHash,
       timestamp: new Date().toISOString(),
     };
 
     res.setHeader('Content-Type', 'application/json');
     res.setHeader('Cache-Control', 'public, max-age=60');
-    res.json(trustInfo);
+    res.json(await signValidationDocument('trust-info', trustInfo, isValidated));
   } catch (error) {
     console.error(`Error fetching trust info for agent ${agentId}:`, error);
     res.status(500).json({
@@ -352,6 +227,84 @@ router.get('/agents/:agentId/trust-info.json', async (req: Request, res: Respons
   }
 });
 
+/**
+ * GET /v1/agents/:agentId/score.json
+ * Versioned 0-100 trust score with its component breakdown and the inputs it
+ * was computed from, read at one block and signed (see services/score.ts)
+ */
+router.get('/agents/:agentId/score.json', async (req: Request, res: Response) => {
+  const { agentId } = req.params;
+
+  if (!/^\d+$/.test(agentId)) {
+    return res.status(400).json({
+      error: 'invalid_agent_id',
+      message: 'agentId must be a decimal token id',
+    });
+  }
+
+  try {
+    const head = await getChainHead();
+    const inputs = await getTrustScoreInputs(BigInt(agentId), head.blockNumber);
+    const { version, score, components } = computeTrustScore(inputs);
+
+    const response = await signValidationDocument('score', {
+      version,
+      agentId,
+      chainId: CHAIN_ID,
+      score,
+      isValidated: inputs.isValidated,
+      components,
+      weights: TRUST_SCORE_WEIGHTS,
+      // Amounts in USDC base units, so the score can be recomputed exactly
+      inputs: {
+        validationIssuedAt: inputs.validationIssuedAt.toString(),
+        collateralBalance: inputs.collateralBalance.toString(),
+        availableCollateral: inputs.availableCollateral.toString(),
+        withdrawalAmount: inputs.withdrawalAmount.toString(),
+        maxPayoutPerClaim: inputs.maxPayoutPerClaim?.toString() ?? null,
+        claims: { ...inputs.claims, totalPaidOut: inputs.claims.totalPaidOut.toString() },
+        council: inputs.council,
+        now: inputs.now.toString(),
+      },
+      blockNumber: head.blockNumber.toString(),
+      blockHash: head.blockHash,
+      timestamp: new Date().toISOString(),
+    }, inputs.isValidated);
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'public, max-age=60');
+    res.json(response);
+  } catch (error) {
+    console.error(`Error computing trust score for agent ${agentId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to compute trust score',
+    });
+  }
+});
+
+/**
+ * GET /v1/validation-signer.json
+ * Published key and EIP-712 domain for verifying signed validation responses
+ */
+router.get('/validation-signer.json', (_req: Request, res: Response) => {
+  const signer = getValidationSigner();
+  if (!signer) {
+    return res.status(404).json({
+      error: 'not_found',
+      message: 'Validation responses are not signed by this server',
+    });
+  }
+
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.json({
+    signer,
+    domain: validationDomain,
+    types: ValidationDocumentTypes,
+    primaryType: 'ValidationDocument',
+  });
+});
+
 /**
  * GET /v1/health
  * API health check
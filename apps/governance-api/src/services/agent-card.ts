@@ -0,0 +1,314 @@
+import { formatUnits } from 'viem';
+import { z } from 'zod';
+import {
+  API_URL,
+  CHAIN_ID,
+  CONTRACTS,
+  DASHBOARD_URLS,
+  USDC_DECIMALS,
+  TrustfulValidatorAbi,
+  CollateralVaultAbi,
+  TermsRegistryAbi,
+  chain,
+  publicClient,
+} from '../config/index.js';
+import { getAgentMetadata, type AgentMetadata, type AgentSkill } from './agents.js';
+import { getAgentClaimSummary } from './blockchain.js';
+
+// ============================================================================
+// A2A Agent Card
+// ============================================================================
+// Spec-conformant A2A Agent Card (protocol 0.3) built from the agents table,
+// with the agent's trust state attached as the Trustful extension in
+// capabilities.extensions. Served at /v1/agents/:agentId/agent-card.json (what
+// tokenURI points to) and at /v1/agents/:agentId/.well-known/agent.json, so
+// A2A clients can resolve ${API_URL}/v1/agents/:agentId like any agent host.
+
+export const A2A_PROTOCOL_VERSION = '0.3.0';
+
+// Bump the major version (and the URI) for breaking changes to the params
+export const TRUSTFUL_EXTENSION_VERSION = '1.0';
+export const TRUSTFUL_EXTENSION_URI = `${API_URL}/v1/extensions/trustful/v1`;
+
+const DEFAULT_MODES = ['text/plain'];
+
+// ============================================================================
+// Trustful Extension Schema
+// ============================================================================
+
+const usdcAmount = z.string().regex(/^\d+(\.\d+)?$/);
+const bytes32 = z.string().regex(/^0x[a-fA-F0-9]{64}$/);
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+
+export const TrustfulExtensionSchema = z.object({
+  version: z.literal(TRUSTFUL_EXTENSION_VERSION),
+  chainId: z.number().int().positive(),
+  chainName: z.string().min(1),
+  validatorAddress: address,
+  collateral: z.object({
+    amount: usdcAmount,
+    asset: z.literal('USDC'),
+    vaultAddress: address,
+    withdrawalPending: z.boolean(),
+  }).nullable(),
+  terms: z.object({
+    hash: bytes32,
+    uri: z.string(),
+    councilId: bytes32,
+  }).nullable(),
+  validation: z.object({
+    status: z.enum(['valid', 'invalid', 'revoked']),
+    issuedAt: z.string().datetime().nullable(),
+  }),
+  claims: z.object({
+    total: z.number().int().nonnegative(),
+    approved: z.number().int().nonnegative(),
+    rejected: z.number().int().nonnegative(),
+    pending: z.number().int().nonnegative(),
+    expired: z.number().int().nonnegative(),
+    totalPaidOut: usdcAmount,
+    lockedCollateral: usdcAmount,
+    availableCollateral: usdcAmount,
+    lockedRatio: z.number().min(0).max(1),
+  }).nullable(),
+  verificationUrl: z.string().url(),
+  trustInfoUrl: z.string().url(),
+  scoreUrl: z.string().url(),
+});
+
+export type TrustfulExtension = z.infer<typeof TrustfulExtensionSchema>;
+
+// JSON Schema for the extension params, served at TRUSTFUL_EXTENSION_URI.
+// Must describe the same shape as TrustfulExtensionSchema above.
+const usdcAmountJson = { type: 'string', pattern: '^\\d+(\\.\\d+)?$', description: 'Decimal USDC amount' };
+const bytes32Json = { type: 'string', pattern: '^0x[a-fA-F0-9]{64}$' };
+const addressJson = { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' };
+const countJson = { type: 'integer', minimum: 0 };
+
+export const TRUSTFUL_EXTENSION_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: TRUSTFUL_EXTENSION_URI,
+  title: 'Trustful Agents A2A extension',
+  description: 'On-chain collateral, terms, validation and claim record of an ERC-8004 agent',
+  type: 'object',
+  required: [
+    'version', 'chainId', 'chainName', 'validatorAddress', 'collateral', 'terms',
+    'validation', 'claims', 'verificationUrl', 'trustInfoUrl', 'scoreUrl',
+  ],
+  properties: {
+    version: { const: TRUSTFUL_EXTENSION_VERSION },
+    chainId: { type: 'integer', minimum: 1 },
+    chainName: { type: 'string' },
+    validatorAddress: addressJson,
+    collateral: {
+      type: ['object', 'null'],
+      required: ['amount', 'asset', 'vaultAddress', 'withdrawalPending'],
+      properties: {
+        amount: usdcAmountJson,
+        asset: { const: 'USDC' },
+        vaultAddress: addressJson,
+        withdrawalPending: { type: 'boolean' },
+      },
+    },
+    terms: {
+      type: ['object', 'null'],
+      required: ['hash', 'uri', 'councilId'],
+      properties: { hash: bytes32Json, uri: { type: 'string' }, councilId: bytes32Json },
+    },
+    validation: {
+      type: 'object',
+      required: ['status', 'issuedAt'],
+      properties: {
+        status: { enum: ['valid', 'invalid', 'revoked'] },
+        issuedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    },
+    claims: {
+      type: ['object', 'null'],
+      required: [
+        'total', 'approved', 'rejected', 'pending', 'expired',
+        'totalPaidOut', 'lockedCollateral', 'availableCollateral', 'lockedRatio',
+      ],
+      properties: {
+        total: countJson,
+        approved: countJson,
+        rejected: countJson,
+        pending: countJson,
+        expired: countJson,
+        totalPaidOut: usdcAmountJson,
+        lockedCollateral: usdcAmountJson,
+        availableCollateral: usdcAmountJson,
+        lockedRatio: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    verificationUrl: { type: 'string', format: 'uri' },
+    trustInfoUrl: { type: 'string', format: 'uri' },
+    scoreUrl: { type: 'string', format: 'uri' },
+  },
+} as const;
+
+// ============================================================================
+// Card
+// ============================================================================
+
+export interface AgentCard {
+  protocolVersion: string;
+  name: string;
+  description: string;
+  url: string;
+  preferredTransport: 'JSONRPC';
+  version: string;
+  iconUrl: string;
+  documentationUrl?: string;
+  provider?: { organization: string; url: string };
+  capabilities: {
+    streaming: boolean;
+    pushNotifications: boolean;
+    extensions: {
+      uri: string;
+      description: string;
+      required: boolean;
+      params: TrustfulExtension;
+    }[];
+  };
+  securitySchemes?: Record<string, Record<string, unknown>>;
+  security?: Record<string, string[]>[];
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  skills: AgentSkill[];
+}
+
+/**
+ * Skills declared by the provider, or one skill per capability tag for
+ * agents registered before skills could be set
+ */
+function toSkills(metadata: AgentMetadata | null): AgentSkill[] {
+  if (metadata?.skills?.length) return metadata.skills;
+  return (metadata?.capabilities ?? []).map((capability) => ({
+    id: capability.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    name: capability,
+    description: capability,
+    tags: [capability],
+  }));
+}
+
+/**
+ * Trust state of an agent in the Trustful extension shape
+ * @throws If the result does not match TrustfulExtensionSchema
+ */
+async function getTrustfulExtension(agentId: string): Promise<TrustfulExtension> {
+  const [isValidated, validation, collateral, termsResult, claims] = await Promise.all([
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'isValidated',
+      args: [BigInt(agentId)],
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'getValidationRecord',
+      args: [BigInt(agentId)],
+    }).catch(() => null),
+    publicClient.readContract({
+      address: CONTRACTS.collateralVault,
+      abi: CollateralVaultAbi,
+      functionName: 'getAccount',
+      args: [BigInt(agentId)],
+    }).catch(() => null),
+    publicClient.readContract({
+      address: CONTRACTS.termsRegistry,
+      abi: TermsRegistryAbi,
+      functionName: 'getActiveTerms',
+      args: [BigInt(agentId)],
+    }).catch(() => null),
+    getAgentClaimSummary(BigInt(agentId)).catch(() => null),
+  ]);
+
+  // getActiveTerms returns a tuple [termsData, version] — extract the data
+  const terms = termsResult ? termsResult[0] : null;
+
+  let status: 'valid' | 'invalid' | 'revoked' = 'invalid';
+  if (isValidated) {
+    status = 'valid';
+  } else if (validation && validation.revokedAt > 0n) {
+    status = 'revoked';
+  }
+
+  return TrustfulExtensionSchema.parse({
+    version: TRUSTFUL_EXTENSION_VERSION,
+    chainId: CHAIN_ID,
+    chainName: chain.name,
+    validatorAddress: CONTRACTS.trustfulValidator,
+    collateral: collateral ? {
+      amount: formatUnits(collateral.balance, USDC_DECIMALS),
+      asset: 'USDC',
+      vaultAddress: CONTRACTS.collateralVault,
+      withdrawalPending: collateral.withdrawalInitiatedAt > 0n,
+    } : null,
+    terms: terms && terms.active ? {
+      hash: terms.contentHash,
+      uri: terms.contentUri,
+      councilId: terms.councilId,
+    } : null,
+    validation: {
+      status,
+      issuedAt: validation && validation.issuedAt > 0n
+        ? new Date(Number(validation.issuedAt) * 1000).toISOString()
+        : null,
+    },
+    claims,
+    verificationUrl: `${API_URL}/v1/agents/${agentId}/validation.json`,
+    trustInfoUrl: `${API_URL}/v1/agents/${agentId}/trust-info.json`,
+    scoreUrl: `${API_URL}/v1/agents/${agentId}/score.json`,
+  });
+}
+
+/**
+ * Build the A2A Agent Card for an agent
+ */
+export async function getAgentCard(agentId: string): Promise<AgentCard> {
+  const [metadata, trustful] = await Promise.all([
+    getAgentMetadata(agentId),
+    getTrustfulExtension(agentId),
+  ]);
+
+  const securitySchemes = metadata?.security_schemes ?? undefined;
+
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: metadata?.name ?? `Trustful Agent #${agentId}`,
+    description: metadata?.description ??
+      `AI Agent registered on Trustful Agents protocol with ${trustful.collateral?.amount ?? '0'} USDC collateral`,
+    // Agents without a declared endpoint point at their dashboard page
+    url: metadata?.endpoint_url ?? metadata?.website_url ?? `${DASHBOARD_URLS.provider}/agents/${agentId}`,
+    preferredTransport: 'JSONRPC',
+    version: metadata?.version ?? '1.0.0',
+    iconUrl: `${API_URL}/v1/agents/${agentId}/image.svg`,
+    ...(metadata?.documentation_url && { documentationUrl: metadata.documentation_url }),
+    ...(metadata?.provider_organization && (metadata.provider_url ?? metadata.website_url) && {
+      provider: {
+        organization: metadata.provider_organization,
+        url: (metadata.provider_url ?? metadata.website_url)!,
+      },
+    }),
+    capabilities: {
+      streaming: false,
+      pushNotifications: false,
+      extensions: [{
+        uri: TRUSTFUL_EXTENSION_URI,
+        description: 'Collateral, terms, validation and claim record on Trustful Agents',
+        required: false,
+        params: trustful,
+      }],
+    },
+    // Any one of the declared schemes is accepted
+    ...(securitySchemes && Object.keys(securitySchemes).length > 0 && {
+      securitySchemes,
+      security: Object.keys(securitySchemes).map((name) => ({ [name]: [] })),
+    }),
+    defaultInputModes: metadata?.input_modes?.length ? metadata.input_modes : DEFAULT_MODES,
+    defaultOutputModes: metadata?.output_modes?.length ? metadata.output_modes : DEFAULT_MODES,
+    skills: toSkills(metadata),
+  };
+}
@@ -11,11 +11,44 @@ export interface AgentMetadata {
   description: string | null;
   capabilities: string[] | null;
   website_url: string | null;
+  endpoint_url: string | null;
+  version: string | null;
+  documentation_url: string | null;
+  provider_organization: string | null;
+  provider_url: string | null;
+  skills: AgentSkill[] | null;
+  security_schemes: Record<string, Record<string, unknown>> | null;
+  input_modes: string[] | null;
+  output_modes: string[] | null;
   created_at: Date;
   updated_at: Date;
 }
 
-export interface CreateAgentInput {
+// A2A AgentSkill, as published in the agent card
+export interface AgentSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  examples?: string[];
+  inputModes?: string[];
+  outputModes?: string[];
+}
+
+// Agent card fields a provider can set in addition to name, description, etc.
+export interface AgentCardInput {
+  endpointUrl?: string;
+  version?: string;
+  documentationUrl?: string;
+  providerOrganization?: string;
+  providerUrl?: string;
+  skills?: AgentSkill[];
+  securitySchemes?: Record<string, Record<string, unknown>>;
+  inputModes?: string[];
+  outputModes?: string[];
+}
+
+export interface CreateAgentInput extends AgentCardInput {
   agentId: string;
   ownerAddress: string;
   name: string;
@@ -24,7 +57,11 @@ export interface CreateAgentInput {
   websiteUrl?: string;
 }
 
-export interface UpdateAgentInput {
+export interface AgentMetadataMatch extends AgentMetadata {
+  rank: number; // ts_rank against the search text, 0 without one
+}
+
+export interface UpdateAgentInput extends AgentCardInput {
   name?: string;
   description?: string;
   capabilities?: string[];
@@ -35,12 +72,34 @@ export interface UpdateAgentInput {
 // Database Operations
 // ============================================================================
 
+const AGENT_COLUMNS = `agent_id, owner_address, name, description, capabilities, website_url,
+  endpoint_url, version, documentation_url, provider_organization, provider_url,
+  skills, security_schemes, input_modes, output_modes, created_at, updated_at`;
+
+// Agent card input fields and their columns; JSONB columns take serialized JSON
+const CARD_COLUMNS: [keyof AgentCardInput, string][] = [
+  ['endpointUrl', 'endpoint_url'],
+  ['version', 'version'],
+  ['documentationUrl', 'documentation_url'],
+  ['providerOrganization', 'provider_organization'],
+  ['providerUrl', 'provider_url'],
+  ['skills', 'skills'],
+  ['securitySchemes', 'security_schemes'],
+  ['inputModes', 'input_modes'],
+  ['outputModes', 'output_modes'],
+];
+
+function cardValue(key: keyof AgentCardInput, value: AgentCardInput[keyof AgentCardInput]): unknown {
+  if (value === undefined || value === '') return null;
+  return key === 'skills' || key === 'securitySchemes' ? JSON.stringify(value) : value;
+}
+
 /**
  * Get agent metadata by ID
  */
 export async function getAgentMetadata(agentId: string): Promise<AgentMetadata | null> {
   return queryOne<AgentMetadata>(
-    `SELECT agent_id, owner_address, name, description, capabilities, website_url, created_at, updated_at
+    `SELECT ${AGENT_COLUMNS}
      FROM agents
      WHERE agent_id = $1`,
     [agentId]
@@ -52,7 +111,7 @@ export async function getAgentMetadata(agentId: string): Promise<AgentMetadata |
  */
 export async function getAgentsByOwner(ownerAddress: string): Promise<AgentMetadata[]> {
   return queryMany<AgentMetadata>(
-    `SELECT agent_id, owner_address, name, description, capabilities, website_url, created_at, updated_at
+    `SELECT ${AGENT_COLUMNS}
      FROM agents
      WHERE LOWER(owner_address) = LOWER($1)
      ORDER BY created_at DESC`,
@@ -65,9 +124,10 @@ export async function getAgentsByOwner(ownerAddress: string): Promise<AgentMetad
  */
 export async function createAgentMetadata(input: CreateAgentInput): Promise<AgentMetadata> {
   const result = await queryOne<AgentMetadata>(
-    `INSERT INTO agents (agent_id, owner_address, name, description, capabilities, website_url)
-     VALUES ($1, $2, $3, $4, $5, $6)
-     RETURNING agent_id, owner_address, name, description, capabilities, website_url, created_at, updated_at`,
+    `INSERT INTO agents (agent_id, owner_address, name, description, capabilities, website_url,
+       ${CARD_COLUMNS.map(([, column]) => column).join(', ')})
+     VALUES ($1, $2, $3, $4, $5, $6, ${CARD_COLUMNS.map((_, i) => `$${i + 7}`).join(', ')})
+     RETURNING ${AGENT_COLUMNS}`,
     [
       input.agentId,
       input.ownerAddress.toLowerCase(),
@@ -75,6 +135,7 @@ export async function createAgentMetadata(input: CreateAgentInput): Promise<Agen
       input.description || null,
       input.capabilities || null,
       input.websiteUrl || null,
+      ...CARD_COLUMNS.map(([key]) => cardValue(key, input[key])),
     ]
   );
   
@@ -114,6 +175,12 @@ export async function updateAgentMetadata(
     updates.push(`website_url = $${paramIndex++}`);
     values.push(input.websiteUrl || null);
   }
+  for (const [key, column] of CARD_COLUMNS) {
+    if (input[key] !== undefined) {
+      updates.push(`${column} = $${paramIndex++}`);
+      values.push(cardValue(key, input[key]));
+    }
+  }
 
   if (updates.length === 0) {
     return getAgentMetadata(agentId);
@@ -126,7 +193,7 @@ export async function updateAgentMetadata(
     `UPDATE agents
      SET ${updates.join(', ')}
      WHERE agent_id = $${paramIndex++} AND LOWER(owner_address) = LOWER($${paramIndex})
-     RETURNING agent_id, owner_address, name, description, capabilities, website_url, created_at, updated_at`,
+     RETURNING ${AGENT_COLUMNS}`,
     values
   );
 }
@@ -158,8 +225,46 @@ export async function agentMetadataExists(agentId: string): Promise<boolean> {
  */
 export async function getAllAgents(): Promise<AgentMetadata[]> {
   return queryMany<AgentMetadata>(
-    `SELECT agent_id, owner_address, name, description, capabilities, website_url, created_at, updated_at
+    `SELECT ${AGENT_COLUMNS}
      FROM agents
      ORDER BY agent_id ASC`
   );
 }
+
+/**
+ * Agents matching a full-text search over name and description and/or having
+ * every given capability, best match first
+ */
+export async function searchAgentMetadata(params: {
+  text?: string;
+  capabilities?: string[];
+  limit: number;
+}): Promise<AgentMetadataMatch[]> {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  let rank = '0::real';
+
+  if (params.text) {
+    values.push(params.text);
+    const tsquery = `websearch_to_tsquery('english', $${values.length})`;
+    const document = `to_tsvector('english', name || ' ' || COALESCE(description, ''))`;
+    // Substring matches on the name catch partial words the tsquery would miss
+    values.push(`%${params.text.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`(${document} @@ ${tsquery} OR name ILIKE $${values.length})`);
+    rank = `ts_rank(${document}, ${tsquery})`;
+  }
+  if (params.capabilities?.length) {
+    values.push(params.capabilities);
+    conditions.push(`capabilities @> $${values.length}::text[]`);
+  }
+
+  values.push(params.limit);
+  return queryMany<AgentMetadataMatch>(
+    `SELECT ${AGENT_COLUMNS}, ${rank} AS rank
+     FROM agents
+     ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY rank DESC, agent_id ASC
+     LIMIT $${values.length}`,
+    values
+  );
+}
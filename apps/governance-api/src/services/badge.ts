@@ -0,0 +1,256 @@
+import { createHash } from 'crypto';
+import { Resvg } from '@resvg/resvg-js';
+import { formatUnits } from 'viem';
+import {
+  API_URL,
+  CONTRACTS,
+  USDC_DECIMALS,
+  TrustfulValidatorAbi,
+  CollateralVaultAbi,
+  chain,
+  publicClient,
+} from '../config/index.js';
+import { getAgentMetadata } from './agents.js';
+
+// ============================================================================
+// Trust Badges
+// ============================================================================
+// Live "Trustful: validated, $X collateral" badges for providers' docs and
+// READMEs, as SVG or PNG. Two styles (a shields.io-style compact badge and the
+// full card used as the agent's NFT image), dark and light themes and three
+// sizes. All user content (the agent name) is XML-escaped before rendering.
+
+export type BadgeStyle = 'compact' | 'card';
+export type BadgeTheme = 'dark' | 'light';
+export type BadgeSize = 'sm' | 'md' | 'lg';
+
+export interface BadgeOptions {
+  style: BadgeStyle;
+  theme: BadgeTheme;
+  size: BadgeSize;
+}
+
+export interface BadgeData {
+  agentId: string;
+  name: string;
+  status: 'valid' | 'invalid' | 'revoked';
+  collateral: string; // decimal USDC
+  chainName: string;
+}
+
+const SCALE: Record<BadgeSize, number> = { sm: 0.75, md: 1, lg: 1.5 };
+
+const THEMES: Record<BadgeTheme, {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+  label: string;
+}> = {
+  dark: { background: '#0a0a0f', surface: '#1a1a24', border: '#334155', text: '#f8fafc', muted: '#94a3b8', label: '#555' },
+  light: { background: '#f8fafc', surface: '#ffffff', border: '#cbd5e1', text: '#0f172a', muted: '#475569', label: '#e2e8f0' },
+};
+
+const STATUS: Record<BadgeData['status'], { color: string; text: string }> = {
+  valid: { color: '#22c55e', text: 'validated' },
+  invalid: { color: '#ef4444', text: 'not validated' },
+  revoked: { color: '#f59e0b', text: 'revoked' },
+};
+
+// Part of every ETag; bump when the templates below change
+const BADGE_TEMPLATE_VERSION = 1;
+
+// Shield outline, in a 24x24 box
+const SHIELD_PATH = 'M12 2 4 5v6c0 5 3.4 9.7 8 11 4.6-1.3 8-6 8-11V5l-8-3z';
+
+/**
+ * Escape text for use in SVG/HTML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 1234567.5 -> "1.2M", 12345 -> "12.3K"
+ */
+function formatAmount(amount: string): string {
+  const value = Number(amount);
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1).replace(/\.0$/, '')}K`;
+  return value.toFixed(2).replace(/\.00$/, '');
+}
+
+/**
+ * Approximate width of 11px Verdana text, as shields.io badges use
+ */
+function textWidth(text: string): number {
+  return Math.ceil([...text].reduce((w, c) => w + (/[A-Z0-9$]/.test(c) ? 7.5 : /[ .,·]/.test(c) ? 3.5 : 6.5), 0));
+}
+
+/**
+ * Name shortened to fit the card, counting code points rather than UTF-16 units
+ */
+function truncate(text: string, max: number): string {
+  const chars = [...text];
+  return chars.length > max ? `${chars.slice(0, max - 2).join('')}…` : text;
+}
+
+/**
+ * Current badge state of an agent
+ */
+export async function getBadgeData(agentId: string): Promise<BadgeData> {
+  const [metadata, isValidated, validation, collateral] = await Promise.all([
+    getAgentMetadata(agentId),
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'isValidated',
+      args: [BigInt(agentId)],
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'getValidationRecord',
+      args: [BigInt(agentId)],
+    }).catch(() => null),
+    publicClient.readContract({
+      address: CONTRACTS.collateralVault,
+      abi: CollateralVaultAbi,
+      functionName: 'getAccount',
+      args: [BigInt(agentId)],
+    }).catch(() => null),
+  ]);
+
+  let status: BadgeData['status'] = 'invalid';
+  if (isValidated) {
+    status = 'valid';
+  } else if (validation && validation.revokedAt > 0n) {
+    status = 'revoked';
+  }
+
+  return {
+    agentId,
+    name: metadata?.name ?? `Agent #${agentId}`,
+    status,
+    collateral: collateral ? formatUnits(collateral.balance, USDC_DECIMALS) : '0',
+    chainName: chain.name,
+  };
+}
+
+/**
+ * Strong ETag for a badge: changes exactly when the rendered output would
+ */
+export function badgeETag(data: BadgeData, options: BadgeOptions, format: 'svg' | 'png'): string {
+  const hash = createHash('sha256').update(JSON.stringify({ v: BADGE_TEMPLATE_VERSION, data, options, format })).digest('hex');
+  return `"${hash.slice(0, 32)}"`;
+}
+
+function renderCompact(data: BadgeData, theme: BadgeTheme, scale: number): string {
+  const status = STATUS[data.status];
+  const label = 'trustful';
+  const message = data.status === 'valid'
+    ? `${status.text} · $${formatAmount(data.collateral)} collateral`
+    : status.text;
+  const labelWidth = textWidth(label) + 30; // shield icon and padding
+  const messageWidth = textWidth(message) + 14;
+  const width = labelWidth + messageWidth;
+  const labelText = theme === 'dark' ? '#fff' : '#0f172a';
+  const title = `Trustful: ${message} (agent ${data.agentId} on ${data.chainName})`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(20 * scale)}" viewBox="0 0 ${width} 20" role="img" aria-label="${escapeXml(title)}">
+  <title>${escapeXml(title)}</title>
+  <linearGradient id="s" x2="0" y2="100%">
+    <stop offset="0" stop-color="#bbb" stop-opacity=".1"/>
+    <stop offset="1" stop-opacity=".1"/>
+  </linearGradient>
+  <clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${labelWidth}" height="20" fill="${THEMES[theme].label}"/>
+    <rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${status.color}"/>
+    <rect width="${width}" height="20" fill="url(#s)"/>
+  </g>
+  <path d="${SHIELD_PATH}" transform="translate(5 3) scale(0.58)" fill="${status.color}"/>
+  <g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+    <text x="${(labelWidth + 16) / 2}" y="14" fill="${labelText}">${label}</text>
+    <text x="${labelWidth + messageWidth / 2}" y="14">${escapeXml(message)}</text>
+  </g>
+</svg>`;
+}
+
+function renderCard(data: BadgeData, theme: BadgeTheme, scale: number): string {
+  const colors = THEMES[theme];
+  const status = STATUS[data.status];
+  const name = truncate(data.name, 22);
+  const size = Math.round(400 * scale);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 400 400" role="img" aria-label="${escapeXml(`${data.name}: ${status.text}`)}">
+  <title>${escapeXml(`${data.name} · Trustful Agents`)}</title>
+  <rect width="400" height="400" fill="${colors.background}"/>
+  <rect x="20" y="20" width="360" height="360" rx="20" fill="${colors.surface}" stroke="${colors.border}" stroke-width="2"/>
+
+  <!-- Logo -->
+  <circle cx="200" cy="100" r="40" fill="#3b82f6" opacity="0.2"/>
+  <path d="${SHIELD_PATH}" transform="translate(176 76) scale(2)" fill="#3b82f6"/>
+
+  <!-- Agent Name -->
+  <text x="200" y="180" font-family="Arial,Helvetica,sans-serif" font-size="24" font-weight="bold" fill="${colors.text}" text-anchor="middle">${escapeXml(name)}</text>
+
+  <!-- Status Badge -->
+  <rect x="110" y="200" width="180" height="36" rx="18" fill="${status.color}" opacity="0.2"/>
+  <circle cx="135" cy="218" r="6" fill="${status.color}"/>
+  <text x="205" y="224" font-family="Arial,Helvetica,sans-serif" font-size="14" font-weight="bold" fill="${status.color}" text-anchor="middle">${status.text.toUpperCase()}</text>
+
+  <!-- Collateral -->
+  <text x="200" y="280" font-family="Arial,Helvetica,sans-serif" font-size="14" fill="${colors.muted}" text-anchor="middle">Collateral</text>
+  <text x="200" y="310" font-family="Arial,Helvetica,sans-serif" font-size="28" font-weight="bold" fill="${colors.text}" text-anchor="middle">${escapeXml(data.collateral)} USDC</text>
+
+  <!-- Footer -->
+  <text x="200" y="360" font-family="Arial,Helvetica,sans-serif" font-size="12" fill="${colors.muted}" text-anchor="middle">Trustful Agents · ${escapeXml(data.chainName)}</text>
+</svg>`;
+}
+
+/**
+ * Render a badge as SVG
+ */
+export function renderBadgeSvg(data: BadgeData, options: BadgeOptions): string {
+  const scale = SCALE[options.size];
+  return options.style === 'compact'
+    ? renderCompact(data, options.theme, scale)
+    : renderCard(data, options.theme, scale);
+}
+
+/**
+ * Rasterize a badge SVG. Uses the system fonts; badge text falls back to
+ * any sans-serif font installed on the host.
+ */
+export function renderBadgePng(svg: string): Buffer {
+  const resvg = new Resvg(svg, {
+    font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' },
+  });
+  return resvg.render().asPng();
+}
+
+/**
+ * Embed snippets that link the badge to the agent's signed trust info
+ */
+export function getBadgeEmbed(agentId: string, options: BadgeOptions) {
+  const query = new URLSearchParams({ style: options.style, theme: options.theme, size: options.size }).toString();
+  const svgUrl = `${API_URL}/v1/agents/${agentId}/badge.svg?${query}`;
+  const pngUrl = `${API_URL}/v1/agents/${agentId}/badge.png?${query}`;
+  const linkUrl = `${API_URL}/v1/agents/${agentId}/trust-info.json`;
+  const alt = `Trustful Agents trust badge for agent #${agentId}`;
+
+  return {
+    svgUrl,
+    pngUrl,
+    linkUrl,
+    html: `<a href="${escapeXml(linkUrl)}"><img src="${escapeXml(svgUrl)}" alt="${escapeXml(alt)}"></a>`,
+    markdown: `[![${alt.replace(/[[\]\\]/g, '\\$&')}](${svgUrl})](${linkUrl})`,
+  };
+}
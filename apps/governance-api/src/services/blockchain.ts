@@ -1,9 +1,14 @@
-import { type Address, type Hex } from 'viem';
+import { formatUnits, type Address, type ContractFunctionReturnType, type Hex } from 'viem';
 import {
   CHAIN_ID,
   RPC_URL,
   COUNCIL_REGISTRY_ADDRESS,
+  CLAIMS_MANAGER_ADDRESS,
+  COLLATERAL_VAULT_ADDRESS,
+  ClaimsManagerAbi,
+  CollateralVaultAbi,
   CouncilRegistryAbi,
+  USDC_DECIMALS,
   publicClient,
 } from '../config/index.js';
 
@@ -14,27 +19,25 @@ export { publicClient };
 // Types
 // ============================================================================
 
-export interface OnChainCouncil {
-  councilId: Hex;
-  name: string;
-  description: string;
-  vertical: string;
-  memberCount: bigint;
-  quorumPercentage: bigint;
-  claimDepositPercentage: bigint;
-  votingPeriod: bigint;
-  evidencePeriod: bigint;
-  active: boolean;
-  createdAt: bigint;
-  closedAt: bigint;
-}
+// Derived from the generated ABIs so a contract change that is not reflected
+// in config/abis/*.json (or vice versa) fails the build instead of at runtime.
+
+export type OnChainCouncil = ContractFunctionReturnType<typeof CouncilRegistryAbi, 'view', 'getCouncil'>;
+
+export type OnChainMember = ContractFunctionReturnType<typeof CouncilRegistryAbi, 'view', 'getMember'>;
 
-export interface OnChainMember {
-  member: Address;
-  councilId: Hex;
-  joinedAt: bigint;
-  claimsVoted: bigint;
-  active: boolean;
+// Claim record and collateral exposure, as published in trust-info.json and
+// the agent card's trustful extension. Amounts are decimal USDC strings.
+export interface AgentClaimSummary {
+  total: number;
+  approved: number;
+  rejected: number;
+  pending: number;
+  expired: number;
+  totalPaidOut: string;
+  lockedCollateral: string;
+  availableCollateral: string;
+  lockedRatio: number; // lockedCollateral / collateral balance, 0 when there is none
 }
 
 // ============================================================================
@@ -53,7 +56,7 @@ export async function getActiveCouncilIds(): Promise<Hex[]> {
       abi: CouncilRegistryAbi,
       functionName: 'getActiveCouncils',
     });
-    return councilIds as Hex[];
+    return [...councilIds];
   } catch (error) {
     console.error('Failed to fetch active councils:', error);
     return [];
@@ -73,7 +76,7 @@ export async function getCouncil(councilId: Hex): Promise<OnChainCouncil | null>
       functionName: 'getCouncil',
       args: [councilId],
     });
-    return council as OnChainCouncil;
+    return council;
   } catch (error) {
     console.error('Failed to fetch council:', error);
     return null;
@@ -107,7 +110,7 @@ export async function getCouncilMembers(councilId: Hex): Promise<Address[]> {
       functionName: 'getCouncilMembers',
       args: [councilId],
     });
-    return members as Address[];
+    return [...members];
   } catch (error) {
     console.error('Failed to fetch council members:', error);
     return [];
@@ -127,7 +130,7 @@ export async function getMember(councilId: Hex, memberAddress: Address): Promise
       functionName: 'getMember',
       args: [councilId, memberAddress],
     });
-    return member as OnChainMember;
+    return member;
   } catch (error) {
     console.error('Failed to fetch member:', error);
     return null;
@@ -172,6 +175,54 @@ export async function canCloseCouncil(councilId: Hex): Promise<{ canClose: boole
   }
 }
 
+// ============================================================================
+// Agent Functions
+// ============================================================================
+
+/**
+ * Claim stats and locked/available collateral for an agent, read at one block
+ */
+export async function getAgentClaimSummary(agentId: bigint, blockNumber?: bigint): Promise<AgentClaimSummary> {
+  const [stats, account, available] = await Promise.all([
+    publicClient.readContract({
+      address: CLAIMS_MANAGER_ADDRESS as Address,
+      abi: ClaimsManagerAbi,
+      functionName: 'getClaimStats',
+      args: [agentId],
+      blockNumber,
+    }),
+    publicClient.readContract({
+      address: COLLATERAL_VAULT_ADDRESS as Address,
+      abi: CollateralVaultAbi,
+      functionName: 'getAccount',
+      args: [agentId],
+      blockNumber,
+    }),
+    publicClient.readContract({
+      address: COLLATERAL_VAULT_ADDRESS as Address,
+      abi: CollateralVaultAbi,
+      functionName: 'getAvailableBalance',
+      args: [agentId],
+      blockNumber,
+    }),
+  ]);
+
+  // Basis points keep the ratio exact in bigint before converting
+  const lockedBps = account.balance > 0n ? (account.lockedAmount * 10_000n) / account.balance : 0n;
+
+  return {
+    total: Number(stats.totalClaims),
+    approved: Number(stats.approvedClaims),
+    rejected: Number(stats.rejectedClaims),
+    pending: Number(stats.pendingClaims),
+    expired: Number(stats.expiredClaims),
+    totalPaidOut: formatUnits(stats.totalPaidOut, USDC_DECIMALS),
+    lockedCollateral: formatUnits(account.lockedAmount, USDC_DECIMALS),
+    availableCollateral: formatUnits(available, USDC_DECIMALS),
+    lockedRatio: Number(lockedBps) / 10_000,
+  };
+}
+
 // ============================================================================
 // Event Fetching (for historical data)
 // ============================================================================
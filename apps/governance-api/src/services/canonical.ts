@@ -0,0 +1,28 @@
+// Canonical JSON shared by signed validation responses and T&C document
+// hashes. Must stay identical to packages/sdk/src/utils/canonical.ts.
+
+/**
+ * Canonical JSON (RFC 8785 / JCS): sorted keys, no whitespace
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(Object.is(value, -0) ? 0 : value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
@@ -0,0 +1,363 @@
+import type pg from 'pg';
+import { keccak256, type Address, type Hex } from 'viem';
+import {
+  CLAIMS_MANAGER_ADDRESS,
+  COUNCIL_REGISTRY_ADDRESS,
+  ClaimsManagerAbi,
+  CouncilRegistryAbi,
+  publicClient,
+} from '../config/index.js';
+import { query, queryMany, queryOne } from '../db/index.js';
+import {
+  MAX_CLOCK_SKEW_SECONDS,
+  MAX_SIGNATURE_AGE_SECONDS,
+  claimMessageDomain,
+  type ClaimMessageRole,
+} from './claim-messages.js';
+
+// ============================================================================
+// Claim Encryption
+// ============================================================================
+// Claim messages and their evidence can be encrypted end-to-end by the
+// dashboards; the API only ever sees ciphertext. The scheme (WebCrypto):
+//
+// - Every participant registers a P-256 ECDH public key, signed with their
+//   wallet (EncryptionKey). The private key is stored alongside, encrypted
+//   under an AES key derived from the owner's signature of a fixed message, so
+//   the owner can unlock it from any browser.
+// - Each encrypted message gets a random AES-256-GCM content key. The content
+//   is stored as "enc:v1:" + base64(iv || ciphertext), evidence files as
+//   "TFENC1" || iv || ciphertext (ENCRYPTED_EVIDENCE_MIMETYPE).
+// - The content key is wrapped for each recipient (claimant, provider and the
+//   council's active members) with ECDH against a fresh ephemeral key.
+//
+// When the council changes, or a participant registers (or replaces) a key,
+// each message's author re-wraps its content key for the recipients still
+// missing one; wraps for removed members are deleted. Nothing proves a wrap
+// decrypts, so only the author (or, for their own wrap, the recipient) may
+// store one: another participant could otherwise lock a recipient out.
+
+export const EncryptionKeyTypes = {
+  EncryptionKey: [
+    { name: 'owner', type: 'address' },
+    { name: 'publicKey', type: 'bytes' },
+    { name: 'backupHash', type: 'bytes32' }, // keccak256 of the encrypted private key
+    { name: 'timestamp', type: 'uint256' },
+  ],
+} as const;
+
+export const ENCRYPTED_CONTENT_PATTERN = /^enc:v1:[A-Za-z0-9+/]+={0,2}$/;
+const PUBLIC_KEY_PATTERN = /^0x04[a-fA-F0-9]{128}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Wraps accepted in one request
+export const MAX_WRAPS_PER_REQUEST = 500;
+
+export interface EncryptionKeyRow {
+  address: string;
+  public_key: Hex;
+  key_id: Hex;
+  encrypted_private_key: string;
+  signature: string;
+  signed_timestamp: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EncryptionKeyRegistration {
+  owner: Address;
+  publicKey: Hex;
+  encryptedPrivateKey: string;
+  timestamp: number; // unix seconds
+  signature: Hex;
+}
+
+// A message's content key, wrapped for one recipient
+export interface WrappedKey {
+  recipient: string;
+  keyId: string;
+  ephemeralPublicKey: string;
+  wrappedKey: string;
+}
+
+export interface ClaimRecipient {
+  address: string;
+  role: ClaimMessageRole;
+  publicKey: Hex | null; // null until they register a key
+  keyId: Hex | null;
+}
+
+export function encryptionKeyId(publicKey: Hex): Hex {
+  return keccak256(publicKey.toLowerCase() as Hex);
+}
+
+// ============================================================================
+// Key Registration
+// ============================================================================
+
+/**
+ * Check a key registration's format, freshness and EIP-712 signature
+ * @returns An error message, or null when the registration is valid
+ */
+export async function verifyEncryptionKeyRegistration(registration: EncryptionKeyRegistration): Promise<string | null> {
+  if (!PUBLIC_KEY_PATTERN.test(registration.publicKey)) {
+    return 'publicKey must be an uncompressed P-256 public key (0x04 followed by 64 bytes)';
+  }
+  if (!BASE64_PATTERN.test(registration.encryptedPrivateKey) || registration.encryptedPrivateKey.length > 1024) {
+    return 'encryptedPrivateKey must be base64, at most 1024 characters';
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (registration.timestamp < now - MAX_SIGNATURE_AGE_SECONDS || registration.timestamp > now + MAX_CLOCK_SKEW_SECONDS) {
+    return `Signature timestamp must be within ${MAX_SIGNATURE_AGE_SECONDS} seconds of the current time`;
+  }
+
+  const valid = await publicClient.verifyTypedData({
+    address: registration.owner,
+    domain: claimMessageDomain,
+    types: EncryptionKeyTypes,
+    primaryType: 'EncryptionKey',
+    message: {
+      owner: registration.owner,
+      publicKey: registration.publicKey,
+      backupHash: keccak256(new TextEncoder().encode(registration.encryptedPrivateKey)),
+      timestamp: BigInt(registration.timestamp),
+    },
+    signature: registration.signature,
+  }).catch(() => false);
+
+  return valid ? null : `Signature is not from ${registration.owner}`;
+}
+
+/**
+ * Store (or replace) an address's encryption key. Wraps for the old key
+ * stay until they are re-wrapped for the new one.
+ */
+export async function saveEncryptionKey(registration: EncryptionKeyRegistration): Promise<EncryptionKeyRow> {
+  const publicKey = registration.publicKey.toLowerCase() as Hex;
+  const result = await query<EncryptionKeyRow>(
+    `INSERT INTO encryption_keys (address, public_key, key_id, encrypted_private_key, signature, signed_timestamp)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (address) DO UPDATE SET
+       public_key = EXCLUDED.public_key,
+       key_id = EXCLUDED.key_id,
+       encrypted_private_key = EXCLUDED.encrypted_private_key,
+       signature = EXCLUDED.signature,
+       signed_timestamp = EXCLUDED.signed_timestamp,
+       updated_at = NOW()
+     WHERE encryption_keys.signed_timestamp < EXCLUDED.signed_timestamp
+     RETURNING *`,
+    [
+      registration.owner.toLowerCase(),
+      publicKey,
+      encryptionKeyId(publicKey),
+      registration.encryptedPrivateKey,
+      registration.signature,
+      registration.timestamp,
+    ]
+  );
+  if (!result.rows[0]) {
+    throw new Error('A newer encryption key is already registered');
+  }
+  return result.rows[0];
+}
+
+export async function getEncryptionKey(address: string): Promise<EncryptionKeyRow | null> {
+  return queryOne<EncryptionKeyRow>('SELECT * FROM encryption_keys WHERE address = $1', [address.toLowerCase()]);
+}
+
+// ============================================================================
+// Recipients
+// ============================================================================
+
+/**
+ * Everyone an encrypted message of the claim is wrapped for: the claimant,
+ * the provider at claim time and the council's currently active members,
+ * with their registered keys
+ * @throws If the claim does not exist
+ */
+export async function getClaimRecipients(claimId: string): Promise<ClaimRecipient[]> {
+  const claim = await publicClient.readContract({
+    address: CLAIMS_MANAGER_ADDRESS,
+    abi: ClaimsManagerAbi,
+    functionName: 'getClaim',
+    args: [BigInt(claimId)],
+  });
+  if (claim.claimant === '0x0000000000000000000000000000000000000000') {
+    throw new Error(`Claim ${claimId} not found`);
+  }
+
+  const members = await publicClient.readContract({
+    address: COUNCIL_REGISTRY_ADDRESS,
+    abi: CouncilRegistryAbi,
+    functionName: 'getActiveCouncilMembers',
+    args: [claim.councilId],
+  });
+
+  const recipients = new Map<string, ClaimMessageRole>();
+  for (const member of members) recipients.set(member.toLowerCase(), 'councilor');
+  // A party who also sits on the council is listed as the party
+  recipients.set(claim.providerAtClaimTime.toLowerCase(), 'provider');
+  recipients.set(claim.claimant.toLowerCase(), 'claimer');
+
+  const keys = await queryMany<EncryptionKeyRow>(
+    'SELECT * FROM encryption_keys WHERE address = ANY($1)',
+    [[...recipients.keys()]]
+  );
+  const keysByAddress = new Map(keys.map((key) => [key.address, key]));
+
+  return [...recipients].map(([address, role]) => ({
+    address,
+    role,
+    publicKey: keysByAddress.get(address)?.public_key ?? null,
+    keyId: keysByAddress.get(address)?.key_id ?? null,
+  }));
+}
+
+/**
+ * Check wraps are well-formed and for a current recipient's current key
+ * @returns An error message, or null when all wraps are acceptable
+ */
+export function checkWrappedKeys(wraps: unknown, recipients: ClaimRecipient[]): string | null {
+  if (!Array.isArray(wraps) || wraps.length === 0) {
+    return 'keys must be a non-empty array of wrapped keys';
+  }
+  if (wraps.length > MAX_WRAPS_PER_REQUEST) {
+    return `At most ${MAX_WRAPS_PER_REQUEST} wrapped keys can be sent at once`;
+  }
+
+  const byAddress = new Map(recipients.map((r) => [r.address, r]));
+  for (const wrap of wraps as Partial<WrappedKey>[]) {
+    if (
+      typeof wrap?.recipient !== 'string' ||
+      typeof wrap.keyId !== 'string' ||
+      typeof wrap.ephemeralPublicKey !== 'string' || !PUBLIC_KEY_PATTERN.test(wrap.ephemeralPublicKey) ||
+      typeof wrap.wrappedKey !== 'string' || !BASE64_PATTERN.test(wrap.wrappedKey) || wrap.wrappedKey.length > 200
+    ) {
+      return 'Each wrapped key needs recipient, keyId, ephemeralPublicKey and base64 wrappedKey';
+    }
+    const recipient = byAddress.get(wrap.recipient.toLowerCase());
+    if (!recipient) {
+      return `${wrap.recipient} is not a party to this claim or a member of its council`;
+    }
+    if (recipient.keyId !== wrap.keyId.toLowerCase()) {
+      return `Key ${wrap.keyId} is not the current encryption key of ${wrap.recipient}`;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Wrapped Keys
+// ============================================================================
+
+/**
+ * Store wraps of a message's content key. A recipient's existing wrap is only
+ * replaced when it was for a key they no longer use.
+ */
+export async function storeWrappedKeys(
+  client: pg.PoolClient,
+  messageId: string,
+  wraps: WrappedKey[],
+  wrappedBy: string
+): Promise<void> {
+  for (const wrap of wraps) {
+    await client.query(
+      `INSERT INTO claim_message_keys (message_id, recipient_address, key_id, ephemeral_public_key, wrapped_key, wrapped_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (message_id, recipient_address) DO UPDATE SET
+         key_id = EXCLUDED.key_id,
+         ephemeral_public_key = EXCLUDED.ephemeral_public_key,
+         wrapped_key = EXCLUDED.wrapped_key,
+         wrapped_by = EXCLUDED.wrapped_by,
+         created_at = NOW()
+       WHERE claim_message_keys.key_id <> EXCLUDED.key_id`,
+      [
+        messageId,
+        wrap.recipient.toLowerCase(),
+        wrap.keyId.toLowerCase(),
+        wrap.ephemeralPublicKey.toLowerCase(),
+        wrap.wrappedKey,
+        wrappedBy.toLowerCase(),
+      ]
+    );
+  }
+}
+
+/**
+ * Wrapped content keys of the given messages, by message id
+ */
+export async function getWrappedKeys(messageIds: string[]): Promise<Map<string, WrappedKey[]>> {
+  const byMessage = new Map<string, WrappedKey[]>();
+  if (messageIds.length === 0) return byMessage;
+
+  const rows = await queryMany<{
+    message_id: string;
+    recipient_address: string;
+    key_id: string;
+    ephemeral_public_key: string;
+    wrapped_key: string;
+  }>(
+    `SELECT message_id, recipient_address, key_id, ephemeral_public_key, wrapped_key
+     FROM claim_message_keys WHERE message_id = ANY($1)`,
+    [messageIds]
+  );
+  for (const row of rows) {
+    const wraps = byMessage.get(row.message_id) ?? [];
+    wraps.push({
+      recipient: row.recipient_address,
+      keyId: row.key_id,
+      ephemeralPublicKey: row.ephemeral_public_key,
+      wrappedKey: row.wrapped_key,
+    });
+    byMessage.set(row.message_id, wraps);
+  }
+  return byMessage;
+}
+
+export interface ClaimKeyStatus {
+  recipients: ClaimRecipient[];
+  // Encrypted messages whose content key is not wrapped for a recipient's current key
+  missing: { messageId: string; author: string; recipient: string; keyId: Hex; publicKey: Hex }[];
+}
+
+/**
+ * Bring a claim's wraps in line with its current recipients: delete wraps of
+ * members who left the council, and list the wraps still to be made
+ * @throws If the claim does not exist
+ */
+export async function syncClaimKeys(claimId: string): Promise<ClaimKeyStatus> {
+  const recipients = await getClaimRecipients(claimId);
+
+  await query(
+    `DELETE FROM claim_message_keys k USING claim_messages m
+     WHERE k.message_id = m.id AND m.claim_id = $1 AND NOT (k.recipient_address = ANY($2))`,
+    [claimId, recipients.map((r) => r.address)]
+  );
+
+  const withKeys = recipients.filter((r) => r.keyId && r.publicKey);
+  if (withKeys.length === 0) return { recipients, missing: [] };
+
+  const missing = await queryMany<{ message_id: string; author: string; recipient: string }>(
+    `SELECT m.id AS message_id, LOWER(m.author_address) AS author, r.address AS recipient
+     FROM claim_messages m
+     CROSS JOIN unnest($2::text[], $3::text[]) AS r(address, key_id)
+     LEFT JOIN claim_message_keys k
+       ON k.message_id = m.id AND k.recipient_address = r.address AND k.key_id = r.key_id
+     WHERE m.claim_id = $1 AND m.encrypted AND k.message_id IS NULL
+     ORDER BY m.created_at ASC`,
+    [claimId, withKeys.map((r) => r.address), withKeys.map((r) => r.keyId)]
+  );
+
+  const byAddress = new Map(withKeys.map((r) => [r.address, r]));
+  return {
+    recipients,
+    missing: missing.map((row) => ({
+      messageId: row.message_id,
+      author: row.author,
+      recipient: row.recipient,
+      keyId: byAddress.get(row.recipient)!.keyId!,
+      publicKey: byAddress.get(row.recipient)!.publicKey!,
+    })),
+  };
+}
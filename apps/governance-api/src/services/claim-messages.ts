@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { keccak256, toBytes, type Address, type Hex } from 'viem';
+import {
+  CHAIN_ID,
+  CLAIMS_MANAGER_ADDRESS,
+  COUNCIL_REGISTRY_ADDRESS,
+  ClaimsManagerAbi,
+  CouncilRegistryAbi,
+  publicClient,
+} from '../config/index.js';
+
+// ============================================================================
+// Signed Claim Messages
+// ============================================================================
+// Every message posted to a claim conversation carries its author's EIP-712
+// signature over the claim, thread position, role, content and evidence, so
+// the server can't be fooled into accepting a message as someone else, and
+// anyone can re-verify the stored transcript. The dashboards' ClaimConversation
+// components sign with these exact types and domain.
+
+export type ClaimMessageRole = 'claimer' | 'provider' | 'councilor';
+
+export const ClaimMessageTypes = {
+  ClaimMessage: [
+    { name: 'claimId', type: 'uint256' },
+    { name: 'parentId', type: 'string' },
+    { name: 'role', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'evidenceHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+} as const;
+
+export const claimMessageDomain = {
+  name: 'Trustful Agents Claims',
+  version: '1',
+  chainId: CHAIN_ID,
+  verifyingContract: CLAIMS_MANAGER_ADDRESS as Address,
+} as const;
+
+// How far a message's signed timestamp may be from the server clock
+export const MAX_SIGNATURE_AGE_SECONDS = 300;
+export const MAX_CLOCK_SKEW_SECONDS = 60;
+
+export const ZERO_HASH: Hex = `0x${'0'.repeat(64)}`;
+
+export interface SignedClaimMessage {
+  claimId: string;
+  parentId: string | null;
+  role: ClaimMessageRole;
+  content: string;
+  evidenceHash: Hex | null;
+  timestamp: number; // unix seconds
+  author: Address;
+  signature: Hex;
+}
+
+/**
+ * keccak256 of the message content's UTF-8 bytes (content is trimmed before signing)
+ */
+export function hashMessageContent(content: string): Hex {
+  return keccak256(toBytes(content));
+}
+
+/**
+ * Whether evidenceHash is the keccak256 or SHA-256 of a base64 data URI's
+ * decoded bytes (the dashboards have used both)
+ */
+export function evidenceMatchesHash(dataUri: string, evidenceHash: string): boolean {
+  const match = /^data:[^;,]*(;[^,]*)?;base64,(.*)$/s.exec(dataUri);
+  if (!match) return false;
+  const bytes = Buffer.from(match[2], 'base64');
+  const expected = evidenceHash.toLowerCase();
+  return keccak256(bytes) === expected || `0x${createHash('sha256').update(bytes).digest('hex')}` === expected;
+}
+
+/**
+ * Check a message's EIP-712 signature and freshness
+ * @returns An error message, or null when the signature is valid
+ */
+export async function verifyClaimMessageSignature(message: SignedClaimMessage): Promise<string | null> {
+  const now = Math.floor(Date.now() / 1000);
+  if (message.timestamp < now - MAX_SIGNATURE_AGE_SECONDS || message.timestamp > now + MAX_CLOCK_SKEW_SECONDS) {
+    return `Signature timestamp must be within ${MAX_SIGNATURE_AGE_SECONDS} seconds of the current time`;
+  }
+
+  // verifyTypedData also accepts ERC-1271 smart account signatures
+  const valid = await publicClient.verifyTypedData({
+    address: message.author,
+    domain: claimMessageDomain,
+    types: ClaimMessageTypes,
+    primaryType: 'ClaimMessage',
+    message: {
+      claimId: BigInt(message.claimId),
+      parentId: message.parentId ?? '',
+      role: message.role,
+      contentHash: hashMessageContent(message.content),
+      evidenceHash: message.evidenceHash ?? ZERO_HASH,
+      timestamp: BigInt(message.timestamp),
+    },
+    signature: message.signature,
+  }).catch(() => false);
+
+  return valid ? null : `Signature is not from ${message.author}`;
+}
+
+// ============================================================================
+// Claim Access
+// ============================================================================
+// Reading evidence needs proof that the caller is a party to the claim. The
+// caller signs a ClaimAccess grant for their own address once, and presents
+// it with each request until it expires. Grants work as query parameters too,
+// so they can be used in plain download links.
+
+export const ClaimAccessTypes = {
+  ClaimAccess: [
+    { name: 'claimId', type: 'uint256' },
+    { name: 'reader', type: 'address' },
+    { name: 'expires', type: 'uint256' },
+  ],
+} as const;
+
+// Grants may not be valid for longer than this
+const MAX_ACCESS_GRANT_SECONDS = 24 * 60 * 60;
+
+export interface ClaimAccessGrant {
+  claimId: string;
+  reader: Address;
+  expires: number; // unix seconds
+  signature: Hex;
+}
+
+/**
+ * Check a ClaimAccess grant's signature and expiry
+ * @returns An error message, or null when the grant is valid
+ */
+export async function verifyClaimAccessGrant(grant: ClaimAccessGrant): Promise<string | null> {
+  const now = Math.floor(Date.now() / 1000);
+  if (grant.expires <= now) {
+    return 'Access grant has expired';
+  }
+  if (grant.expires > now + MAX_ACCESS_GRANT_SECONDS) {
+    return `Access grants may be valid for at most ${MAX_ACCESS_GRANT_SECONDS} seconds`;
+  }
+
+  const valid = await publicClient.verifyTypedData({
+    address: grant.reader,
+    domain: claimMessageDomain,
+    types: ClaimAccessTypes,
+    primaryType: 'ClaimAccess',
+    message: {
+      claimId: BigInt(grant.claimId),
+      reader: grant.reader,
+      expires: BigInt(grant.expires),
+    },
+    signature: grant.signature,
+  }).catch(() => false);
+
+  return valid ? null : `Access grant is not signed by ${grant.reader}`;
+}
+
+export interface ClaimParticipant {
+  // null when the address is not a party to the claim
+  role: ClaimMessageRole | null;
+  // Whether the claim still accepts evidence
+  evidenceOpen: boolean;
+}
+
+/**
+ * How an address takes part in a claim: its claimant, the provider at claim
+ * time, or an active member of the claim's council
+ * @throws If the claim does not exist
+ */
+export async function getClaimParticipant(claimId: string, address: Address): Promise<ClaimParticipant> {
+  const claim = await publicClient.readContract({
+    address: CLAIMS_MANAGER_ADDRESS,
+    abi: ClaimsManagerAbi,
+    functionName: 'getClaim',
+    args: [BigInt(claimId)],
+  });
+  if (claim.claimant === '0x0000000000000000000000000000000000000000') {
+    throw new Error(`Claim ${claimId} not found`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const evidenceOpen = Number(claim.status) === 0 && now < Number(claim.evidenceDeadline);
+  const lower = address.toLowerCase();
+
+  if (lower === claim.claimant.toLowerCase()) return { role: 'claimer', evidenceOpen };
+  if (lower === claim.providerAtClaimTime.toLowerCase()) return { role: 'provider', evidenceOpen };
+
+  const isMember = await publicClient.readContract({
+    address: COUNCIL_REGISTRY_ADDRESS,
+    abi: CouncilRegistryAbi,
+    functionName: 'isActiveMember',
+    args: [claim.councilId, address],
+  });
+  return { role: isMember ? 'councilor' : null, evidenceOpen };
+}
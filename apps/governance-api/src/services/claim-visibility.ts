@@ -0,0 +1,101 @@
+import { queryMany, queryOne } from '../db/index.js';
+
+// ============================================================================
+// Claim Visibility
+// ============================================================================
+// Each claim has two visibility levels:
+//
+// - summary: the on-chain claim, its votes and its metadata (title and
+//   description)
+// - evidence: the conversation, its transcript, the payment receipt and the
+//   evidence files
+//
+// Either is 'public' (anyone) or 'participants' (claimant, provider at claim
+// time, active council members and governance signers). Evidence can never be
+// more visible than the summary.
+
+export type ClaimVisibilityLevel = 'public' | 'participants';
+
+export interface ClaimVisibility {
+  summary: ClaimVisibilityLevel;
+  evidence: ClaimVisibilityLevel;
+}
+
+export const DEFAULT_CLAIM_VISIBILITY: ClaimVisibility = {
+  summary: 'public',
+  evidence: 'participants',
+};
+
+const VISIBILITY_LEVELS: readonly ClaimVisibilityLevel[] = ['public', 'participants'];
+
+interface ClaimVisibilityRow {
+  claim_id: string;
+  summary: ClaimVisibilityLevel;
+  evidence: ClaimVisibilityLevel;
+}
+
+/**
+ * Validate a requested policy. Returns an error message, or null if valid.
+ */
+export function checkClaimVisibility(visibility: unknown): string | null {
+  const { summary, evidence } = (visibility ?? {}) as Record<string, unknown>;
+  if (
+    !VISIBILITY_LEVELS.includes(summary as ClaimVisibilityLevel) ||
+    !VISIBILITY_LEVELS.includes(evidence as ClaimVisibilityLevel)
+  ) {
+    return `summary and evidence must each be one of: ${VISIBILITY_LEVELS.join(', ')}`;
+  }
+  if (summary === 'participants' && evidence === 'public') {
+    return 'Evidence cannot be public when the claim summary is not';
+  }
+  return null;
+}
+
+export async function getClaimVisibility(claimId: string): Promise<ClaimVisibility> {
+  const row = await queryOne<ClaimVisibilityRow>(
+    'SELECT claim_id, summary, evidence FROM claim_visibility WHERE claim_id = $1',
+    [claimId]
+  );
+  return row ? { summary: row.summary, evidence: row.evidence } : DEFAULT_CLAIM_VISIBILITY;
+}
+
+/**
+ * Policies for several claims at once, keyed by claim id
+ */
+export async function getClaimVisibilities(claimIds: string[]): Promise<Map<string, ClaimVisibility>> {
+  const visibilities = new Map<string, ClaimVisibility>(
+    claimIds.map((id) => [id, DEFAULT_CLAIM_VISIBILITY])
+  );
+  if (claimIds.length === 0) return visibilities;
+
+  const rows = await queryMany<ClaimVisibilityRow>(
+    'SELECT claim_id::text AS claim_id, summary, evidence FROM claim_visibility WHERE claim_id::text = ANY($1)',
+    [claimIds]
+  );
+  for (const row of rows) {
+    visibilities.set(row.claim_id, { summary: row.summary, evidence: row.evidence });
+  }
+  return visibilities;
+}
+
+export async function setClaimVisibility(
+  claimId: string,
+  visibility: ClaimVisibility,
+  updatedBy: string
+): Promise<ClaimVisibility> {
+  const row = await queryOne<ClaimVisibilityRow>(
+    `INSERT INTO claim_visibility (claim_id, summary, evidence, updated_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (claim_id) DO UPDATE SET
+       summary = EXCLUDED.summary,
+       evidence = EXCLUDED.evidence,
+       updated_by = EXCLUDED.updated_by,
+       updated_at = NOW()
+     RETURNING claim_id, summary, evidence`,
+    [claimId, visibility.summary, visibility.evidence, updatedBy.toLowerCase()]
+  );
+  if (!row) {
+    throw new Error('Failed to save claim visibility');
+  }
+  return { summary: row.summary, evidence: row.evidence };
+}
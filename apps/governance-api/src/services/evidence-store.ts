@@ -0,0 +1,422 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { access, mkdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { keccak256, type Hex } from 'viem';
+import {
+  AWS_ACCESS_KEY_ID,
+  AWS_SECRET_ACCESS_KEY,
+  EVIDENCE_DIR,
+  EVIDENCE_S3_BUCKET,
+  EVIDENCE_S3_ENDPOINT,
+  EVIDENCE_S3_PREFIX,
+  EVIDENCE_S3_REGION,
+  EVIDENCE_STORAGE,
+  IPFS_GATEWAY,
+  PINATA_API_KEY,
+  PINATA_SECRET_KEY,
+} from '../config/index.js';
+import { queryMany, queryOne } from '../db/index.js';
+
+// ============================================================================
+// Evidence Store
+// ============================================================================
+// Claim evidence files too large to inline in claim_messages.evidence_data.
+// Files are addressed by content (keccak256 and sha256, either works for
+// lookups) and kept in one of three backends, chosen by EVIDENCE_STORAGE:
+// the local filesystem, an S3-compatible bucket, or IPFS pinned via Pinata.
+// Which file types are accepted, and how large, is set by EVIDENCE_POLICIES.
+//
+// Pinned files are public: anyone with the hash can fetch them from any
+// gateway, bypassing the API's access checks. So the IPFS backend only takes
+// end-to-end encrypted evidence (ENCRYPTED_EVIDENCE_MIMETYPE); with it,
+// plaintext uploads are refused.
+
+export type EvidenceBackendName = 'fs' | 's3' | 'ipfs';
+
+// Inclusive byte range, as in HTTP Range headers
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface EvidenceBackend {
+  readonly name: EvidenceBackendName;
+  // Whether stored files can be read without going through the API
+  readonly publiclyReadable: boolean;
+  /**
+   * Store a file. Storing the same content twice is harmless.
+   * @returns The key to read it back with
+   */
+  put(file: { keccak256: Hex; data: Buffer; mimetype: string; filename: string }): Promise<string>;
+  /**
+   * Stream a stored file, or a byte range of it
+   */
+  get(key: string, range?: ByteRange): Promise<Readable>;
+}
+
+export interface EvidenceFile {
+  id: string;
+  claim_id: string;
+  uploader_address: string;
+  keccak256: Hex;
+  sha256: Hex;
+  size: string; // BIGINT
+  mimetype: string;
+  filename: string;
+  backend: EvidenceBackendName;
+  storage_key: string;
+  created_at: Date;
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export interface EvidencePolicy {
+  mimetype: string;
+  maxSize: number; // bytes
+  // Checks the file content is really of this type
+  matches: (data: Buffer) => boolean;
+}
+
+const MB = 1024 * 1024;
+
+function startsWith(data: Buffer, ...bytes: number[]): boolean {
+  return bytes.every((byte, i) => data[i] === byte);
+}
+
+// UTF-8 text without NUL bytes
+function isText(data: Buffer): boolean {
+  if (data.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Evidence encrypted client-side (services/claim-encryption.ts): the magic
+// header, a 12-byte AES-GCM IV, then the ciphertext. Its plaintext type can
+// only be checked by the parties that decrypt it.
+export const ENCRYPTED_EVIDENCE_MIMETYPE = 'application/vnd.trustful.encrypted';
+const ENCRYPTED_EVIDENCE_MAGIC = 'TFENC1';
+
+export const EVIDENCE_POLICIES: EvidencePolicy[] = [
+  { mimetype: 'image/png', maxSize: 10 * MB, matches: (d) => startsWith(d, 0x89, 0x50, 0x4e, 0x47) },
+  { mimetype: 'image/jpeg', maxSize: 10 * MB, matches: (d) => startsWith(d, 0xff, 0xd8, 0xff) },
+  { mimetype: 'image/gif', maxSize: 10 * MB, matches: (d) => startsWith(d, 0x47, 0x49, 0x46, 0x38) },
+  {
+    mimetype: 'image/webp',
+    maxSize: 10 * MB,
+    matches: (d) => startsWith(d, 0x52, 0x49, 0x46, 0x46) && d.toString('latin1', 8, 12) === 'WEBP',
+  },
+  { mimetype: 'application/pdf', maxSize: 25 * MB, matches: (d) => startsWith(d, 0x25, 0x50, 0x44, 0x46, 0x2d) },
+  { mimetype: 'text/plain', maxSize: 5 * MB, matches: isText },
+  { mimetype: 'text/csv', maxSize: 5 * MB, matches: isText },
+  { mimetype: 'text/markdown', maxSize: 5 * MB, matches: isText },
+  { mimetype: 'application/json', maxSize: 5 * MB, matches: isText },
+  {
+    mimetype: ENCRYPTED_EVIDENCE_MIMETYPE,
+    // Room for the largest plaintext plus header, IV and tag
+    maxSize: 25 * MB + 64,
+    matches: (d) => d.length > 34 && d.toString('latin1', 0, ENCRYPTED_EVIDENCE_MAGIC.length) === ENCRYPTED_EVIDENCE_MAGIC,
+  },
+];
+
+// Upper bound for any upload, before its type is known
+export const MAX_EVIDENCE_FILE_SIZE = Math.max(...EVIDENCE_POLICIES.map((p) => p.maxSize));
+
+/**
+ * Check a file against the policy for its MIME type
+ * @returns An error message, or null when the file is accepted
+ */
+export function checkEvidencePolicy(data: Buffer, mimetype: string): string | null {
+  const policy = getEvidencePolicies().find((p) => p.mimetype === mimetype);
+  if (!policy) {
+    return mimetype !== ENCRYPTED_EVIDENCE_MIMETYPE && getEvidenceBackend().publiclyReadable
+      ? 'Evidence must be encrypted: this API stores evidence on public IPFS'
+      : `Files of type ${mimetype} are not accepted as evidence`;
+  }
+  if (data.length === 0) {
+    return 'Evidence file is empty';
+  }
+  if (data.length > policy.maxSize) {
+    return `${mimetype} evidence must be ${policy.maxSize / MB}MB or less`;
+  }
+  if (!policy.matches(data)) {
+    return `File content is not ${mimetype}`;
+  }
+  return null;
+}
+
+/**
+ * keccak256 and sha256 of a file, as 0x-prefixed hex
+ */
+export function hashEvidence(data: Buffer): { keccak256: Hex; sha256: Hex } {
+  return {
+    keccak256: keccak256(data),
+    sha256: `0x${createHash('sha256').update(data).digest('hex')}`,
+  };
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * Bytes start..end of a stream, for sources that can't seek
+ */
+async function* sliceBytes(source: AsyncIterable<Uint8Array>, range: ByteRange) {
+  let offset = 0;
+  for await (const chunk of source) {
+    const from = Math.max(range.start - offset, 0);
+    const to = Math.min(range.end + 1 - offset, chunk.length);
+    if (from < to) yield chunk.subarray(from, to);
+    offset += chunk.length;
+    if (offset > range.end) return;
+  }
+}
+
+const fsBackend: EvidenceBackend = {
+  name: 'fs',
+  publiclyReadable: false,
+
+  async put(file) {
+    // Sharded by the first hash byte to keep directories small
+    const hex = file.keccak256.slice(2);
+    const key = path.join(hex.slice(0, 2), hex);
+    const target = path.join(EVIDENCE_DIR, key);
+
+    const exists = await access(target).then(() => true, () => false);
+    if (!exists) {
+      await mkdir(path.dirname(target), { recursive: true });
+      // Write then rename, so a file is never visible half-written
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, file.data);
+      await rename(temp, target);
+    }
+    return key;
+  },
+
+  async get(key, range) {
+    const stream = createReadStream(path.join(EVIDENCE_DIR, key), range);
+    // Surface a missing file here rather than as a stream error mid-response
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', reject);
+    });
+    return stream;
+  },
+};
+
+let s3Client: S3Client | null = null;
+
+function getS3Client(): S3Client {
+  if (!EVIDENCE_S3_BUCKET) {
+    throw new Error('EVIDENCE_S3_BUCKET is not configured');
+  }
+  s3Client ??= new S3Client({
+    region: EVIDENCE_S3_REGION,
+    // Other S3-compatible stores (MinIO, R2, ...) generally need path-style URLs
+    ...(EVIDENCE_S3_ENDPOINT && { endpoint: EVIDENCE_S3_ENDPOINT, forcePathStyle: true }),
+    ...(AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY && {
+      credentials: { accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_SECRET_ACCESS_KEY },
+    }),
+  });
+  return s3Client;
+}
+
+const s3Backend: EvidenceBackend = {
+  name: 's3',
+  publiclyReadable: false,
+
+  async put(file) {
+    const key = `${EVIDENCE_S3_PREFIX}${file.keccak256.slice(2)}`;
+    await getS3Client().send(new PutObjectCommand({
+      Bucket: EVIDENCE_S3_BUCKET,
+      Key: key,
+      Body: file.data,
+      ContentType: file.mimetype,
+    }));
+    return key;
+  },
+
+  async get(key, range) {
+    const result = await getS3Client().send(new GetObjectCommand({
+      Bucket: EVIDENCE_S3_BUCKET,
+      Key: key,
+      ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+    }));
+    // In Node the body is always a Readable
+    return result.Body as Readable;
+  },
+};
+
+const ipfsBackend: EvidenceBackend = {
+  name: 'ipfs',
+  // Pinned content is served by every public gateway
+  publiclyReadable: true,
+
+  async put(file) {
+    if (!PINATA_API_KEY || !PINATA_SECRET_KEY) {
+      throw new Error('IPFS evidence storage needs PINATA_API_KEY and PINATA_SECRET_KEY');
+    }
+
+    const formData = new FormData();
+    formData.append('file', new Blob([file.data], { type: file.mimetype }), file.filename);
+    formData.append('pinataMetadata', JSON.stringify({ name: `evidence-${file.keccak256}` }));
+
+    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+      method: 'POST',
+      headers: {
+        pinata_api_key: PINATA_API_KEY,
+        pinata_secret_api_key: PINATA_SECRET_KEY,
+      },
+      body: formData,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to pin evidence: ${await response.text()}`);
+    }
+
+    const result = await response.json() as { IpfsHash: string };
+    return result.IpfsHash;
+  },
+
+  async get(key, range) {
+    const response = await fetch(`${IPFS_GATEWAY}/${key}`, {
+      headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`IPFS gateway returned ${response.status} for ${key}`);
+    }
+
+    const body = Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+    // Gateways may ignore Range and send the whole file
+    return range && response.status !== 206 ? Readable.from(sliceBytes(body, range)) : body;
+  },
+};
+
+const BACKENDS: Record<EvidenceBackendName, EvidenceBackend> = {
+  fs: fsBackend,
+  s3: s3Backend,
+  ipfs: ipfsBackend,
+};
+
+/**
+ * The backend new evidence is stored in
+ * @throws If EVIDENCE_STORAGE names no backend
+ */
+export function getEvidenceBackend(): EvidenceBackend {
+  const backend = BACKENDS[EVIDENCE_STORAGE as EvidenceBackendName];
+  if (!backend) {
+    throw new Error(`Unknown EVIDENCE_STORAGE "${EVIDENCE_STORAGE}" (expected fs, s3 or ipfs)`);
+  }
+  return backend;
+}
+
+/**
+ * The policies for files the current backend accepts: encrypted evidence
+ * only when it is publicly readable
+ */
+export function getEvidencePolicies(): EvidencePolicy[] {
+  return getEvidenceBackend().publiclyReadable
+    ? EVIDENCE_POLICIES.filter((p) => p.mimetype === ENCRYPTED_EVIDENCE_MIMETYPE)
+    : EVIDENCE_POLICIES;
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Store an evidence file for a claim. Uploading the same content to the same
+ * claim again returns the existing file.
+ * @returns The file, and whether it was newly stored
+ */
+export async function storeEvidence(params: {
+  claimId: string;
+  uploader: string;
+  filename: string;
+  mimetype: string;
+  data: Buffer;
+}): Promise<{ file: EvidenceFile; created: boolean }> {
+  const hashes = hashEvidence(params.data);
+
+  const existing = await queryOne<EvidenceFile>(
+    'SELECT * FROM evidence_files WHERE claim_id = $1 AND keccak256 = $2',
+    [params.claimId, hashes.keccak256]
+  );
+  if (existing) {
+    return { file: existing, created: false };
+  }
+
+  const backend = getEvidenceBackend();
+  if (backend.publiclyReadable && params.mimetype !== ENCRYPTED_EVIDENCE_MIMETYPE) {
+    throw new Error(`The ${backend.name} evidence backend only stores encrypted evidence`);
+  }
+  const storageKey = await backend.put({
+    keccak256: hashes.keccak256,
+    data: params.data,
+    mimetype: params.mimetype,
+    filename: params.filename,
+  });
+
+  // A concurrent upload of the same file may have won the race
+  const file = await queryOne<EvidenceFile>(
+    `INSERT INTO evidence_files
+     (claim_id, uploader_address, keccak256, sha256, size, mimetype, filename, backend, storage_key)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (claim_id, keccak256) DO NOTHING
+     RETURNING *`,
+    [
+      params.claimId,
+      params.uploader.toLowerCase(),
+      hashes.keccak256,
+      hashes.sha256,
+      params.data.length,
+      params.mimetype,
+      params.filename,
+      backend.name,
+      storageKey,
+    ]
+  );
+  if (file) {
+    return { file, created: true };
+  }
+
+  const winner = await queryOne<EvidenceFile>(
+    'SELECT * FROM evidence_files WHERE claim_id = $1 AND keccak256 = $2',
+    [params.claimId, hashes.keccak256]
+  );
+  return { file: winner!, created: false };
+}
+
+/**
+ * An evidence file of a claim, by its keccak256 or sha256
+ */
+export async function getEvidenceFile(claimId: string, hash: string): Promise<EvidenceFile | null> {
+  return queryOne<EvidenceFile>(
+    'SELECT * FROM evidence_files WHERE claim_id = $1 AND (keccak256 = $2 OR sha256 = $2)',
+    [claimId, hash.toLowerCase()]
+  );
+}
+
+export async function listEvidenceFiles(claimId: string): Promise<EvidenceFile[]> {
+  return queryMany<EvidenceFile>(
+    'SELECT * FROM evidence_files WHERE claim_id = $1 ORDER BY created_at ASC',
+    [claimId]
+  );
+}
+
+/**
+ * Stream an evidence file's content, or a byte range of it. Files are read
+ * from the backend they were stored in, even if EVIDENCE_STORAGE has changed.
+ */
+export async function readEvidence(file: EvidenceFile, range?: ByteRange): Promise<Readable> {
+  return BACKENDS[file.backend].get(file.storage_key, range);
+}
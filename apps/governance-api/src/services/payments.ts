@@ -0,0 +1,293 @@
+import {
+  BaseError,
+  TransactionReceiptNotFoundError,
+  encodeAbiParameters,
+  keccak256,
+  parseEventLogs,
+  type Address,
+  type Hex,
+} from 'viem';
+import { z } from 'zod';
+import {
+  CHAIN_ID,
+  CLAIMS_MANAGER_ADDRESS,
+  ERC8004_REGISTRY_ADDRESS,
+  USDC_ADDRESS,
+  ClaimsManagerAbi,
+  ERC8004RegistryAbi,
+  USDCAbi,
+  publicClient,
+} from '../config/index.js';
+import { queryOne } from '../db/index.js';
+
+// ============================================================================
+// x402 Payment Verification
+// ============================================================================
+// Same check as verifyClaimPayment in packages/sdk/src/x402.ts (this service is
+// built standalone, so it cannot import the SDK). The paymentReceiptHash
+// encoding must stay identical to the SDK's computePaymentReceiptHash.
+
+const X402_NETWORKS: Record<string, number> = {
+  base: 8453,
+  'base-sepolia': 84532,
+  ethereum: 1,
+  sepolia: 11155111,
+};
+
+const receiptSchema = z.object({
+  success: z.boolean(),
+  transaction: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  network: z.string().min(1),
+  payer: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  errorReason: z.string().optional(),
+});
+
+export type X402Receipt = z.infer<typeof receiptSchema>;
+
+export type PaymentVerificationCode =
+  | 'INVALID_RECEIPT'
+  | 'WRONG_NETWORK'
+  | 'PAYER_MISMATCH'
+  | 'TX_NOT_FOUND'
+  | 'TX_FAILED'
+  | 'TRANSFER_NOT_FOUND'
+  | 'OUT_OF_TIME_WINDOW'
+  | 'HASH_MISMATCH';
+
+export interface PaymentVerification {
+  claimId: string;
+  verified: boolean;
+  code: PaymentVerificationCode | null;
+  message: string | null;
+  transactionHash: string;
+  payer: string | null;
+  payee: string | null;
+  amount: string | null;
+  paidAt: string | null;
+  paymentReceiptHash: string | null;
+  verifiedAt: string;
+}
+
+/**
+ * Parse a settlement receipt given as an object, JSON or base64 JSON
+ */
+export function parseX402Receipt(input: unknown): X402Receipt | null {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input.trimStart().startsWith('{') ? input : Buffer.from(input.trim(), 'base64').toString('utf-8'));
+    } catch {
+      return null;
+    }
+  }
+  const result = receiptSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+export function computePaymentReceiptHash(
+  chainId: number,
+  transaction: Hex,
+  payer: Address,
+  payee: Address,
+  amount: bigint
+): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: 'uint256' }, { type: 'bytes32' }, { type: 'address' }, { type: 'address' }, { type: 'uint256' }],
+      [BigInt(chainId), transaction, payer, payee, amount]
+    )
+  );
+}
+
+type Outcome =
+  | { verified: true; payer: Address; payee: Address; amount: bigint; paidAt: bigint; paymentReceiptHash: Hex }
+  | { verified: false; code: PaymentVerificationCode; message: string };
+
+/**
+ * Check that the claimant paid the agent (owner at claim time or now) in the
+ * transaction named by the receipt, before the claim was filed, and that the
+ * claim was filed with the canonical paymentReceiptHash.
+ */
+async function checkClaimPayment(claimId: bigint, receipt: X402Receipt): Promise<Outcome> {
+  if (!receipt.success) {
+    return { verified: false, code: 'INVALID_RECEIPT', message: `Settlement failed: ${receipt.errorReason ?? 'unknown reason'}` };
+  }
+
+  const caip2 = /^eip155:(\d+)$/.exec(receipt.network);
+  const chainId = caip2 ? Number(caip2[1]) : X402_NETWORKS[receipt.network];
+  if (chainId !== CHAIN_ID) {
+    return { verified: false, code: 'WRONG_NETWORK', message: `Receipt is for ${receipt.network}, expected chain ${CHAIN_ID}` };
+  }
+
+  const claim = await publicClient.readContract({
+    address: CLAIMS_MANAGER_ADDRESS,
+    abi: ClaimsManagerAbi,
+    functionName: 'getClaim',
+    args: [claimId],
+  });
+  if (receipt.payer.toLowerCase() !== claim.claimant.toLowerCase()) {
+    return { verified: false, code: 'PAYER_MISMATCH', message: `Receipt payer ${receipt.payer} is not the claimant ${claim.claimant}` };
+  }
+
+  let txReceipt;
+  try {
+    txReceipt = await publicClient.getTransactionReceipt({ hash: receipt.transaction as Hex });
+  } catch (error) {
+    if (error instanceof BaseError && error.walk((e) => e instanceof TransactionReceiptNotFoundError)) {
+      return { verified: false, code: 'TX_NOT_FOUND', message: `Transaction ${receipt.transaction} not found` };
+    }
+    throw error;
+  }
+  if (txReceipt.status !== 'success') {
+    return { verified: false, code: 'TX_FAILED', message: `Transaction ${receipt.transaction} reverted` };
+  }
+
+  const owner = await publicClient.readContract({
+    address: ERC8004_REGISTRY_ADDRESS,
+    abi: ERC8004RegistryAbi,
+    functionName: 'ownerOf',
+    args: [claim.agentId],
+  });
+  const payees = [claim.providerAtClaimTime, owner].map((a) => a.toLowerCase());
+
+  const transfers = parseEventLogs({ abi: USDCAbi, eventName: 'Transfer', logs: txReceipt.logs, strict: true }).filter(
+    (log) =>
+      log.address.toLowerCase() === USDC_ADDRESS.toLowerCase() &&
+      log.args.from.toLowerCase() === claim.claimant.toLowerCase() &&
+      payees.includes(log.args.to.toLowerCase())
+  );
+  if (transfers.length === 0) {
+    return { verified: false, code: 'TRANSFER_NOT_FOUND', message: `No USDC transfer from the claimant to the agent in ${receipt.transaction}` };
+  }
+
+  const { timestamp } = await publicClient.getBlock({ blockNumber: txReceipt.blockNumber });
+  if (timestamp > claim.filedAt) {
+    return { verified: false, code: 'OUT_OF_TIME_WINDOW', message: 'Payment was made after the claim was filed' };
+  }
+
+  // A transaction can carry several transfers to the agent; the claim must
+  // have been filed with one of them
+  for (const transfer of transfers) {
+    const paymentReceiptHash = computePaymentReceiptHash(
+      CHAIN_ID,
+      receipt.transaction as Hex,
+      transfer.args.from,
+      transfer.args.to,
+      transfer.args.value
+    );
+    if (paymentReceiptHash.toLowerCase() === claim.paymentReceiptHash.toLowerCase()) {
+      return {
+        verified: true,
+        payer: transfer.args.from,
+        payee: transfer.args.to,
+        amount: transfer.args.value,
+        paidAt: timestamp,
+        paymentReceiptHash,
+      };
+    }
+  }
+  return {
+    verified: false,
+    code: 'HASH_MISMATCH',
+    message: `Claim was filed with paymentReceiptHash ${claim.paymentReceiptHash}, which matches no transfer in ${receipt.transaction}`,
+  };
+}
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+interface PaymentVerificationRow {
+  claim_id: string;
+  verified: boolean;
+  code: PaymentVerificationCode | null;
+  message: string | null;
+  transaction_hash: string;
+  payer: string | null;
+  payee: string | null;
+  amount: string | null;
+  paid_at: Date | null;
+  payment_receipt_hash: string | null;
+  verified_at: Date;
+}
+
+function formatVerification(row: PaymentVerificationRow): PaymentVerification {
+  return {
+    claimId: row.claim_id,
+    verified: row.verified,
+    code: row.code,
+    message: row.message,
+    transactionHash: row.transaction_hash,
+    payer: row.payer,
+    payee: row.payee,
+    amount: row.amount,
+    paidAt: row.paid_at ? row.paid_at.toISOString() : null,
+    paymentReceiptHash: row.payment_receipt_hash,
+    verifiedAt: row.verified_at.toISOString(),
+  };
+}
+
+/**
+ * Verify a claim's x402 receipt on-chain and store the outcome.
+ * The latest verification replaces earlier failed ones for the same claim;
+ * once a payment is verified, later receipts can't overwrite it.
+ */
+export async function verifyAndStoreClaimPayment(claimId: bigint, receipt: X402Receipt): Promise<PaymentVerification> {
+  const outcome = await checkClaimPayment(claimId, receipt);
+
+  const row = await queryOne<PaymentVerificationRow>(
+    `INSERT INTO claim_payment_verifications
+       (claim_id, verified, code, message, transaction_hash, payer, payee, amount, paid_at, payment_receipt_hash, receipt)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_timestamp($9), $10, $11)
+     ON CONFLICT (claim_id) DO UPDATE SET
+       verified = EXCLUDED.verified,
+       code = EXCLUDED.code,
+       message = EXCLUDED.message,
+       transaction_hash = EXCLUDED.transaction_hash,
+       payer = EXCLUDED.payer,
+       payee = EXCLUDED.payee,
+       amount = EXCLUDED.amount,
+       paid_at = EXCLUDED.paid_at,
+       payment_receipt_hash = EXCLUDED.payment_receipt_hash,
+       receipt = EXCLUDED.receipt,
+       verified_at = NOW()
+     WHERE NOT claim_payment_verifications.verified
+     RETURNING claim_id, verified, code, message, transaction_hash, payer, payee, amount, paid_at, payment_receipt_hash, verified_at`,
+    [
+      claimId.toString(),
+      outcome.verified,
+      outcome.verified ? null : outcome.code,
+      outcome.verified ? null : outcome.message,
+      receipt.transaction.toLowerCase(),
+      outcome.verified ? outcome.payer.toLowerCase() : null,
+      outcome.verified ? outcome.payee.toLowerCase() : null,
+      outcome.verified ? outcome.amount.toString() : null,
+      outcome.verified ? Number(outcome.paidAt) : null,
+      outcome.verified ? outcome.paymentReceiptHash : null,
+      JSON.stringify(receipt),
+    ]
+  );
+
+  if (!row) {
+    // Skipped by the conflict clause: the claim's payment is already verified
+    const verified = await getClaimPaymentVerification(claimId.toString());
+    if (!verified) {
+      throw new Error('Failed to store payment verification');
+    }
+    return verified;
+  }
+  return formatVerification(row);
+}
+
+/**
+ * Get the stored payment verification for a claim
+ */
+export async function getClaimPaymentVerification(claimId: string): Promise<PaymentVerification | null> {
+  const row = await queryOne<PaymentVerificationRow>(
+    `SELECT claim_id, verified, code, message, transaction_hash, payer, payee, amount, paid_at, payment_receipt_hash, verified_at
+     FROM claim_payment_verifications
+     WHERE claim_id = $1`,
+    [claimId]
+  );
+  return row ? formatVerification(row) : null;
+}
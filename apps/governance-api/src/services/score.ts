@@ -0,0 +1,294 @@
+import { keccak256, type Hex } from 'viem';
+import {
+  CONTRACTS,
+  IPFS_GATEWAY,
+  TrustfulValidatorAbi,
+  CollateralVaultAbi,
+  ClaimsManagerAbi,
+  CouncilRegistryAbi,
+  TermsRegistryAbi,
+  publicClient,
+} from '../config/index.js';
+import { canonicalize } from './canonical.js';
+
+// ============================================================================
+// Trust Score
+// ============================================================================
+// A documented 0-100 summary of an agent's trust state, served as
+// /v1/agents/:agentId/score.json. Each component is scored 0-1 and weighted:
+//
+// - collateralCoverage: available collateral / maxPayoutPerClaim (full at 1x)
+// - claimRecord: 1 - approved / (approved + rejected); no decided claims is a clean record
+// - payoutHistory: 1 - totalPaidOut / (collateral + totalPaidOut)
+// - validationAge: days since validation / FULL_VALIDATION_AGE_DAYS
+// - withdrawalState: 1 - pending withdrawal / collateral
+// - councilActivity: active council members / FULL_COUNCIL_MEMBERS (0 if the council is closed)
+//
+// Agents that are not validated score 0; their components are still reported.
+// The constants and computeTrustScore must stay identical to
+// packages/sdk/src/score.ts so clients can recompute the score locally; any
+// change to the rules must bump TRUST_SCORE_VERSION in both.
+
+export const TRUST_SCORE_VERSION = '1.0';
+
+export type TrustScoreComponentName =
+  | 'collateralCoverage'
+  | 'claimRecord'
+  | 'payoutHistory'
+  | 'validationAge'
+  | 'withdrawalState'
+  | 'councilActivity';
+
+export const TRUST_SCORE_WEIGHTS: Record<TrustScoreComponentName, number> = {
+  collateralCoverage: 30,
+  claimRecord: 20,
+  payoutHistory: 15,
+  validationAge: 15,
+  withdrawalState: 10,
+  councilActivity: 10,
+};
+
+const FULL_VALIDATION_AGE_DAYS = 90;
+const FULL_COUNCIL_MEMBERS = 5;
+const SECONDS_PER_DAY = 86_400;
+
+// Amounts are USDC base units
+export interface TrustScoreInputs {
+  isValidated: boolean;
+  validationIssuedAt: bigint;
+  collateralBalance: bigint;
+  availableCollateral: bigint;
+  withdrawalAmount: bigint;
+  maxPayoutPerClaim: bigint | null; // null when the T&C document can't be verified
+  claims: {
+    total: number;
+    approved: number;
+    rejected: number;
+    pending: number;
+    expired: number;
+    totalPaidOut: bigint;
+  };
+  council: { active: boolean; activeMembers: number } | null;
+  now: bigint; // timestamp of the block the inputs were read at
+}
+
+export interface TrustScoreComponent {
+  value: number;
+  weight: number;
+  points: number;
+}
+
+export interface TrustScore {
+  version: string;
+  score: number;
+  components: Record<TrustScoreComponentName, TrustScoreComponent>;
+}
+
+/**
+ * a / b clamped to 0-1, with 4 decimal places of precision
+ */
+function ratio(a: bigint, b: bigint): number {
+  if (b <= 0n) return 0;
+  if (a >= b) return 1;
+  return a <= 0n ? 0 : Number((a * 10_000n) / b) / 10_000;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute an agent's trust score with the default weights
+ */
+export function computeTrustScore(inputs: TrustScoreInputs): TrustScore {
+  const fullAge = BigInt(FULL_VALIDATION_AGE_DAYS * SECONDS_PER_DAY);
+  const { claims } = inputs;
+
+  const decided = claims.approved + claims.rejected;
+  const values: Record<TrustScoreComponentName, number> = {
+    collateralCoverage: inputs.maxPayoutPerClaim ? ratio(inputs.availableCollateral, inputs.maxPayoutPerClaim) : 0,
+    claimRecord: decided === 0 ? 1 : round(1 - claims.approved / decided, 4),
+    payoutHistory: round(1 - ratio(claims.totalPaidOut, inputs.collateralBalance + claims.totalPaidOut), 4),
+    validationAge:
+      inputs.isValidated && inputs.validationIssuedAt > 0n ? ratio(inputs.now - inputs.validationIssuedAt, fullAge) : 0,
+    withdrawalState: inputs.collateralBalance > 0n ? round(1 - ratio(inputs.withdrawalAmount, inputs.collateralBalance), 4) : 0,
+    councilActivity: inputs.council?.active ? Math.min(1, inputs.council.activeMembers / FULL_COUNCIL_MEMBERS) : 0,
+  };
+
+  const totalWeight = Object.values(TRUST_SCORE_WEIGHTS).reduce((sum, w) => sum + w, 0);
+
+  const components = {} as Record<TrustScoreComponentName, TrustScoreComponent>;
+  let total = 0;
+  for (const name of Object.keys(TRUST_SCORE_WEIGHTS) as TrustScoreComponentName[]) {
+    const weight = (TRUST_SCORE_WEIGHTS[name] * 100) / totalWeight;
+    const points = values[name] * weight;
+    components[name] = { value: values[name], weight: round(weight, 2), points: round(points, 2) };
+    total += points;
+  }
+
+  return {
+    version: TRUST_SCORE_VERSION,
+    score: inputs.isValidated ? Math.round(total) : 0,
+    components,
+  };
+}
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+// Verified max payouts by agent and contentHash. A document that matched its
+// hash can never change, so entries don't expire. Failures are remembered for
+// a few minutes so that scoring a search page doesn't wait on the same
+// unreachable document for every request.
+const verifiedMaxPayouts = new Map<string, bigint>();
+const failedMaxPayouts = new Map<string, number>(); // key -> retry after (ms)
+const FAILED_FETCH_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * maxPayoutPerClaim from the agent's T&C document, or null when it can't be
+ * fetched or doesn't hash to the registered contentHash. Accepts both the
+ * canonical JSON hash and the legacy hash of the exact file bytes.
+ */
+async function getVerifiedMaxPayout(agentId: bigint, contentUri: string, contentHash: Hex): Promise<bigint | null> {
+  const key = `${agentId}:${contentHash.toLowerCase()}`;
+  const known = verifiedMaxPayouts.get(key);
+  if (known !== undefined) return known;
+  if ((failedMaxPayouts.get(key) ?? 0) > Date.now()) return null;
+
+  const maxPayout = await fetchVerifiedMaxPayout(agentId, contentUri, contentHash);
+  if (maxPayout === null) {
+    failedMaxPayouts.set(key, Date.now() + FAILED_FETCH_RETRY_MS);
+  } else {
+    failedMaxPayouts.delete(key);
+    verifiedMaxPayouts.set(key, maxPayout);
+  }
+  return maxPayout;
+}
+
+async function fetchVerifiedMaxPayout(agentId: bigint, contentUri: string, contentHash: Hex): Promise<bigint | null> {
+  const url = contentUri.startsWith('ipfs://')
+    ? `${IPFS_GATEWAY}/${contentUri.slice('ipfs://'.length)}`
+    : contentUri;
+  if (!/^https?:\/\//.test(url)) return null;
+
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    const doc = JSON.parse(new TextDecoder().decode(bytes)) as {
+      agentId?: string;
+      signature?: unknown;
+      terms?: { maxPayoutPerClaim?: string };
+    };
+    const { signature: _signature, ...content } = doc;
+    const matches = [keccak256(bytes), keccak256(new TextEncoder().encode(canonicalize(content)))]
+      .some((hash) => hash.toLowerCase() === contentHash.toLowerCase());
+
+    const maxPayout = doc.terms?.maxPayoutPerClaim;
+    if (!matches || doc.agentId !== agentId.toString() || !maxPayout || !/^\d+$/.test(maxPayout)) {
+      return null;
+    }
+    return BigInt(maxPayout);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read everything the trust score depends on at one block
+ */
+export async function getTrustScoreInputs(agentId: bigint, blockNumber: bigint): Promise<TrustScoreInputs> {
+  const [block, isValidated, validation, account, available, stats, termsResult] = await Promise.all([
+    publicClient.getBlock({ blockNumber }),
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'isValidated',
+      args: [agentId],
+      blockNumber,
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: 'getValidationRecord',
+      args: [agentId],
+      blockNumber,
+    }).catch(() => null),
+    publicClient.readContract({
+      address: CONTRACTS.collateralVault,
+      abi: CollateralVaultAbi,
+      functionName: 'getAccount',
+      args: [agentId],
+      blockNumber,
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.collateralVault,
+      abi: CollateralVaultAbi,
+      functionName: 'getAvailableBalance',
+      args: [agentId],
+      blockNumber,
+    }),
+    publicClient.readContract({
+      address: CONTRACTS.claimsManager,
+      abi: ClaimsManagerAbi,
+      functionName: 'getClaimStats',
+      args: [agentId],
+      blockNumber,
+    }),
+    // Reverts with NoActiveTerms when the agent has none
+    publicClient.readContract({
+      address: CONTRACTS.termsRegistry,
+      abi: TermsRegistryAbi,
+      functionName: 'getActiveTerms',
+      args: [agentId],
+      blockNumber,
+    }).catch(() => null),
+  ]);
+
+  const terms = termsResult && termsResult[0].active ? termsResult[0] : null;
+  const councilId = terms?.councilId;
+
+  const [maxPayoutPerClaim, council, activeMembers] = await Promise.all([
+    terms ? getVerifiedMaxPayout(agentId, terms.contentUri, terms.contentHash) : null,
+    councilId
+      ? publicClient.readContract({
+          address: CONTRACTS.councilRegistry,
+          abi: CouncilRegistryAbi,
+          functionName: 'getCouncil',
+          args: [councilId],
+          blockNumber,
+        }).catch(() => null)
+      : null,
+    councilId
+      ? publicClient.readContract({
+          address: CONTRACTS.councilRegistry,
+          abi: CouncilRegistryAbi,
+          functionName: 'getActiveMemberCount',
+          args: [councilId],
+          blockNumber,
+        }).catch(() => 0n)
+      : 0n,
+  ]);
+
+  return {
+    isValidated,
+    validationIssuedAt: validation?.issuedAt ?? 0n,
+    collateralBalance: account.balance,
+    availableCollateral: available,
+    withdrawalAmount: account.withdrawalInitiatedAt > 0n ? account.withdrawalAmount : 0n,
+    maxPayoutPerClaim,
+    claims: {
+      total: Number(stats.totalClaims),
+      approved: Number(stats.approvedClaims),
+      rejected: Number(stats.rejectedClaims),
+      pending: Number(stats.pendingClaims),
+      expired: Number(stats.expiredClaims),
+      totalPaidOut: stats.totalPaidOut,
+    },
+    council: council ? { active: council.active, activeMembers: Number(activeMembers) } : null,
+    now: block.timestamp,
+  };
+}
@@ -0,0 +1,266 @@
+import { formatUnits, type Hex } from 'viem';
+import {
+  CONTRACTS,
+  USDC_DECIMALS,
+  TrustfulValidatorAbi,
+  CollateralVaultAbi,
+  ClaimsManagerAbi,
+  CouncilRegistryAbi,
+  publicClient,
+} from '../config/index.js';
+import { searchAgentMetadata } from './agents.js';
+import { computeTrustScore, getTrustScoreInputs } from './score.js';
+import { getChainHead } from './signing.js';
+
+// ============================================================================
+// Agent Discovery
+// ============================================================================
+// Search runs in two steps: the agents table narrows candidates by text and
+// capability, then their on-chain state is read with one multicall at a
+// pinned block and filtered, sorted and paginated here. Only agents with
+// metadata in the agents table are discoverable. Searches that match more
+// agents than are considered return truncated: true; narrow them with q or
+// capability to reach the rest.
+
+export type AgentSearchSort = 'relevance' | 'collateral' | 'score' | 'claimRecord';
+
+export interface AgentSearchParams {
+  q?: string;
+  capabilities?: string[];
+  vertical?: string;
+  minCollateral?: bigint; // USDC base units
+  validatedOnly: boolean;
+  noPendingWithdrawal: boolean;
+  sort: AgentSearchSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface AgentSearchResult {
+  agentId: string;
+  name: string;
+  description: string | null;
+  capabilities: string[];
+  websiteUrl: string | null;
+  owner: string;
+  isValidated: boolean;
+  collateral: {
+    amount: string; // decimal USDC
+    withdrawalPending: boolean;
+  };
+  council: {
+    councilId: Hex;
+    name: string;
+    vertical: string;
+  } | null;
+  claims: {
+    total: number;
+    approved: number;
+    rejected: number;
+    pending: number;
+  };
+  score: number;
+  relevance: number;
+}
+
+export interface AgentSearchResponse {
+  agents: AgentSearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+  // More agents matched than were considered (MAX_CANDIDATES, or
+  // MAX_SCORED_CANDIDATES when sorting by score); total counts only those
+  truncated: boolean;
+  blockNumber: string;
+}
+
+// Upper bound on agents table matches considered per search; without q they
+// are taken in agent id order
+const MAX_CANDIDATES = 1000;
+
+// Scores need a few reads and a T&C fetch per agent; bound the concurrency
+const SCORE_BATCH_SIZE = 10;
+
+// Sorting by score scores every ranked agent, so only this many of the most
+// relevant matches are ranked
+const MAX_SCORED_CANDIDATES = 100;
+
+const ZERO_BYTES32 = `0x${'0'.repeat(64)}`;
+
+interface Candidate extends Omit<AgentSearchResult, 'score'> {
+  balance: bigint;
+  claimRecord: number;
+}
+
+/**
+ * Share of decided claims that were rejected; agents without decided claims
+ * have a clean record (same rule as the trust score's claimRecord)
+ */
+function claimRecord(approved: number, rejected: number): number {
+  const decided = approved + rejected;
+  return decided === 0 ? 1 : 1 - approved / decided;
+}
+
+async function scoreAgents(agentIds: string[], blockNumber: bigint): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  for (let i = 0; i < agentIds.length; i += SCORE_BATCH_SIZE) {
+    const batch = agentIds.slice(i, i + SCORE_BATCH_SIZE);
+    const results = await Promise.all(
+      batch.map(async (agentId) => computeTrustScore(await getTrustScoreInputs(BigInt(agentId), blockNumber)).score)
+    );
+    batch.forEach((agentId, j) => scores.set(agentId, results[j]));
+  }
+  return scores;
+}
+
+/**
+ * Search agents by metadata and on-chain trust state
+ */
+export async function searchAgents(params: AgentSearchParams): Promise<AgentSearchResponse> {
+  const head = await getChainHead();
+  const blockNumber = head.blockNumber;
+
+  const matches = await searchAgentMetadata({
+    text: params.q,
+    capabilities: params.capabilities,
+    limit: MAX_CANDIDATES + 1,
+  });
+  let truncated = matches.length > MAX_CANDIDATES;
+  if (truncated) matches.pop();
+  if (matches.length === 0) {
+    return {
+      agents: [],
+      total: 0,
+      limit: params.limit,
+      offset: params.offset,
+      truncated: false,
+      blockNumber: blockNumber.toString(),
+    };
+  }
+
+  const state = await publicClient.multicall({
+    contracts: matches.flatMap(({ agent_id }) => {
+      const agentId = BigInt(agent_id);
+      return [
+        { address: CONTRACTS.trustfulValidator, abi: TrustfulValidatorAbi, functionName: 'isValidated', args: [agentId] },
+        { address: CONTRACTS.collateralVault, abi: CollateralVaultAbi, functionName: 'getAccount', args: [agentId] },
+        { address: CONTRACTS.claimsManager, abi: ClaimsManagerAbi, functionName: 'getClaimStats', args: [agentId] },
+        { address: CONTRACTS.councilRegistry, abi: CouncilRegistryAbi, functionName: 'getAgentCouncil', args: [agentId] },
+      ] as const;
+    }),
+    blockNumber,
+  });
+
+  const councilIds = [
+    ...new Set(
+      matches
+        .map((_, i) => state[i * 4 + 3].result as Hex | undefined)
+        .filter((id): id is Hex => !!id && id !== ZERO_BYTES32)
+    ),
+  ];
+  const councilResults = await publicClient.multicall({
+    contracts: councilIds.map((councilId) => ({
+      address: CONTRACTS.councilRegistry,
+      abi: CouncilRegistryAbi,
+      functionName: 'getCouncil',
+      args: [councilId],
+    }) as const),
+    blockNumber,
+  });
+  const councils = new Map(
+    councilIds.flatMap((id, i) => {
+      const council = councilResults[i].result;
+      return council ? [[id, { councilId: id, name: council.name, vertical: council.vertical }] as const] : [];
+    })
+  );
+
+  const candidates: Candidate[] = matches.map((row, i) => {
+    const isValidated = state[i * 4].result === true;
+    const account = state[i * 4 + 1].result as { balance: bigint; withdrawalInitiatedAt: bigint } | undefined;
+    const stats = state[i * 4 + 2].result as
+      | { totalClaims: bigint; approvedClaims: bigint; rejectedClaims: bigint; pendingClaims: bigint }
+      | undefined;
+    const councilId = state[i * 4 + 3].result as Hex | undefined;
+    const balance = account?.balance ?? 0n;
+    const claims = {
+      total: Number(stats?.totalClaims ?? 0n),
+      approved: Number(stats?.approvedClaims ?? 0n),
+      rejected: Number(stats?.rejectedClaims ?? 0n),
+      pending: Number(stats?.pendingClaims ?? 0n),
+    };
+
+    return {
+      agentId: row.agent_id,
+      name: row.name,
+      description: row.description,
+      capabilities: row.capabilities ?? [],
+      websiteUrl: row.website_url,
+      owner: row.owner_address,
+      isValidated,
+      collateral: {
+        amount: formatUnits(balance, USDC_DECIMALS),
+        withdrawalPending: (account?.withdrawalInitiatedAt ?? 0n) > 0n,
+      },
+      council: (councilId && councils.get(councilId)) || null,
+      claims,
+      relevance: row.rank,
+      balance,
+      claimRecord: claimRecord(claims.approved, claims.rejected),
+    };
+  });
+
+  const vertical = params.vertical?.toLowerCase();
+  const filtered = candidates.filter((agent) =>
+    (!params.validatedOnly || agent.isValidated) &&
+    (params.minCollateral === undefined || agent.balance >= params.minCollateral) &&
+    (!params.noPendingWithdrawal || !agent.collateral.withdrawalPending) &&
+    (!vertical || agent.council?.vertical.toLowerCase() === vertical)
+  );
+
+  // Sorting by score needs every ranked agent's score; otherwise only the page's
+  let scores: Map<string, number> | null = null;
+  let ranked = filtered;
+  if (params.sort === 'score') {
+    truncated ||= filtered.length > MAX_SCORED_CANDIDATES;
+    ranked = [...filtered]
+      .sort((a, b) => b.relevance - a.relevance || Number(BigInt(a.agentId) - BigInt(b.agentId)))
+      .slice(0, MAX_SCORED_CANDIDATES);
+    scores = await scoreAgents(ranked.map((a) => a.agentId), blockNumber);
+  }
+
+  const direction = params.order === 'asc' ? 1 : -1;
+  const compare = (a: Candidate, b: Candidate): number => {
+    switch (params.sort) {
+      case 'collateral':
+        return a.balance === b.balance ? 0 : a.balance > b.balance ? 1 : -1;
+      case 'score':
+        return scores!.get(a.agentId)! - scores!.get(b.agentId)!;
+      case 'claimRecord':
+        // Ties go to the agent with more decided claims behind its record
+        return a.claimRecord - b.claimRecord ||
+          (a.claims.approved + a.claims.rejected) - (b.claims.approved + b.claims.rejected);
+      case 'relevance':
+        return a.relevance - b.relevance;
+    }
+  };
+  // agentId keeps the order stable across pages
+  ranked.sort((a, b) => direction * compare(a, b) || Number(BigInt(a.agentId) - BigInt(b.agentId)));
+
+  const page = ranked.slice(params.offset, params.offset + params.limit);
+  if (!scores) {
+    scores = await scoreAgents(page.map((a) => a.agentId), blockNumber);
+  }
+
+  return {
+    agents: page.map(({ balance: _balance, claimRecord: _claimRecord, ...agent }) => ({
+      ...agent,
+      score: scores!.get(agent.agentId) ?? 0,
+    })),
+    total: ranked.length,
+    limit: params.limit,
+    offset: params.offset,
+    truncated,
+    blockNumber: blockNumber.toString(),
+  };
+}
@@ -0,0 +1,107 @@
+import { keccak256, toBytes, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  CHAIN_ID,
+  TRUSTFUL_VALIDATOR_ADDRESS,
+  VALIDATION_SIGNER_PRIVATE_KEY,
+  publicClient,
+} from '../config/index.js';
+import { canonicalize } from './canonical.js';
+
+// ============================================================================
+// Signed Validation Responses
+// ============================================================================
+// validation.json, trust-info.json and score.json are read at one pinned
+// block and carry an EIP-712 proof over the keccak256 of their canonical JSON,
+// so relying agents don't have to trust TLS or this server. The types, domain and
+// canonical encoding must stay identical to packages/sdk/src/validation.ts
+// (verifyValidationResponse); this service cannot import the SDK.
+
+export type ValidationDocumentKind = 'validation' | 'trust-info' | 'score';
+
+export interface ValidationProof {
+  type: 'EIP712';
+  kind: ValidationDocumentKind;
+  signer: Address;
+  documentHash: Hex;
+  signature: Hex;
+}
+
+export interface ChainHead {
+  blockNumber: bigint;
+  blockHash: Hex;
+}
+
+export const ValidationDocumentTypes = {
+  ValidationDocument: [
+    { name: 'kind', type: 'string' },
+    { name: 'agentId', type: 'uint256' },
+    { name: 'isValidated', type: 'bool' },
+    { name: 'blockNumber', type: 'uint256' },
+    { name: 'blockHash', type: 'bytes32' },
+    { name: 'documentHash', type: 'bytes32' },
+  ],
+} as const;
+
+export const validationDomain = {
+  name: 'Trustful Agents Validation',
+  version: '1',
+  chainId: CHAIN_ID,
+  verifyingContract: TRUSTFUL_VALIDATOR_ADDRESS,
+} as const;
+
+const signer = VALIDATION_SIGNER_PRIVATE_KEY
+  ? privateKeyToAccount(VALIDATION_SIGNER_PRIVATE_KEY as Hex)
+  : null;
+
+if (!signer) {
+  console.warn('VALIDATION_SIGNER_PRIVATE_KEY not set - validation responses will be unsigned');
+}
+
+/**
+ * Address that signs validation responses, or null when signing is disabled
+ */
+export function getValidationSigner(): Address | null {
+  return signer?.address ?? null;
+}
+
+/**
+ * Latest block, to pin every read of a response to
+ */
+export async function getChainHead(): Promise<ChainHead> {
+  const block = await publicClient.getBlock();
+  return { blockNumber: block.number, blockHash: block.hash };
+}
+
+/**
+ * Attach an EIP-712 proof to a response document. The document must already
+ * contain the agentId, blockNumber and blockHash it was read at.
+ * @returns The document unchanged when no signer is configured
+ */
+export async function signValidationDocument<T extends { agentId: string; blockNumber: string; blockHash: Hex }>(
+  kind: ValidationDocumentKind,
+  document: T,
+  isValidated: boolean
+): Promise<T & { proof?: ValidationProof }> {
+  if (!signer) return document;
+
+  const documentHash = keccak256(toBytes(canonicalize(document)));
+  const signature = await signer.signTypedData({
+    domain: validationDomain,
+    types: ValidationDocumentTypes,
+    primaryType: 'ValidationDocument',
+    message: {
+      kind,
+      agentId: BigInt(document.agentId),
+      isValidated,
+      blockNumber: BigInt(document.blockNumber),
+      blockHash: document.blockHash,
+      documentHash,
+    },
+  });
+
+  return {
+    ...document,
+    proof: { type: 'EIP712', kind, signer: signer.address, documentHash, signature },
+  };
+}
@@ -0,0 +1,466 @@
+import type pg from 'pg';
+import {
+  concat,
+  createWalletClient,
+  encodeAbiParameters,
+  http,
+  keccak256,
+  parseAbiParameters,
+  toBytes,
+  type Address,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  CHAIN_ID,
+  CLAIMS_MANAGER_ADDRESS,
+  ClaimsManagerAbi,
+  RPC_URL,
+  TRANSCRIPT_ANCHOR_PRIVATE_KEY,
+  chain,
+  publicClient,
+} from '../config/index.js';
+import { query, queryMany, queryOne, transaction } from '../db/index.js';
+import { ZERO_HASH, evidenceMatchesHash, hashMessageContent } from './claim-messages.js';
+
+// ============================================================================
+// Claim Transcripts
+// ============================================================================
+// Each claim's messages form a hash chain: a message's hash covers its content
+// and signature and the hash of the message before it, so editing, inserting
+// or deleting a message breaks every later hash. When the evidence period
+// closes the transcript is frozen: its Merkle root over the message hashes is
+// stored and anchored on-chain, so the record councils vote on can be checked
+// against the chain by anyone holding the export from GET /claims/:id/transcript.
+
+// message_hash = keccak256(abi.encode(...these))
+export const TRANSCRIPT_MESSAGE_PARAMS = 'uint256 claimId, uint256 seq, bytes32 prevHash, string id, address author, string role, string parentId, bytes32 contentHash, bytes32 evidenceHash, uint256 signedTimestamp, bytes signature';
+
+// Anchor transaction calldata = abi.encode(...these)
+export const TRANSCRIPT_ANCHOR_PARAMS = 'bytes32 tag, uint256 chainId, address claimsManager, uint256 claimId, bytes32 root, bytes32 headHash, uint256 messageCount';
+export const TRANSCRIPT_ANCHOR_TAG = keccak256(toBytes('TrustfulClaimTranscript.v1'));
+
+interface ChainedMessageRow {
+  id: string;
+  claim_id: string;
+  parent_id: string | null;
+  author_address: string;
+  author_role: string;
+  content: string;
+  encrypted?: boolean; // Content is ciphertext (services/claim-encryption.ts)
+  evidence_hash: string | null;
+  evidence_data: string | null;
+  signature: string | null;
+  signed_timestamp: string | null;
+  seq: number | null;
+  prev_hash: string | null;
+  message_hash: string | null;
+  created_at: Date;
+}
+
+export interface ClaimTranscriptRow {
+  claim_id: string;
+  root: Hex;
+  head_hash: Hex;
+  message_count: number;
+  frozen_at: Date;
+  anchor_tx_hash: Hex | null;
+  anchor_block: string | null;
+  anchored_at: Date | null;
+  anchor_error: string | null;
+}
+
+/**
+ * Hash of a message at its position in the chain
+ */
+export function computeMessageHash(message: ChainedMessageRow, seq: number, prevHash: Hex): Hex {
+  return keccak256(encodeAbiParameters(parseAbiParameters(TRANSCRIPT_MESSAGE_PARAMS), [
+    BigInt(message.claim_id),
+    BigInt(seq),
+    prevHash,
+    message.id,
+    message.author_address as Address,
+    message.author_role,
+    message.parent_id ?? '',
+    // Recomputed from the content, so edits show up even if content_hash was edited too
+    hashMessageContent(message.content),
+    (message.evidence_hash as Hex | null) ?? ZERO_HASH,
+    BigInt(message.signed_timestamp ?? 0),
+    // Messages from before signing was required have no signature
+    (message.signature as Hex | null) ?? '0x',
+  ]));
+}
+
+// ============================================================================
+// Merkle Tree
+// ============================================================================
+// Leaves are the message hashes in seq order. Pairs are hashed sorted, as in
+// OpenZeppelin's MerkleProof, so proofs verify with MerkleProof.verify; an odd
+// node is carried up to the next level unchanged.
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]));
+}
+
+function merkleLevels(leaves: Hex[]): Hex[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/**
+ * Merkle root of the leaves (the zero hash for an empty transcript)
+ */
+export function merkleRoot(leaves: Hex[]): Hex {
+  if (leaves.length === 0) return ZERO_HASH;
+  const levels = merkleLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Sibling hashes from the leaf at index up to the root
+ */
+export function merkleProof(leaves: Hex[], index: number): Hex[] {
+  const proof: Hex[] = [];
+  for (const level of merkleLevels(leaves).slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+  return proof.reduce(hashPair, leaf) === root;
+}
+
+// ============================================================================
+// Chaining
+// ============================================================================
+
+/**
+ * Take the claim's transcript lock for the rest of the transaction, so only
+ * one writer extends its chain at a time
+ * @returns Whether the transcript is already frozen
+ */
+export async function lockTranscript(client: pg.PoolClient, claimId: string): Promise<boolean> {
+  await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`claim_transcript:${claimId}`]);
+  const frozen = await client.query('SELECT 1 FROM claim_transcripts WHERE claim_id = $1', [claimId]);
+  return frozen.rows.length > 0;
+}
+
+/**
+ * Append a claim's unchained messages to its hash chain, in the order they
+ * were posted. Messages from before chaining existed are chained the first
+ * time this runs for their claim. Must run inside a transaction.
+ */
+export async function chainClaimMessages(client: pg.PoolClient, claimId: string): Promise<void> {
+  await lockTranscript(client, claimId);
+
+  const head = await client.query<ChainedMessageRow>(
+    `SELECT * FROM claim_messages WHERE claim_id = $1 AND seq IS NOT NULL
+     ORDER BY seq DESC LIMIT 1`,
+    [claimId]
+  );
+  const unchained = await client.query<ChainedMessageRow>(
+    `SELECT * FROM claim_messages WHERE claim_id = $1 AND seq IS NULL
+     ORDER BY created_at ASC, id ASC`,
+    [claimId]
+  );
+
+  let seq = head.rows[0] ? head.rows[0].seq! + 1 : 0;
+  let prevHash = (head.rows[0]?.message_hash as Hex | undefined) ?? ZERO_HASH;
+  for (const message of unchained.rows) {
+    const messageHash = computeMessageHash(message, seq, prevHash);
+    await client.query(
+      'UPDATE claim_messages SET seq = $1, prev_hash = $2, message_hash = $3 WHERE id = $4',
+      [seq, prevHash, messageHash, message.id]
+    );
+    seq += 1;
+    prevHash = messageHash;
+  }
+}
+
+// ============================================================================
+// Export & Verification
+// ============================================================================
+
+export interface TranscriptMessage {
+  seq: number;
+  id: string;
+  parentId: string | null;
+  author: string;
+  role: string;
+  content: string;
+  encrypted: boolean;
+  contentHash: Hex;
+  evidenceHash: string | null;
+  signature: string | null;
+  signedTimestamp: number | null;
+  createdAt: Date;
+  prevHash: string;
+  messageHash: string;
+  proof: Hex[];
+}
+
+/**
+ * A claim's full transcript with Merkle proofs, re-verified from the stored
+ * messages. integrity.errors lists every message whose stored hash, chain
+ * link or evidence no longer matches, and root mismatches against the frozen
+ * and anchored root.
+ */
+export async function getTranscript(claimId: string) {
+  const [rows, frozen, unchained] = await Promise.all([
+    queryMany<ChainedMessageRow>(
+      'SELECT * FROM claim_messages WHERE claim_id = $1 AND seq IS NOT NULL ORDER BY seq ASC',
+      [claimId]
+    ),
+    queryOne<ClaimTranscriptRow>('SELECT * FROM claim_transcripts WHERE claim_id = $1', [claimId]),
+    queryOne<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM claim_messages WHERE claim_id = $1 AND seq IS NULL',
+      [claimId]
+    ),
+  ]);
+
+  const errors: string[] = [];
+  let prevHash: Hex = ZERO_HASH;
+  rows.forEach((row, index) => {
+    if (row.seq !== index) {
+      errors.push(`Message ${index} is missing (found seq ${row.seq})`);
+    }
+    if (row.prev_hash !== prevHash) {
+      errors.push(`Message ${row.seq} does not link to the message before it`);
+    }
+    if (computeMessageHash(row, row.seq!, row.prev_hash as Hex) !== row.message_hash) {
+      errors.push(`Message ${row.seq} was modified after it was posted`);
+    }
+    if (row.evidence_data && (!row.evidence_hash || !evidenceMatchesHash(row.evidence_data, row.evidence_hash))) {
+      errors.push(`Evidence of message ${row.seq} does not match its hash`);
+    }
+    prevHash = row.message_hash as Hex;
+  });
+
+  const leaves = rows.map((row) => row.message_hash as Hex);
+  const root = merkleRoot(leaves);
+  if (frozen && merkleRoot(leaves.slice(0, frozen.message_count)) !== frozen.root) {
+    errors.push('Messages differ from the transcript frozen at the end of the evidence period');
+  }
+  if (Number(unchained?.count ?? 0) > 0) {
+    errors.push(`${unchained!.count} message(s) are not yet part of the chain`);
+  }
+
+  const messages: TranscriptMessage[] = rows.map((row, index) => ({
+    seq: row.seq!,
+    id: row.id,
+    parentId: row.parent_id,
+    author: row.author_address,
+    role: row.author_role,
+    content: row.content,
+    encrypted: row.encrypted ?? false,
+    contentHash: hashMessageContent(row.content),
+    evidenceHash: row.evidence_hash,
+    signature: row.signature,
+    signedTimestamp: row.signed_timestamp ? Number(row.signed_timestamp) : null,
+    createdAt: row.created_at,
+    prevHash: row.prev_hash!,
+    messageHash: row.message_hash!,
+    proof: merkleProof(leaves, index),
+  }));
+
+  return {
+    claimId,
+    messageCount: rows.length,
+    root,
+    headHash: prevHash,
+    frozen: frozen ? {
+      root: frozen.root,
+      headHash: frozen.head_hash,
+      messageCount: frozen.message_count,
+      frozenAt: frozen.frozen_at,
+    } : null,
+    anchor: frozen?.anchor_tx_hash ? {
+      chainId: CHAIN_ID,
+      txHash: frozen.anchor_tx_hash,
+      blockNumber: frozen.anchor_block ? Number(frozen.anchor_block) : null,
+      anchoredAt: frozen.anchored_at,
+    } : null,
+    integrity: { valid: errors.length === 0, errors },
+    // What a verifier needs to recompute everything above
+    hashing: {
+      messageHash: `keccak256(abi.encode(${TRANSCRIPT_MESSAGE_PARAMS}))`,
+      contentHash: 'keccak256(utf8(content))',
+      merkle: 'keccak256 of sorted pairs (OpenZeppelin MerkleProof); odd nodes carried up',
+      anchorCalldata: `abi.encode(${TRANSCRIPT_ANCHOR_PARAMS})`,
+      anchorTag: TRANSCRIPT_ANCHOR_TAG,
+    },
+    messages,
+  };
+}
+
+// ============================================================================
+// Freezing & Anchoring
+// ============================================================================
+
+const anchorAccount = TRANSCRIPT_ANCHOR_PRIVATE_KEY
+  ? privateKeyToAccount(TRANSCRIPT_ANCHOR_PRIVATE_KEY as Hex)
+  : null;
+
+const anchorClient = anchorAccount
+  ? createWalletClient({ account: anchorAccount, chain, transport: http(RPC_URL) })
+  : null;
+
+/**
+ * Chain any remaining messages and store the transcript's root. A claim's
+ * transcript is frozen once; later calls return the stored root.
+ */
+export async function freezeTranscript(claimId: string): Promise<ClaimTranscriptRow> {
+  return transaction(async (client) => {
+    await chainClaimMessages(client, claimId);
+
+    const hashes = await client.query<{ message_hash: Hex }>(
+      'SELECT message_hash FROM claim_messages WHERE claim_id = $1 ORDER BY seq ASC',
+      [claimId]
+    );
+    const leaves = hashes.rows.map((row) => row.message_hash);
+
+    const result = await client.query<ClaimTranscriptRow>(
+      `INSERT INTO claim_transcripts (claim_id, root, head_hash, message_count)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (claim_id) DO UPDATE SET claim_id = claim_transcripts.claim_id
+       RETURNING *`,
+      [claimId, merkleRoot(leaves), leaves[leaves.length - 1] ?? ZERO_HASH, leaves.length]
+    );
+    return result.rows[0];
+  });
+}
+
+/**
+ * Record a frozen root on-chain as a zero-value transaction from the anchor
+ * account to itself, and store the transaction once it is mined
+ */
+async function anchorTranscript(transcript: ClaimTranscriptRow): Promise<void> {
+  if (!anchorClient || !anchorAccount) return;
+
+  let txHash = transcript.anchor_tx_hash;
+  if (!txHash) {
+    try {
+      txHash = await anchorClient.sendTransaction({
+        to: anchorAccount.address,
+        value: 0n,
+        data: encodeAbiParameters(parseAbiParameters(TRANSCRIPT_ANCHOR_PARAMS), [
+          TRANSCRIPT_ANCHOR_TAG,
+          BigInt(CHAIN_ID),
+          CLAIMS_MANAGER_ADDRESS,
+          BigInt(transcript.claim_id),
+          transcript.root,
+          transcript.head_hash,
+          BigInt(transcript.message_count),
+        ]),
+      });
+    } catch (error) {
+      await query('UPDATE claim_transcripts SET anchor_error = $1 WHERE claim_id = $2', [
+        error instanceof Error ? error.message.slice(0, 1000) : String(error),
+        transcript.claim_id,
+      ]);
+      throw error;
+    }
+    // Stored before waiting, so a restart never sends a second anchor
+    await query('UPDATE claim_transcripts SET anchor_tx_hash = $1, anchor_error = NULL WHERE claim_id = $2', [
+      txHash,
+      transcript.claim_id,
+    ]);
+  }
+
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash }).catch(() => null);
+  if (!receipt) return; // Not mined yet; checked again on the next run
+
+  if (receipt.status !== 'success') {
+    // Cleared so the next run sends a new anchor
+    await query(
+      'UPDATE claim_transcripts SET anchor_tx_hash = NULL, anchor_error = $1 WHERE claim_id = $2',
+      [`Anchor transaction ${txHash} reverted`, transcript.claim_id]
+    );
+    return;
+  }
+  await query(
+    'UPDATE claim_transcripts SET anchor_block = $1, anchored_at = NOW() WHERE claim_id = $2',
+    [receipt.blockNumber.toString(), transcript.claim_id]
+  );
+}
+
+/**
+ * Background job: freeze the transcripts of claims whose evidence period has
+ * closed, then anchor frozen roots that are not yet on-chain
+ * @returns How many transcripts were frozen and anchored
+ */
+export async function processTranscripts(): Promise<{ frozen: number; anchored: number }> {
+  let frozen = 0;
+  let anchored = 0;
+
+  // Claims known to be in their evidence period are left out before the
+  // limit, so they can't crowd out claims that are ready to freeze
+  const open = await queryMany<{ claim_id: string }>(
+    `SELECT m.claim_id FROM (SELECT DISTINCT claim_id FROM claim_messages) m
+     LEFT JOIN claim_transcripts t ON t.claim_id = m.claim_id
+     LEFT JOIN claim_evidence_deadlines d ON d.claim_id = m.claim_id
+     WHERE t.claim_id IS NULL
+       AND (d.evidence_deadline IS NULL OR d.evidence_deadline <= NOW())
+     ORDER BY d.evidence_deadline ASC NULLS FIRST, m.claim_id ASC
+     LIMIT 50`
+  );
+  for (const { claim_id } of open) {
+    try {
+      const claim = await publicClient.readContract({
+        address: CLAIMS_MANAGER_ADDRESS,
+        abi: ClaimsManagerAbi,
+        functionName: 'getClaim',
+        args: [BigInt(claim_id)],
+      });
+      const now = Math.floor(Date.now() / 1000);
+      if (Number(claim.status) === 0 && now < Number(claim.evidenceDeadline)) {
+        await query(
+          `INSERT INTO claim_evidence_deadlines (claim_id, evidence_deadline)
+           VALUES ($1, to_timestamp($2))
+           ON CONFLICT (claim_id) DO UPDATE SET
+             evidence_deadline = EXCLUDED.evidence_deadline,
+             checked_at = NOW()`,
+          [claim_id, Number(claim.evidenceDeadline)]
+        );
+        continue;
+      }
+
+      await freezeTranscript(claim_id);
+      await query('DELETE FROM claim_evidence_deadlines WHERE claim_id = $1', [claim_id]);
+      frozen += 1;
+    } catch (error) {
+      console.error(`Error freezing transcript of claim ${claim_id}:`, error);
+    }
+  }
+
+  if (!anchorClient) return { frozen, anchored };
+
+  const unanchored = await queryMany<ClaimTranscriptRow>(
+    'SELECT * FROM claim_transcripts WHERE anchor_block IS NULL ORDER BY frozen_at ASC LIMIT 20'
+  );
+  for (const transcript of unanchored) {
+    try {
+      await anchorTranscript(transcript);
+      const updated = await queryOne<ClaimTranscriptRow>(
+        'SELECT * FROM claim_transcripts WHERE claim_id = $1',
+        [transcript.claim_id]
+      );
+      if (updated?.anchor_block) anchored += 1;
+    } catch (error) {
+      console.error(`Error anchoring transcript of claim ${transcript.claim_id}:`, error);
+    }
+  }
+
+  return { frozen, anchored };
+}
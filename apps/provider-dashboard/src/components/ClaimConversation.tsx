@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useSignMessage, useSignTypedData } from 'wagmi'
 import { 
   MessageSquare, 
   Reply, 
@@ -7,14 +8,39 @@ import {
   Loader2,
   FileText,
   ExternalLink,
+  Download,
   User,
   Bot,
   Shield,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Lock
 } from 'lucide-react'
 import { API_BASE_URL } from '../config/contracts'
 import { shortenAddress } from '../lib/utils'
+import { buildClaimAccessTypedData, buildClaimMessageTypedData } from '../lib/claimMessages'
+import {
+  ACCEPTED_EVIDENCE_TYPES,
+  MAX_STORED_EVIDENCE_SIZE,
+  downloadStoredEvidence,
+  fetchClaimMessages,
+  uploadEvidence,
+  type ClaimAccessGrant
+} from '../lib/evidence'
+import {
+  createContentKey,
+  decryptClaimMessage,
+  decryptEvidenceFile,
+  encryptEvidenceFile,
+  encryptMessageContent,
+  fetchClaimKeyStatus,
+  rewrapMissingKeys,
+  unlockClaimKey,
+  wrapContentKey,
+  type ClaimKey,
+  type EncryptedPayload,
+  type WrappedKey
+} from '../lib/claimEncryption'
 
 // Types
 export type AuthorRole = 'claimer' | 'provider' | 'councilor'
@@ -32,6 +58,11 @@ export interface ClaimMessage {
   evidence_size: number | null
   created_at: string
   replies: ClaimMessage[]
+  signature?: string | null
+  content_hash?: string | null
+  signed_timestamp?: string | null
+  encrypted?: boolean
+  wrapped_keys?: WrappedKey[]
 }
 
 interface ConversationProps {
@@ -46,8 +77,6 @@ interface ConversationProps {
   onMessagePosted?: () => void
 }
 
-const MAX_FILE_SIZE = 10240 // 10KB
-
 // Role colors and icons
 const roleConfig: Record<AuthorRole, { color: string; bgColor: string; icon: typeof User; label: string }> = {
   claimer: { color: 'text-warning', bgColor: 'bg-warning/20', icon: User, label: 'Claimer' },
@@ -65,61 +94,8 @@ function ipfsToHttp(uri: string | null | undefined): string | null {
   return uri
 }
 
-// Hash file using keccak256
-async function hashFile(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer()
-  const { keccak256 } = await import('viem')
-  return keccak256(new Uint8Array(buffer))
-}
-
-// Upload file to IPFS via Pinata (direct)
-async function uploadToIPFS(file: File): Promise<{ hash: string; uri: string } | null> {
-  const pinataApiKey = import.meta.env.VITE_PINATA_API_KEY
-  const pinataSecretKey = import.meta.env.VITE_PINATA_SECRET_KEY
-  
-  if (!pinataApiKey || !pinataSecretKey) {
-    console.error('VITE_PINATA_API_KEY or VITE_PINATA_SECRET_KEY not configured')
-    return null
-  }
-  
-  try {
-    const formData = new FormData()
-    formData.append('file', file)
-    
-    // Add metadata
-    const metadata = JSON.stringify({
-      name: file.name,
-      keyvalues: {
-        type: 'evidence',
-        timestamp: Date.now().toString()
-      }
-    })
-    formData.append('pinataMetadata', metadata)
-
-    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
-      method: 'POST',
-      headers: {
-        'pinata_api_key': pinataApiKey,
-        'pinata_secret_api_key': pinataSecretKey
-      },
-      body: formData,
-    })
-
-    if (!response.ok) {
-      console.error('Pinata upload failed:', await response.text())
-      return null
-    }
-
-    const data = await response.json()
-    const cid = data.IpfsHash
-    return {
-      hash: cid,
-      uri: `ipfs://${cid}`,
-    }
-  } catch (error) {
-    console.error('IPFS upload error:', error)
-    return null
-  }
+function flattenMessages(list: ClaimMessage[]): ClaimMessage[] {
+  return list.flatMap(m => [m, ...flattenMessages(m.replies || [])])
 }
 
 export default function ClaimConversation({
@@ -136,6 +112,8 @@ export default function ClaimConversation({
   const [messages, setMessages] = useState<ClaimMessage[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  // Set when the conversation is private and needs a ClaimAccess grant
+  const [accessRequired, setAccessRequired] = useState(false)
   
   // Composer state
   const [replyingTo, setReplyingTo] = useState<string | null>(null)
@@ -143,6 +121,16 @@ export default function ClaimConversation({
   const [evidenceFile, setEvidenceFile] = useState<File | null>(null)
   const [uploading, setUploading] = useState(false)
   const [posting, setPosting] = useState(false)
+  const { signTypedDataAsync } = useSignTypedData()
+  const { signMessageAsync } = useSignMessage()
+  const accessGrant = useRef<ClaimAccessGrant | null>(null)
+
+  // End-to-end encryption: the unlocked wallet key, and what it has decrypted
+  const [claimKey, setClaimKey] = useState<ClaimKey | null>(null)
+  const [decrypted, setDecrypted] = useState<Record<string, EncryptedPayload>>({})
+  const [encrypt, setEncrypt] = useState(false)
+  const [unlocking, setUnlocking] = useState(false)
+  const contentKeys = useRef(new Map<string, CryptoKey>())
 
   // Create a "virtual" first message from the description
   const descriptionMessage: ClaimMessage | null = initialDescription ? {
@@ -164,14 +152,16 @@ export default function ClaimConversation({
   const allMessages = descriptionMessage 
     ? [descriptionMessage, ...messages]
     : messages
+  const hasEncrypted = flattenMessages(messages).some(m => m.encrypted)
 
   // Fetch messages
   const fetchMessages = useCallback(async () => {
     try {
-      const res = await fetch(`${API_BASE_URL}/claims/${claimId}/messages`)
-      if (!res.ok) throw new Error('Failed to fetch messages')
-      const data = await res.json()
-      setMessages(data.messages || [])
+      const grant = accessGrant.current
+      const valid = grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60
+      const fetched = await fetchClaimMessages<ClaimMessage>(claimId, valid ? grant : null)
+      setAccessRequired(fetched === null)
+      setMessages(fetched || [])
       setError(null)
     } catch (err) {
       console.error('Error fetching messages:', err)
@@ -179,7 +169,7 @@ export default function ClaimConversation({
     } finally {
       setLoading(false)
     }
-  }, [claimId])
+  }, [claimId, currentUserAddress])
 
   useEffect(() => {
     fetchMessages()
@@ -191,52 +181,207 @@ export default function ClaimConversation({
     }
   }, [fetchMessages, isEvidencePeriod])
 
+  // Another wallet must not see what this one decrypted
+  useEffect(() => {
+    setClaimKey(null)
+    setDecrypted({})
+    contentKeys.current.clear()
+  }, [currentUserAddress])
+
+  // Once one message is encrypted, keep the conversation encrypted by default
+  useEffect(() => {
+    if (hasEncrypted) setEncrypt(true)
+  }, [hasEncrypted])
+
+  // Decrypt new messages, then share our own messages' keys with recipients missing them
+  useEffect(() => {
+    if (!claimKey) return
+    let cancelled = false
+
+    const decryptMessages = async () => {
+      const results: Record<string, EncryptedPayload> = {}
+      for (const m of flattenMessages(messages)) {
+        if (!m.encrypted || contentKeys.current.has(m.id)) continue
+        try {
+          const { payload, contentKey } = await decryptClaimMessage(m, claimKey)
+          contentKeys.current.set(m.id, contentKey)
+          results[m.id] = payload
+        } catch (err) {
+          console.warn(`Could not decrypt message ${m.id}:`, err)
+        }
+      }
+      if (cancelled) return
+      if (Object.keys(results).length > 0) {
+        setDecrypted(prev => ({ ...prev, ...results }))
+      }
+
+      const grant = accessGrant.current
+      if (contentKeys.current.size > 0 && grant && grant.expires > Date.now() / 1000 + 60) {
+        await rewrapMissingKeys(claimId, contentKeys.current, grant)
+          .catch(err => console.error('Error sharing message keys:', err))
+      }
+    }
+
+    decryptMessages()
+    return () => { cancelled = true }
+  }, [claimKey, messages, claimId])
+
+  // Evidence store access is granted by a signature, reused until it nearly expires
+  const getAccessGrant = async (): Promise<ClaimAccessGrant> => {
+    const grant = accessGrant.current
+    if (grant && grant.address === currentUserAddress && grant.expires > Date.now() / 1000 + 60) {
+      return grant
+    }
+    if (!currentUserAddress) throw new Error('Connect your wallet to access evidence')
+    const { typedData, expires } = buildClaimAccessTypedData(claimId, currentUserAddress)
+    const signature = await signTypedDataAsync(typedData)
+    accessGrant.current = { address: currentUserAddress, expires, signature }
+    return accessGrant.current
+  }
+
+  const getClaimKey = async (): Promise<ClaimKey> => {
+    if (!currentUserAddress) throw new Error('Connect your wallet to use encryption')
+    const key = await unlockClaimKey(
+      currentUserAddress,
+      signMessageAsync,
+      typedData => signTypedDataAsync(typedData)
+    )
+    setClaimKey(key)
+    return key
+  }
+
+  const handleViewConversation = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      await getAccessGrant()
+      await fetchMessages()
+    } catch (err) {
+      console.error('Error signing claim access:', err)
+      setError(err instanceof Error ? err.message : 'Failed to access conversation')
+      setLoading(false)
+    }
+  }
+
+  const handleUnlock = async () => {
+    setUnlocking(true)
+    setError(null)
+    try {
+      // The grant first, so keys can be shared as soon as messages decrypt
+      await getAccessGrant()
+      await getClaimKey()
+    } catch (err) {
+      console.error('Error unlocking encryption key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unlock encrypted messages')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const handleDownloadEvidence = async (message: ClaimMessage) => {
+    if (!message.evidence_hash) return
+    try {
+      let blob = await downloadStoredEvidence(claimId, message.evidence_hash, await getAccessGrant())
+      const evidence = decrypted[message.id]?.evidence
+      const contentKey = contentKeys.current.get(message.id)
+      if (message.encrypted) {
+        if (!evidence || !contentKey) throw new Error('Decrypt the message before downloading its evidence')
+        blob = await decryptEvidenceFile(blob, contentKey, evidence.mimetype)
+      }
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = evidence?.filename || message.evidence_filename || 'evidence'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error downloading evidence:', err)
+      setError(err instanceof Error ? err.message : 'Failed to download evidence')
+    }
+  }
+
   const handleSubmit = async () => {
     if (!content.trim() || !currentUserAddress || !currentUserRole) return
     
     setPosting(true)
     
     try {
-      let evidenceData: { hash?: string; uri?: string; filename?: string; size?: number } = {}
+      // Encrypted messages get a fresh content key, shared with every recipient
+      const contentKey = encrypt ? await createContentKey() : null
+      if (contentKey) await getClaimKey()
+
+      let evidenceData: { hash?: string; filename?: string; mimetype?: string; size?: number } = {}
+      let evidenceInfo: EncryptedPayload['evidence']
       
       // Upload evidence if provided (only for claimer/provider)
       if (evidenceFile && currentUserRole !== 'councilor') {
         setUploading(true)
         
         // Check file size
-        if (evidenceFile.size > MAX_FILE_SIZE) {
-          setError(`File too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`)
+        if (evidenceFile.size > MAX_STORED_EVIDENCE_SIZE) {
+          setError(`File too large. Maximum size is ${MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB`)
           setUploading(false)
           setPosting(false)
           return
         }
         
-        const hash = await hashFile(evidenceFile)
-        const ipfsResult = await uploadToIPFS(evidenceFile)
-        
-        if (ipfsResult) {
+        try {
+          const file = contentKey ? await encryptEvidenceFile(evidenceFile, contentKey) : evidenceFile
+          const stored = await uploadEvidence(claimId, file, await getAccessGrant())
           evidenceData = {
-            hash,
-            uri: ipfsResult.uri,
+            hash: stored.keccak256,
+            filename: stored.filename,
+            mimetype: stored.mimetype,
+            size: stored.size
+          }
+          evidenceInfo = {
             filename: evidenceFile.name,
+            mimetype: evidenceFile.type || 'application/octet-stream',
             size: evidenceFile.size
           }
+        } finally {
+          setUploading(false)
+        }
+      }
+      
+      let body = content.trim()
+      let encryption = {}
+      if (contentKey) {
+        const { recipients } = await fetchClaimKeyStatus(claimId, await getAccessGrant())
+        body = await encryptMessageContent({ content: content.trim(), evidence: evidenceInfo }, contentKey)
+        encryption = {
+          encrypted: true,
+          keys: await wrapContentKey(contentKey, recipients)
         }
-        setUploading(false)
       }
       
+      // Sign the message so the API can verify it came from this wallet
+      const { typedData, timestamp } = buildClaimMessageTypedData({
+        claimId,
+        parentId: replyingTo,
+        role: currentUserRole,
+        content: body,
+        evidenceHash: evidenceData.hash
+      })
+      const signature = await signTypedDataAsync(typedData)
+      
       const res = await fetch(`${API_BASE_URL}/claims/${claimId}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           authorAddress: currentUserAddress,
           authorRole: currentUserRole,
-          content: content.trim(),
+          content: body,
           parentId: replyingTo,
           evidenceHash: evidenceData.hash,
-          evidenceUri: evidenceData.uri,
           evidenceFilename: evidenceData.filename,
-          evidenceSize: evidenceData.size
+          evidenceMimetype: evidenceData.mimetype,
+          evidenceSize: evidenceData.size,
+          ...encryption,
+          signature,
+          timestamp
         })
       })
       
@@ -285,10 +430,42 @@ export default function ClaimConversation({
         </div>
       )}
 
+      {hasEncrypted && !claimKey && currentUserRole && (
+        <div className="flex items-center justify-between gap-4 p-3 bg-surface-800 border border-surface-700 rounded-lg text-sm text-surface-300">
+          <span className="flex items-center gap-2">
+            <Lock className="w-4 h-4" />
+            Some messages are end-to-end encrypted.
+          </span>
+          <button onClick={handleUnlock} disabled={unlocking} className="btn btn-secondary text-sm">
+            {unlocking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                Unlocking...
+              </>
+            ) : 'Decrypt messages'}
+          </button>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-8">
           <Loader2 className="w-6 h-6 text-accent animate-spin" />
         </div>
+      ) : accessRequired ? (
+        <div className="text-center py-8 text-surface-500">
+          <Lock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>This conversation is only visible to the claim's participants</p>
+          {currentUserAddress ? (
+            <button
+              onClick={handleViewConversation}
+              className="btn btn-secondary text-sm mt-3"
+            >
+              Sign to view
+            </button>
+          ) : (
+            <p className="text-sm mt-1">Connect your wallet to view it</p>
+          )}
+        </div>
       ) : (
         <>
           {/* Messages */}
@@ -309,6 +486,8 @@ export default function ClaimConversation({
                   claimantAddress={claimantAddress}
                   providerAddress={providerAddress}
                   onReply={canPost && message.id !== 'initial-description' ? setReplyingTo : undefined}
+                  onDownloadEvidence={handleDownloadEvidence}
+                  decrypted={decrypted}
                   isInitialDescription={message.id === 'initial-description'}
                   depth={0}
                 />
@@ -354,6 +533,7 @@ export default function ClaimConversation({
                         <input
                           type="file"
                           className="hidden"
+                          accept={ACCEPTED_EVIDENCE_TYPES}
                           onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)}
                           disabled={posting}
                         />
@@ -367,6 +547,19 @@ export default function ClaimConversation({
                         Remove
                       </button>
                     )}
+                    <label
+                      className="flex items-center gap-1 text-sm text-surface-400 cursor-pointer"
+                      title="Only the claim parties and council can read encrypted messages"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={encrypt}
+                        onChange={(e) => setEncrypt(e.target.checked)}
+                        disabled={posting}
+                      />
+                      <Lock className="w-3 h-3" />
+                      Encrypt
+                    </label>
                   </div>
                   
                   <button
@@ -388,9 +581,9 @@ export default function ClaimConversation({
                   </button>
                 </div>
                 
-                {evidenceFile && evidenceFile.size > MAX_FILE_SIZE && (
+                {evidenceFile && evidenceFile.size > MAX_STORED_EVIDENCE_SIZE && (
                   <p className="text-danger text-sm">
-                    File too large ({(evidenceFile.size / 1024).toFixed(1)}KB). Maximum is {MAX_FILE_SIZE / 1024}KB.
+                    File too large ({(evidenceFile.size / 1024 / 1024).toFixed(1)}MB). Maximum is {MAX_STORED_EVIDENCE_SIZE / 1024 / 1024}MB.
                   </p>
                 )}
               </div>
@@ -408,6 +601,8 @@ function MessageThread({
   claimantAddress,
   providerAddress,
   onReply,
+  onDownloadEvidence,
+  decrypted,
   isInitialDescription,
   depth 
 }: { 
@@ -415,6 +610,8 @@ function MessageThread({
   claimantAddress: string
   providerAddress: string
   onReply?: (id: string) => void
+  onDownloadEvidence: (message: ClaimMessage) => void
+  decrypted: Record<string, EncryptedPayload>
   isInitialDescription?: boolean
   depth: number
 }) {
@@ -423,6 +620,11 @@ function MessageThread({
   const Icon = config.icon
   
   const hasReplies = message.replies && message.replies.length > 0
+
+  // Encrypted messages show nothing until they are decrypted
+  const plaintext = message.encrypted ? decrypted[message.id] : null
+  const evidenceFilename = message.encrypted ? plaintext?.evidence?.filename : message.evidence_filename
+  const evidenceSize = message.encrypted ? plaintext?.evidence?.size : message.evidence_size
   
   // Determine display name
   const getDisplayName = () => {
@@ -454,6 +656,11 @@ function MessageThread({
               <span className="text-surface-500 text-xs ml-2">
                 {new Date(message.created_at).toLocaleString()}
               </span>
+              {message.encrypted && (
+                <span title="End-to-end encrypted">
+                  <Lock className="w-3 h-3 inline ml-2 text-surface-500" />
+                </span>
+              )}
             </div>
           </div>
           
@@ -469,7 +676,11 @@ function MessageThread({
         </div>
         
         {/* Content */}
-        <p className="text-surface-200 whitespace-pre-wrap">{message.content}</p>
+        {message.encrypted && !plaintext ? (
+          <p className="text-surface-500 italic">Encrypted message</p>
+        ) : (
+          <p className="text-surface-200 whitespace-pre-wrap">{plaintext ? plaintext.content : message.content}</p>
+        )}
         
         {/* Evidence attachment */}
         {message.evidence_uri && (
@@ -497,6 +708,27 @@ function MessageThread({
             </div>
           </div>
         )}
+        
+        {/* Evidence attachment - in the evidence store, fetched on demand */}
+        {!message.evidence_uri && message.evidence_hash && evidenceFilename && (
+          <div className="mt-3 p-3 bg-surface-900 rounded border border-surface-700">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-accent" />
+              <span className="text-sm text-surface-300">{evidenceFilename}</span>
+              {evidenceSize && (
+                <span className="text-xs text-surface-500">
+                  ({(evidenceSize / 1024).toFixed(1)}KB)
+                </span>
+              )}
+              <button
+                onClick={() => onDownloadEvidence(message)}
+                className="text-accent hover:text-accent/80 ml-auto flex items-center gap-1 text-sm"
+              >
+                <Download className="w-3 h-3" /> Download
+              </button>
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Replies toggle */}
@@ -520,6 +752,8 @@ function MessageThread({
               claimantAddress={claimantAddress}
               providerAddress={providerAddress}
               onReply={onReply}
+              onDownloadEvidence={onDownloadEvidence}
+              decrypted={decrypted}
               isInitialDescription={false}
               depth={depth + 1}
             />
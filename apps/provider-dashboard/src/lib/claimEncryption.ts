@@ -0,0 +1,281 @@
+import { hexToBytes, toHex, type Hex } from 'viem'
+import { API_BASE_URL } from '../config/contracts'
+import { buildEncryptionKeyTypedData } from './claimMessages'
+import type { ClaimAccessGrant } from './evidence'
+
+// End-to-end encryption for claim messages and evidence (WebCrypto; must match
+// the API's services/claim-encryption.ts and the other dashboards):
+// - Each wallet has a P-256 ECDH key pair. The private key is stored by the API
+//   encrypted under a key derived from the wallet's signature of
+//   KEY_UNLOCK_MESSAGE, so it can be unlocked in any browser.
+// - Each message gets a random AES-256-GCM content key, wrapped for every
+//   claim party and council member with a registered key.
+// - Authors re-wrap their messages' content keys for recipients who are
+//   missing one (new council members, or someone who registered a key later).
+//   The API only accepts wraps from a message's author.
+
+export const KEY_UNLOCK_MESSAGE =
+  'Unlock my Trustful Agents claim encryption key.\n\n' +
+  'Only sign this on a Trustful Agents dashboard: this signature decrypts your confidential claim messages.'
+
+export const ENCRYPTED_CONTENT_PREFIX = 'enc:v1:'
+export const ENCRYPTED_EVIDENCE_MIMETYPE = 'application/vnd.trustful.encrypted'
+const ENCRYPTED_EVIDENCE_MAGIC = new TextEncoder().encode('TFENC1')
+
+const ECDH = { name: 'ECDH', namedCurve: 'P-256' } as const
+const AES = { name: 'AES-GCM', length: 256 } as const
+
+export interface ClaimKey {
+  address: string
+  keyId: string
+  publicKey: Hex
+  privateKey: CryptoKey
+}
+
+export interface WrappedKey {
+  recipient: string
+  keyId: string
+  ephemeralPublicKey: string
+  wrappedKey: string
+}
+
+export interface ClaimRecipient {
+  address: string
+  role: string
+  publicKey: Hex | null // null until they register a key
+  keyId: string | null
+}
+
+export interface ClaimKeyStatus {
+  recipients: ClaimRecipient[]
+  missing: { messageId: string; author: string; recipient: string; keyId: string; publicKey: Hex }[]
+}
+
+// What an encrypted message's content decrypts to
+export interface EncryptedPayload {
+  content: string
+  evidence?: { filename: string; mimetype: string; size: number }
+}
+
+// WebCrypto wants buffers backed by a plain ArrayBuffer
+type Bytes = Uint8Array<ArrayBuffer>
+
+type SignMessage = (args: { message: string }) => Promise<string>
+type SignEncryptionKey = (typedData: ReturnType<typeof buildEncryptionKeyTypedData>['typedData']) => Promise<string>
+
+// ============================================================================
+// Encoding & AES-GCM
+// ============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary)
+}
+
+function fromBase64(base64: string): Bytes {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+function fromHex(hex: string): Bytes {
+  return new Uint8Array(hexToBytes(hex as Hex))
+}
+
+// iv || ciphertext
+async function aesEncrypt(key: CryptoKey, data: Bytes): Promise<Bytes> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data))
+  const out = new Uint8Array(iv.length + ciphertext.length)
+  out.set(iv)
+  out.set(ciphertext, iv.length)
+  return out
+}
+
+async function aesDecrypt(key: CryptoKey, data: Bytes): Promise<Bytes> {
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: data.slice(0, 12) }, key, data.slice(12)))
+}
+
+async function hkdfKey(secret: Bytes, salt: Bytes, info: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    material, AES, false, ['encrypt', 'decrypt']
+  )
+}
+
+// ============================================================================
+// Wallet Keys
+// ============================================================================
+
+function accessHeaders(grant: ClaimAccessGrant): Record<string, string> {
+  return {
+    'X-Claim-Access-Address': grant.address,
+    'X-Claim-Access-Expires': grant.expires.toString(),
+    'X-Claim-Access-Signature': grant.signature
+  }
+}
+
+const unlockedKeys = new Map<string, ClaimKey>()
+
+async function registerClaimKey(address: string, backupKey: CryptoKey, signEncryptionKey: SignEncryptionKey): Promise<ClaimKey> {
+  const pair = await crypto.subtle.generateKey(ECDH, true, ['deriveBits'])
+  const publicKey = toHex(new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey)))
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey))
+  const encryptedPrivateKey = toBase64(await aesEncrypt(backupKey, pkcs8))
+
+  const { typedData, timestamp } = buildEncryptionKeyTypedData(address, publicKey, encryptedPrivateKey)
+  const signature = await signEncryptionKey(typedData)
+  const res = await fetch(`${API_BASE_URL}/claims/encryption-keys`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ address, publicKey, encryptedPrivateKey, timestamp, signature })
+  })
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}))
+    throw new Error(errData.error || 'Failed to register encryption key')
+  }
+  const { keyId } = await res.json()
+  return { address: address.toLowerCase(), keyId, publicKey, privateKey: pair.privateKey }
+}
+
+/**
+ * The wallet's claim encryption key, registering one on first use. Needs one
+ * signature per browser session (two when registering).
+ */
+export async function unlockClaimKey(address: string, signMessage: SignMessage, signEncryptionKey: SignEncryptionKey): Promise<ClaimKey> {
+  const cached = unlockedKeys.get(address.toLowerCase())
+  if (cached) return cached
+
+  const res = await fetch(`${API_BASE_URL}/claims/encryption-keys/${address}`)
+  if (!res.ok && res.status !== 404) throw new Error('Failed to load encryption key')
+  const registered = res.ok ? await res.json() : null
+
+  const signature = await signMessage({ message: KEY_UNLOCK_MESSAGE })
+  const backupKey = await hkdfKey(fromHex(signature), new TextEncoder().encode(address.toLowerCase()), 'trustful-claim-key-backup-v1')
+
+  let key: ClaimKey | null = null
+  if (registered) {
+    try {
+      const pkcs8 = await aesDecrypt(backupKey, fromBase64(registered.encryptedPrivateKey))
+      const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, ECDH, false, ['deriveBits'])
+      key = { address: address.toLowerCase(), keyId: registered.keyId, publicKey: registered.publicKey, privateKey }
+    } catch {
+      // Wallets whose signatures aren't deterministic can't reopen their
+      // backup. A new key is registered; authors re-wrap messages for it.
+    }
+  }
+  if (!key) key = await registerClaimKey(address, backupKey, signEncryptionKey)
+
+  unlockedKeys.set(address.toLowerCase(), key)
+  return key
+}
+
+// ============================================================================
+// Messages & Evidence
+// ============================================================================
+
+// Extractable, so the author can re-wrap it for new recipients
+export function createContentKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(AES, true, ['encrypt', 'decrypt'])
+}
+
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, ephemeralPublicKey: Bytes): Promise<CryptoKey> {
+  const shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256))
+  return hkdfKey(shared, ephemeralPublicKey, 'trustful-claim-message-key-v1')
+}
+
+async function wrapFor(contentKey: CryptoKey, recipient: string, keyId: string, publicKey: Hex): Promise<WrappedKey> {
+  const recipientKey = await crypto.subtle.importKey('raw', fromHex(publicKey), ECDH, false, [])
+  const ephemeral = await crypto.subtle.generateKey(ECDH, true, ['deriveBits'])
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey))
+  const wrappingKey = await deriveWrappingKey(ephemeral.privateKey, recipientKey, ephemeralPublicKey)
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', contentKey))
+  return { recipient, keyId, ephemeralPublicKey: toHex(ephemeralPublicKey), wrappedKey: toBase64(await aesEncrypt(wrappingKey, rawKey)) }
+}
+
+/**
+ * Wrap a content key for every recipient with a registered key
+ */
+export function wrapContentKey(contentKey: CryptoKey, recipients: ClaimRecipient[]): Promise<WrappedKey[]> {
+  return Promise.all(recipients
+    .filter(r => r.publicKey && r.keyId)
+    .map(r => wrapFor(contentKey, r.address, r.keyId!, r.publicKey!)))
+}
+
+export async function encryptMessageContent(payload: EncryptedPayload, contentKey: CryptoKey): Promise<string> {
+  const plaintext = new TextEncoder().encode(JSON.stringify({ v: 1, ...payload }))
+  return ENCRYPTED_CONTENT_PREFIX + toBase64(await aesEncrypt(contentKey, plaintext))
+}
+
+/**
+ * Unwrap a message's content key with the reader's key and decrypt it
+ * @throws If the message has not been wrapped for the reader's current key
+ */
+export async function decryptClaimMessage(
+  message: { content: string; wrapped_keys?: WrappedKey[] }, key: ClaimKey
+): Promise<{ payload: EncryptedPayload; contentKey: CryptoKey }> {
+  const wrap = message.wrapped_keys?.find(w => w.recipient.toLowerCase() === key.address && w.keyId === key.keyId)
+  if (!wrap) throw new Error('This message has not been shared with you yet')
+
+  const ephemeralPublicKey = fromHex(wrap.ephemeralPublicKey)
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublicKey, ECDH, false, [])
+  const wrappingKey = await deriveWrappingKey(key.privateKey, ephemeralKey, ephemeralPublicKey)
+  const rawKey = await aesDecrypt(wrappingKey, fromBase64(wrap.wrappedKey))
+  const contentKey = await crypto.subtle.importKey('raw', rawKey, AES, true, ['encrypt', 'decrypt'])
+
+  const plaintext = await aesDecrypt(contentKey, fromBase64(message.content.slice(ENCRYPTED_CONTENT_PREFIX.length)))
+  const { content, evidence } = JSON.parse(new TextDecoder().decode(plaintext))
+  return { payload: { content, evidence }, contentKey }
+}
+
+export async function encryptEvidenceFile(file: File, contentKey: CryptoKey): Promise<File> {
+  const ciphertext = await aesEncrypt(contentKey, new Uint8Array(await file.arrayBuffer()))
+  return new File([ENCRYPTED_EVIDENCE_MAGIC, ciphertext], 'evidence.enc', { type: ENCRYPTED_EVIDENCE_MIMETYPE })
+}
+
+export async function decryptEvidenceFile(blob: Blob, contentKey: CryptoKey, mimetype: string): Promise<Blob> {
+  const data = new Uint8Array(await blob.arrayBuffer())
+  const plaintext = await aesDecrypt(contentKey, data.slice(ENCRYPTED_EVIDENCE_MAGIC.length))
+  return new Blob([plaintext], { type: mimetype })
+}
+
+// ============================================================================
+// Recipients & Re-wrapping
+// ============================================================================
+
+export async function fetchClaimKeyStatus(claimId: string, grant: ClaimAccessGrant): Promise<ClaimKeyStatus> {
+  const res = await fetch(`${API_BASE_URL}/claims/${claimId}/keys`, { headers: accessHeaders(grant) })
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}))
+    throw new Error(errData.error || 'Failed to load claim keys')
+  }
+  return res.json()
+}
+
+/**
+ * Wrap the content keys of this reader's own messages for recipients missing them
+ * @returns How many wraps were added
+ */
+export async function rewrapMissingKeys(claimId: string, contentKeys: Map<string, CryptoKey>, grant: ClaimAccessGrant): Promise<number> {
+  const { missing } = await fetchClaimKeyStatus(claimId, grant)
+  const wraps: (WrappedKey & { messageId: string })[] = []
+  for (const m of missing) {
+    if (m.author !== grant.address.toLowerCase()) continue
+    const contentKey = contentKeys.get(m.messageId)
+    if (contentKey) wraps.push({ messageId: m.messageId, ...(await wrapFor(contentKey, m.recipient, m.keyId, m.publicKey)) })
+  }
+
+  // The API takes up to 500 wraps per request
+  for (let i = 0; i < wraps.length; i += 500) {
+    const res = await fetch(`${API_BASE_URL}/claims/${claimId}/keys`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...accessHeaders(grant) },
+      body: JSON.stringify({ wraps: wraps.slice(i, i + 500) })
+    })
+    if (!res.ok) {
+      const errData = await res.json().catch(() => ({}))
+      throw new Error(errData.error || 'Failed to share message keys')
+    }
+  }
+  return wraps.length
+}
@@ -0,0 +1,126 @@
+import { keccak256, toBytes, type Address, type Hex } from 'viem'
+import { CHAIN_ID, CONTRACTS } from '../config/contracts'
+
+// EIP-712 typed data for claim conversation messages. Must match the API's
+// services/claim-messages.ts, which rejects messages without a valid signature.
+
+export const ClaimMessageTypes = {
+  ClaimMessage: [
+    { name: 'claimId', type: 'uint256' },
+    { name: 'parentId', type: 'string' },
+    { name: 'role', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'evidenceHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+} as const
+
+const ZERO_HASH: Hex = `0x${'0'.repeat(64)}`
+
+function claimMessageDomain() {
+  return {
+    name: 'Trustful Agents Claims',
+    version: '1',
+    chainId: CHAIN_ID,
+    verifyingContract: CONTRACTS.claimsManager as Address,
+  }
+}
+
+export interface ClaimMessageToSign {
+  claimId: string
+  parentId: string | null
+  role: 'claimer' | 'provider' | 'council' | 'councilor'
+  content: string // already trimmed
+  evidenceHash?: string | null
+}
+
+/**
+ * Typed data to pass to signTypedData, plus the timestamp to send with the message
+ */
+export function buildClaimMessageTypedData(message: ClaimMessageToSign) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  return {
+    timestamp,
+    typedData: {
+      domain: claimMessageDomain(),
+      types: ClaimMessageTypes,
+      primaryType: 'ClaimMessage' as const,
+      message: {
+        claimId: BigInt(message.claimId),
+        parentId: message.parentId ?? '',
+        // The API stores council messages as 'councilor'
+        role: message.role === 'council' ? 'councilor' : message.role,
+        contentHash: keccak256(toBytes(message.content)),
+        evidenceHash: (message.evidenceHash as Hex | null | undefined) ?? ZERO_HASH,
+        timestamp: BigInt(timestamp),
+      },
+    },
+  }
+}
+
+// Evidence downloads (and uploads to the evidence store) need a ClaimAccess
+// grant: the reader's signature for their own address, valid until expires.
+
+export const ClaimAccessTypes = {
+  ClaimAccess: [
+    { name: 'claimId', type: 'uint256' },
+    { name: 'reader', type: 'address' },
+    { name: 'expires', type: 'uint256' },
+  ],
+} as const
+
+// The API accepts grants valid for up to 24 hours
+export const CLAIM_ACCESS_GRANT_SECONDS = 12 * 60 * 60
+
+/**
+ * Typed data for a ClaimAccess grant, plus its expiry
+ */
+export function buildClaimAccessTypedData(claimId: string, reader: string) {
+  const expires = Math.floor(Date.now() / 1000) + CLAIM_ACCESS_GRANT_SECONDS
+  return {
+    expires,
+    typedData: {
+      domain: claimMessageDomain(),
+      types: ClaimAccessTypes,
+      primaryType: 'ClaimAccess' as const,
+      message: {
+        claimId: BigInt(claimId),
+        reader: reader as Address,
+        expires: BigInt(expires),
+      },
+    },
+  }
+}
+
+// Encryption keys are registered with an EncryptionKey signature. Must match
+// the API's services/claim-encryption.ts.
+
+export const EncryptionKeyTypes = {
+  EncryptionKey: [
+    { name: 'owner', type: 'address' },
+    { name: 'publicKey', type: 'bytes' },
+    { name: 'backupHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+} as const
+
+/**
+ * Typed data registering an encryption key, plus the timestamp to send with it
+ */
+export function buildEncryptionKeyTypedData(owner: string, publicKey: string, encryptedPrivateKey: string) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  return {
+    timestamp,
+    typedData: {
+      domain: claimMessageDomain(),
+      types: EncryptionKeyTypes,
+      primaryType: 'EncryptionKey' as const,
+      message: {
+        owner: owner as Address,
+        publicKey: publicKey as Hex,
+        backupHash: keccak256(toBytes(encryptedPrivateKey)),
+        timestamp: BigInt(timestamp),
+      },
+    },
+  }
+}
@@ -0,0 +1,81 @@
+import { API_BASE_URL } from '../config/contracts'
+
+// Claim evidence in the API's evidence store. Files are addressed by keccak256
+// (or sha256) and, unless the claimant made the claim's evidence public, only
+// the claim's participants can read them, with a signed ClaimAccess grant (see
+// buildClaimAccessTypedData in ./claimMessages). The same goes for the claim's
+// conversation.
+
+// Per-type limits: PDF 25MB, images 10MB, text/CSV/JSON 5MB
+export const MAX_STORED_EVIDENCE_SIZE = 25 * 1024 * 1024
+
+export const ACCEPTED_EVIDENCE_TYPES =
+  'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/csv,text/markdown,application/json'
+
+export interface ClaimAccessGrant {
+  address: string
+  expires: number
+  signature: string
+}
+
+export interface StoredEvidence {
+  keccak256: string
+  sha256: string
+  size: number
+  mimetype: string
+  filename: string
+  uploader: string
+  uploadedAt: string
+  url: string
+}
+
+function claimAccessHeaders(grant: ClaimAccessGrant): Record<string, string> {
+  return {
+    'X-Claim-Access-Address': grant.address,
+    'X-Claim-Access-Expires': grant.expires.toString(),
+    'X-Claim-Access-Signature': grant.signature
+  }
+}
+
+/**
+ * Fetch the claim's conversation; resolves to null when access is denied
+ */
+export async function fetchClaimMessages<T>(claimId: string, grant: ClaimAccessGrant | null): Promise<T[] | null> {
+  const res = await fetch(`${API_BASE_URL}/claims/${claimId}/messages`, {
+    headers: grant ? claimAccessHeaders(grant) : {}
+  })
+  if (res.status === 401 || res.status === 403) return null
+  if (!res.ok) throw new Error('Failed to fetch messages')
+  const data = await res.json()
+  return data.messages || []
+}
+
+/**
+ * Upload an evidence file; reference the returned keccak256 as evidenceHash
+ */
+export async function uploadEvidence(claimId: string, file: File, grant: ClaimAccessGrant): Promise<StoredEvidence> {
+  const body = new FormData()
+  body.append('file', file)
+
+  const res = await fetch(`${API_BASE_URL}/claims/${claimId}/evidence`, {
+    method: 'POST',
+    headers: claimAccessHeaders(grant),
+    body
+  })
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}))
+    throw new Error(errData.error || 'Failed to upload evidence')
+  }
+  return res.json()
+}
+
+export async function downloadStoredEvidence(claimId: string, hash: string, grant: ClaimAccessGrant): Promise<Blob> {
+  const res = await fetch(`${API_BASE_URL}/claims/${claimId}/evidence/${hash}`, {
+    headers: claimAccessHeaders(grant)
+  })
+  if (!res.ok) {
+    const errData = await res.json().catch(() => ({}))
+    throw new Error(errData.error || 'Failed to download evidence')
+  }
+  return res.blob()
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * generate-sdk-abis.js — Generates packages/sdk/src/contracts/abis.ts
+ *
+ * Reads all ABI files in config/abis/ and writes them as `as const` exports
+ * so the SDK's types (derived via viem's ContractFunctionReturnType) always
+ * match the deployed contracts. Unlike generate-ts.js the output is committed
+ * and network-independent (no addresses, no timestamp).
+ *
+ * Usage: node config/scripts/generate-sdk-abis.js [--check]
+ *        --check  Exit 1 if the committed file differs from config/abis/
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const check = process.argv.includes('--check');
+const configDir = path.resolve(__dirname, '..');
+const abisDir = path.join(configDir, 'abis');
+const outputFile = path.resolve(configDir, '..', 'packages', 'sdk', 'src', 'contracts', 'abis.ts');
+
+// ---------------------------------------------------------------------------
+// Load ABIs
+// ---------------------------------------------------------------------------
+
+const abiFiles = fs.readdirSync(abisDir).filter(f => f.endsWith('.json')).sort();
+const abis = {};
+
+for (const file of abiFiles) {
+  const name = path.basename(file, '.json');
+  abis[name] = JSON.parse(fs.readFileSync(path.join(abisDir, file), 'utf-8'));
+}
+
+// ---------------------------------------------------------------------------
+// Generate TypeScript
+// ---------------------------------------------------------------------------
+
+let ts = `// =============================================================================
+// AUTO-GENERATED — DO NOT EDIT
+// Generated by: config/scripts/generate-sdk-abis.js
+// Source: config/abis/*.json
+// =============================================================================
+
+`;
+
+for (const [name, abi] of Object.entries(abis)) {
+  ts += `export const ${name}Abi = ${JSON.stringify(abi, null, 2)} as const;\n\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Write output (or compare in --check mode)
+// ---------------------------------------------------------------------------
+
+if (check) {
+  const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : '';
+  if (current !== ts) {
+    console.error(`SDK ABIs are out of date: ${path.relative(process.cwd(), outputFile)}`);
+    console.error('Run: node config/scripts/generate-sdk-abis.js');
+    process.exit(1);
+  }
+  console.log('SDK ABIs match config/abis/');
+  process.exit(0);
+}
+
+fs.writeFileSync(outputFile, ts);
+console.log(`Generated: ${outputFile} (${Object.keys(abis).length} ABIs, ${ts.length} bytes)`);
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * generate-sdk-networks.js — Generates packages/sdk/src/networks.ts
+ *
+ * Reads every network config in config/networks/ and writes the parts the SDK
+ * needs (chain ID, RPC URL, start block, contract addresses, service URLs) as
+ * one `as const` map, so the SDK can target any deployed network without
+ * reaching outside its package. Like generate-sdk-abis.js the output is
+ * committed and has no timestamp.
+ *
+ * Usage: node config/scripts/generate-sdk-networks.js [--check]
+ *        --check  Exit 1 if the committed file differs from config/networks/
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const check = process.argv.includes('--check');
+const configDir = path.resolve(__dirname, '..');
+const networksDir = path.join(configDir, 'networks');
+const outputFile = path.resolve(configDir, '..', 'packages', 'sdk', 'src', 'networks.ts');
+
+// Contracts the SDK's TrustfulConfig requires on every network
+const REQUIRED_CONTRACTS = [
+  'collateralVault',
+  'termsRegistry',
+  'trustfulValidator',
+  'councilRegistry',
+  'claimsManager',
+  'rulingExecutor',
+  'usdc',
+  'erc8004Registry',
+];
+
+// ---------------------------------------------------------------------------
+// Load network configs
+// ---------------------------------------------------------------------------
+
+const networkFiles = fs.readdirSync(networksDir).filter(f => f.endsWith('.json')).sort();
+const networks = {};
+
+for (const file of networkFiles) {
+  const config = JSON.parse(fs.readFileSync(path.join(networksDir, file), 'utf-8'));
+  const name = path.basename(file, '.json');
+
+  const missing = REQUIRED_CONTRACTS.filter(c => !config.contracts || !config.contracts[c]);
+  if (missing.length > 0) {
+    console.error(`${file}: missing contracts: ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  networks[name] = {
+    network: config.network,
+    chainId: config.chainId,
+    rpcUrl: config.rpcUrl,
+    blockExplorerUrl: config.blockExplorerUrl,
+    startBlock: config.startBlock,
+    contracts: config.contracts,
+    apiUrl: config.services.apiUrl.trim(),
+    subgraphUrl: config.services.subgraphUrl.trim(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Generate TypeScript
+// ---------------------------------------------------------------------------
+
+let ts = `// =============================================================================
+// AUTO-GENERATED — DO NOT EDIT
+// Generated by: config/scripts/generate-sdk-networks.js
+// Source: config/networks/*.json
+// =============================================================================
+
+export const NETWORKS = ${JSON.stringify(networks, null, 2)} as const;
+`;
+
+// ---------------------------------------------------------------------------
+// Write output (or compare in --check mode)
+// ---------------------------------------------------------------------------
+
+if (check) {
+  const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : '';
+  if (current !== ts) {
+    console.error(`SDK networks are out of date: ${path.relative(process.cwd(), outputFile)}`);
+    console.error('Run: node config/scripts/generate-sdk-networks.js');
+    process.exit(1);
+  }
+  console.log('SDK networks match config/networks/');
+  process.exit(0);
+}
+
+fs.writeFileSync(outputFile, ts);
+console.log(`Generated: ${outputFile} (${Object.keys(networks).length} networks)`);
@@ -6,6 +6,8 @@ set -euo pipefail
 #
 # Generates all derived config files from the network JSON:
 #   - config/generated/contracts.ts   (TypeScript exports for all apps)
+#   - packages/sdk/src/contracts/abis.ts (SDK ABIs, committed)
+#   - packages/sdk/src/networks.ts    (SDK network table, all networks, committed)
 #   - config/generated/env.dashboard  (.env for Vite frontends)
 #   - config/generated/env.api        (.env for governance-api)
 #   - config/generated/subgraph.yaml  (The Graph manifest)
@@ -51,6 +53,8 @@ fi
 # Step 1: Generate TypeScript config
 echo "[1/4] Generating contracts.ts..."
 node "$SCRIPT_DIR/generate-ts.js" "$NETWORK"
+node "$SCRIPT_DIR/generate-sdk-abis.js"
+node "$SCRIPT_DIR/generate-sdk-networks.js"
 echo ""
 
 # Step 2: Generate .env files
@@ -0,0 +1,274 @@
+/**
+ * Read cache
+ *
+ * Dashboards and agents re-read the same contract state (validation,
+ * collateral, councils) many times a minute. TrustfulCache keeps read results
+ * keyed by contract + function + args, each with a TTL for its call category,
+ * and tags every entry with the agent, claim or council it describes. When
+ * event invalidation is on, the cache follows the Trustful contracts' logs and
+ * drops the tagged entries as soon as e.g. Deposited, TermsActivated or
+ * VoteCast is seen (at the chain head: dropping early only costs a re-read).
+ *
+ *   const client = createTrustfulClient({ chainId: 84532, cache: true });
+ *   const client = createTrustfulClient({ cache: { store: redisStore, ttl: { validation: 10_000 } } });
+ *
+ * The default store is an in-memory LRU. Custom stores (Redis, KV, ...) only
+ * need get/set/delete/clear; values contain bigints, so serializing stores
+ * must encode them. The tag index lives in memory, so entries another process
+ * wrote to a shared store are only dropped by their TTL.
+ */
+
+import { parseEventLogs, zeroAddress, type Address, type Log, type PublicClient } from "viem";
+import { CouncilRegistryAbi, RulingExecutorAbi, TrustfulEventsAbi } from "./contracts";
+import { watchContractLogs } from "./watch";
+import type { Unwatch } from "./types";
+
+/**
+ * Read categories with their own TTL
+ */
+export type CacheCategory = "validation" | "collateral" | "terms" | "claims" | "council";
+
+export interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // Unix ms
+}
+
+/**
+ * Pluggable backing store; methods may be sync or async
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  store?: CacheStore; // Default: MemoryCacheStore
+  maxEntries?: number; // Size of the default store (default 1000)
+  ttl?: Partial<Record<CacheCategory, number>>; // ms, merged over DEFAULT_CACHE_TTL
+  invalidateOnEvents?: boolean; // Follow contract logs and drop affected entries (default true)
+  pollingInterval?: number; // Block polling interval for event invalidation
+  onError?: (error: Error) => void; // Event invalidation errors
+}
+
+export const DEFAULT_CACHE_TTL: Record<CacheCategory, number> = {
+  validation: 30_000,
+  collateral: 30_000,
+  terms: 300_000,
+  claims: 15_000,
+  council: 300_000,
+};
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// Entries not tied to one entity (lists, protocol stats) carry this tag and
+// are dropped on every invalidation
+export const ANY_TAG = "*";
+
+// Events are decoded against every contract the cache watches
+const INVALIDATION_ABI = [...TrustfulEventsAbi, ...CouncilRegistryAbi, ...RulingExecutorAbi] as const;
+
+export function agentTag(agentId: bigint): string {
+  return `agent:${agentId}`;
+}
+
+export function claimTag(claimId: bigint): string {
+  return `claim:${claimId}`;
+}
+
+export function councilTag(councilId: `0x${string}`): string {
+  return `council:${councilId.toLowerCase()}`;
+}
+
+/**
+ * Cache key for a contract read (or any named call with JSON-like args)
+ */
+export function cacheKey(address: Address | string, functionName: string, args: readonly unknown[] = []): string {
+  const encoded = JSON.stringify(args, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+  return `${address.toLowerCase()}:${functionName}:${encoded}`;
+}
+
+/**
+ * In-memory LRU store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class TrustfulCache {
+  private store: CacheStore;
+  private ttl: Record<CacheCategory, number>;
+  private tagKeys = new Map<string, Set<string>>();
+  private related = new Map<string, Set<string>>(); // claim tag -> its agent and council tags
+  private pending = new Map<string, Promise<unknown>>();
+  private epoch = 0; // Bumped by every invalidation; loads that straddle one are not stored
+  private unwatch?: Unwatch;
+
+  constructor(private options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries);
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl };
+  }
+
+  /**
+   * Return the cached value for key, or load, store and return it.
+   * Concurrent reads of the same key share one load; errors are not cached.
+   */
+  async read<T>(key: string, category: CacheCategory, tags: string[], load: () => Promise<T>): Promise<T> {
+    const entry = await this.store.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value as T;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight as Promise<T>;
+
+    const epoch = this.epoch;
+    const promise = load().then(async (value) => {
+      if (epoch === this.epoch) {
+        await this.store.set(key, { value, expiresAt: Date.now() + this.ttl[category] });
+        for (const tag of tags) {
+          let keys = this.tagKeys.get(tag);
+          if (!keys) this.tagKeys.set(tag, (keys = new Set()));
+          keys.add(key);
+        }
+      }
+      return value;
+    });
+    this.pending.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Record that a claim belongs to an agent and council, so events that only
+   * carry the claimId (VoteCast, ClaimApproved, ...) also drop their entries
+   */
+  linkClaim(claimId: bigint, agentId: bigint, councilId?: `0x${string}`): void {
+    const tags = new Set([agentTag(agentId)]);
+    if (councilId) tags.add(councilTag(councilId));
+    this.related.set(claimTag(claimId), tags);
+  }
+
+  /**
+   * Drop every entry carrying one of the tags (plus related and untargeted entries)
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    this.epoch++;
+    const expanded = new Set([...tags, ANY_TAG]);
+    for (const tag of tags) {
+      for (const related of this.related.get(tag) ?? []) expanded.add(related);
+    }
+
+    for (const tag of expanded) {
+      const keys = this.tagKeys.get(tag);
+      if (!keys) continue;
+      this.tagKeys.delete(tag);
+      for (const key of keys) await this.store.delete(key);
+    }
+  }
+
+  /**
+   * Invalidate the entries affected by decoded Trustful events. Events that
+   * name no agent, claim or council (Paused, registry updates) clear everything.
+   */
+  async invalidateEvents(events: readonly { args: unknown }[]): Promise<void> {
+    const tags: string[] = [];
+    let global = false;
+
+    for (const { args } of events) {
+      const { agentId, claimId, councilId } = (args ?? {}) as {
+        agentId?: bigint;
+        claimId?: bigint;
+        councilId?: `0x${string}`;
+      };
+      if (claimId !== undefined && agentId !== undefined) this.linkClaim(claimId, agentId, councilId);
+      if (agentId !== undefined) tags.push(agentTag(agentId));
+      if (claimId !== undefined) tags.push(claimTag(claimId));
+      if (councilId !== undefined) tags.push(councilTag(councilId));
+      if (agentId === undefined && claimId === undefined && councilId === undefined) global = true;
+    }
+
+    if (global) {
+      await this.clear();
+    } else if (tags.length > 0) {
+      await this.invalidate(tags);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.epoch++;
+    this.tagKeys.clear();
+    await this.store.clear();
+  }
+
+  /**
+   * Start event invalidation for these contracts (no-op if already running or
+   * disabled). Zero addresses (undeployed contracts) are skipped.
+   */
+  watch(client: PublicClient, addresses: Address[]): void {
+    if (this.unwatch || this.options.invalidateOnEvents === false) return;
+    const watched = addresses.filter((address) => address !== zeroAddress);
+    if (watched.length === 0) return;
+
+    this.unwatch = watchContractLogs(
+      client,
+      watched,
+      (logs: Log[]) =>
+        this.invalidateEvents(parseEventLogs({ abi: INVALIDATION_ABI, logs, strict: false })),
+      {
+        confirmations: 0,
+        pollingInterval: this.options.pollingInterval,
+        onError: this.options.onError,
+      }
+    );
+  }
+
+  /**
+   * Stop event invalidation (entries then expire by TTL only)
+   */
+  stop(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+  }
+}
+
+/**
+ * Resolve the `cache` option accepted by createTrustfulClient and createDataProvider
+ */
+export function resolveCache(option: boolean | CacheOptions | TrustfulCache | undefined): TrustfulCache | undefined {
+  if (!option) return undefined;
+  if (option instanceof TrustfulCache) return option;
+  return new TrustfulCache(option === true ? {} : option);
+}
@@ -2,22 +2,57 @@ import {
   createPublicClient,
   createWalletClient,
   http,
+  parseEventLogs,
   type PublicClient,
   type WalletClient,
+  type Account,
   type Address,
   type Chain,
 } from "viem";
-import { baseSepolia, base } from "viem/chains";
-import { type TrustfulConfig, DEFAULT_CONFIG, getChainConfig } from "./config";
+import { privateKeyToAccount } from "viem/accounts";
+import { type TrustfulConfig, DEFAULT_CONFIG, findChainConfig, getChain, getChainConfig } from "./config";
 import {
   CollateralVaultAbi,
   TermsRegistryAbi,
   TrustfulValidatorAbi,
   CouncilRegistryAbi,
   ClaimsManagerAbi,
+  UsdcAbi,
+  TrustfulEventsAbi,
 } from "./contracts";
+import { readAgentTrustSnapshots, readClaims } from "./multicall";
+import { readVerifiedTerms } from "./terms";
+import { buildEvidencePackage, signEvidencePackage, verifyEvidencePackage } from "./evidence";
+import { verifyClaimPayment, verifyX402Payment } from "./x402";
+import { fetchValidationSigner, verifyValidationResponse } from "./validation";
+import { computeTrustScore } from "./score";
+import type { ContentResolverOptions } from "./content";
+import {
+  agentTag,
+  cacheKey,
+  claimTag,
+  councilTag,
+  resolveCache,
+  type CacheCategory,
+  type CacheOptions,
+  type TrustfulCache,
+} from "./cache";
+import { watchClaimLifecycle, watchCollateral, watchValidationChanges } from "./watch";
 import type {
+  AgentTrustSnapshot,
+  BatchReadOptions,
+  ClaimBatch,
+  ClaimUpdate,
+  ClaimWatchFilter,
   CollateralAccount,
+  CollateralUpdate,
+  EvidencePackage,
+  EvidencePackageInput,
+  EvidenceVerificationResult,
+  PaymentExpectation,
+  PaymentVerificationResult,
+  SignedEvidencePackage,
+  SignedValidationResponse,
   TermsVersion,
   ValidationRecord,
   ValidationConditions,
@@ -25,6 +60,17 @@ import type {
   ClaimStats,
   Council,
   TrustInfo,
+  TrustScore,
+  TrustScoreInputs,
+  TrustScoreOptions,
+  TrustfulEvent,
+  VerifiedTermsResult,
+  TransactionResult,
+  Unwatch,
+  ValidationResponseVerificationOptions,
+  ValidationResponseVerificationResult,
+  ValidationUpdate,
+  WatchOptions,
 } from "./types";
 
 export interface TrustfulClient {
@@ -38,6 +84,8 @@ export interface TrustfulClient {
   getAvailableBalance(agentId: bigint): Promise<bigint>;
 
   getActiveTerms(agentId: bigint): Promise<{ terms: TermsVersion; version: bigint }>;
+  // [v1.2] Fetched from the T&C document at contentUri and checked against contentHash
+  getVerifiedTerms(agentId: bigint): Promise<VerifiedTermsResult>;
   getMaxPayoutPerClaim(agentId: bigint): Promise<bigint>;
 
   getClaim(claimId: bigint): Promise<Claim>;
@@ -48,115 +96,335 @@ export interface TrustfulClient {
   getCouncil(councilId: `0x${string}`): Promise<Council>;
   isCouncilMember(councilId: `0x${string}`, address: Address): Promise<boolean>;
 
+  // Batched reads (Multicall3 eth_calls, all pinned to a single block)
+  getAgentTrustSnapshot(agentId: bigint, options?: BatchReadOptions): Promise<AgentTrustSnapshot>;
+  getAgentTrustSnapshots(agentIds: readonly bigint[], options?: BatchReadOptions): Promise<AgentTrustSnapshot[]>;
+  getClaims(claimIds: readonly bigint[], options?: BatchReadOptions): Promise<ClaimBatch>;
+
+  // Trust score (see score.ts); inputs are read at one block, now = that block's timestamp
+  getTrustScoreInputs(agentId: bigint): Promise<TrustScoreInputs>;
+  getTrustScore(agentId: bigint, options?: TrustScoreOptions): Promise<TrustScore>;
+
+  // Subscriptions (delivered once `confirmations` deep; see WatchOptions)
+  watchClaimLifecycle(
+    filter: ClaimWatchFilter,
+    onUpdate: (update: ClaimUpdate) => void | Promise<void>,
+    options?: WatchOptions
+  ): Unwatch;
+  watchValidationChanges(
+    agentId: bigint,
+    onUpdate: (update: ValidationUpdate) => void | Promise<void>,
+    options?: WatchOptions
+  ): Unwatch;
+  watchCollateral(
+    agentId: bigint,
+    onUpdate: (update: CollateralUpdate) => void | Promise<void>,
+    options?: WatchOptions
+  ): Unwatch;
+
+  // Evidence (off-chain, signed by the claimant)
+  // claimant defaults to the connected wallet; terms snapshot is read from chain
+  buildEvidencePackage(
+    input: Omit<EvidencePackageInput, "claimant"> & { claimant?: Address }
+  ): Promise<EvidencePackage>;
+  signEvidencePackage(pkg: EvidencePackage): Promise<SignedEvidencePackage>;
+  verifyEvidencePackage(signed: SignedEvidencePackage): Promise<EvidenceVerificationResult>;
+
+  // x402 payments (receipt as object, JSON or the base64 X-PAYMENT-RESPONSE header)
+  verifyPaymentReceipt(receipt: string | object, expected: PaymentExpectation): Promise<PaymentVerificationResult>;
+  verifyClaimPayment(claimId: bigint, receipt: string | object): Promise<PaymentVerificationResult>;
+
+  // Signed validation.json / trust-info.json; signers default to the one published at validationApiUrl
+  verifyValidationResponse(
+    response: SignedValidationResponse,
+    options?: ValidationResponseVerificationOptions
+  ): Promise<ValidationResponseVerificationResult>;
+
   // Write functions (require wallet)
-  deposit(agentId: bigint, amount: bigint): Promise<`0x${string}`>;
-  initiateWithdrawal(agentId: bigint, amount: bigint): Promise<`0x${string}`>;
-  cancelWithdrawal(agentId: bigint): Promise<`0x${string}`>;
-  executeWithdrawal(agentId: bigint): Promise<`0x${string}`>;
+  // USDC allowance for deposit/fileClaim is approved automatically when insufficient
+  deposit(agentId: bigint, amount: bigint): Promise<TransactionResult>;
+  initiateWithdrawal(agentId: bigint, amount: bigint): Promise<TransactionResult>;
+  cancelWithdrawal(agentId: bigint): Promise<TransactionResult>;
+  executeWithdrawal(agentId: bigint): Promise<TransactionResult>;
 
   registerTerms(
     agentId: bigint,
     contentHash: `0x${string}`,
     contentUri: string,
-    maxPayoutPerClaim: bigint,
     councilId: `0x${string}`
-  ): Promise<`0x${string}`>;
+  ): Promise<TransactionResult<{ version: bigint }>>;
 
+  // [v1.3] Evidence is exchanged off-chain in the claim conversation.
+  // paymentReceiptHash: computePaymentReceiptHash for x402 payments,
+  // otherwise the signed EvidencePackage hash
   fileClaim(
     agentId: bigint,
     claimedAmount: bigint,
-    evidenceHash: `0x${string}`,
-    evidenceUri: string,
     paymentReceiptHash: `0x${string}`
-  ): Promise<`0x${string}`>;
+  ): Promise<TransactionResult<{ claimId: bigint }>>;
 
   castVote(
     claimId: bigint,
     vote: 1 | 2 | 3, // Approve | Reject | Abstain
     approvedAmount: bigint,
     reasoning: string
-  ): Promise<`0x${string}`>;
+  ): Promise<TransactionResult>;
 
   // Configuration
   config: TrustfulConfig;
   publicClient: PublicClient;
   walletClient?: WalletClient;
+  cache?: TrustfulCache; // Set when created with the cache option
 }
 
-export function createTrustfulClient(
-  config: Partial<TrustfulConfig> & { rpcUrl?: string; privateKey?: `0x${string}` } = {}
-): TrustfulClient {
-  const chainId = config.chainId ?? DEFAULT_CONFIG.chainId;
-  const chainConfig = getChainConfig(chainId);
+/**
+ * Options for createTrustfulClient.
+ * Provide one of privateKey, account or walletClient to enable write functions.
+ *
+ * Networks in config/networks/ (Anvil, Ethereum Sepolia, Base Sepolia, Base)
+ * only need chainId; contracts override the configured addresses (e.g. a fresh
+ * Anvil deployment). Any other chain needs a viem `chain` plus `contracts`.
+ */
+export type TrustfulClientOptions = Partial<TrustfulConfig> & {
+  chain?: Chain; // Full viem chain; takes precedence over chainId
+  rpcUrl?: string; // Defaults to the network config's RPC URL
+  privateKey?: `0x${string}`; // Local signer (backend bots)
+  account?: Account; // Pre-built viem account (local, smart account, ...)
+  walletClient?: WalletClient; // Injected wallet (browser); must have an account
+  contentResolver?: ContentResolverOptions; // IPFS gateways and timeouts for off-chain documents
+  // Cache single-entity reads (true for defaults); pass a TrustfulCache to share one with a DataProvider
+  cache?: boolean | CacheOptions | TrustfulCache;
+};
+
+export function createTrustfulClient(config: TrustfulClientOptions = {}): TrustfulClient {
+  const chainId = config.chain?.id ?? config.chainId ?? DEFAULT_CONFIG.chainId;
+
+  // Known networks fill in addresses and URLs; custom chains must bring their own contracts
+  const chainConfig = config.contracts ? findChainConfig(chainId) : getChainConfig(chainId);
+
+  const {
+    chain: customChain,
+    rpcUrl,
+    privateKey,
+    account: injectedAccount,
+    walletClient: injectedWalletClient,
+    contentResolver,
+    cache: cacheOption,
+    ...trustfulConfig
+  } = config;
 
   const fullConfig: TrustfulConfig = {
-    ...DEFAULT_CONFIG,
-    ...chainConfig,
-    ...config,
+    ...(chainConfig ?? {
+      ...DEFAULT_CONFIG,
+      network: customChain?.name ?? `chain-${chainId}`,
+      startBlock: 0n,
+      dataSource: { mode: "rpc" },
+    }),
+    ...trustfulConfig,
+    chainId,
   };
 
-  const chain: Chain = chainId === 8453 ? base : baseSepolia;
+  const chain: Chain = customChain ?? getChain(chainId);
+  const transportUrl = rpcUrl ?? (customChain ? undefined : fullConfig.dataSource.rpcUrl);
 
   const publicClient = createPublicClient({
     chain,
-    transport: http(config.rpcUrl),
+    transport: http(transportUrl),
   });
 
-  let walletClient: WalletClient | undefined;
-  // Wallet client setup would go here if privateKey provided
+  let walletClient: WalletClient | undefined = injectedWalletClient;
+  if (!walletClient && (privateKey || injectedAccount)) {
+    walletClient = createWalletClient({
+      account: injectedAccount ?? privateKeyToAccount(privateKey!),
+      chain,
+      transport: http(transportUrl),
+    });
+  }
+
+  const cache = resolveCache(cacheOption);
+
+  // Validation API signer, fetched on first use
+  let publishedSigner: Promise<Address> | undefined;
+
+  /**
+   * Serve a read from the cache when enabled. Event invalidation starts with
+   * the first cached read so clients that never read do not poll.
+   */
+  function cached<T>(category: CacheCategory, tags: string[], key: string, load: () => Promise<T>): Promise<T> {
+    if (!cache) return load();
+    const { usdc: _usdc, erc8004Registry: _registry, ...trustfulContracts } = fullConfig.contracts;
+    cache.watch(publicClient, Object.values(trustfulContracts));
+    return cache.read(key, category, tags, load);
+  }
+
+  function requireWallet(): { wallet: WalletClient; account: Account } {
+    if (!walletClient?.account) {
+      throw new Error("Wallet client not configured");
+    }
+    return { wallet: walletClient, account: walletClient.account };
+  }
+
+  /**
+   * Approve USDC for spender if the current allowance does not cover amount.
+   * Waits for the approval to be mined so the following call can pull funds.
+   */
+  async function ensureAllowance(spender: Address, amount: bigint): Promise<void> {
+    const { wallet, account } = requireWallet();
+
+    const allowance = await publicClient.readContract({
+      address: fullConfig.contracts.usdc,
+      abi: UsdcAbi,
+      functionName: "allowance",
+      args: [account.address, spender],
+    });
+    if (allowance >= amount) return;
+
+    const hash = await wallet.writeContract({
+      address: fullConfig.contracts.usdc,
+      abi: UsdcAbi,
+      functionName: "approve",
+      args: [spender, amount],
+      account,
+      chain,
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`USDC approval reverted: ${hash}`);
+    }
+  }
+
+  /**
+   * Wrap a broadcast transaction hash with a wait() helper that decodes events
+   */
+  function toResult<TData = void>(
+    hash: `0x${string}`,
+    extract: (events: TrustfulEvent[]) => TData = () => undefined as TData
+  ): TransactionResult<TData> {
+    return {
+      hash,
+      async wait({ confirmations = 1 } = {}) {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash, confirmations });
+        if (receipt.status !== "success") {
+          throw new Error(`Transaction reverted: ${hash}`);
+        }
+        const events = parseEventLogs({ abi: TrustfulEventsAbi, logs: receipt.logs, strict: true });
+        // Reads right after wait() must not be served from before the transaction
+        await cache?.invalidateEvents(events);
+        return { receipt, events, data: extract(events) };
+      },
+    };
+  }
+
+  /**
+   * Trust score inputs, read at one block; now is that block's timestamp
+   */
+  async function readTrustScoreInputs(agentId: bigint): Promise<TrustScoreInputs> {
+    const [snapshot] = await readAgentTrustSnapshots(publicClient, fullConfig.contracts, [agentId]);
+    const { blockNumber, validationRecord, collateral, activeTerms, claimStats } = snapshot;
+    const councilId = activeTerms?.terms.councilId;
+
+    const [block, terms, council, activeMembers] = await Promise.all([
+      publicClient.getBlock({ blockNumber }),
+      activeTerms ? readVerifiedTerms(publicClient, fullConfig.contracts.termsRegistry, agentId, contentResolver) : null,
+      councilId
+        ? publicClient.readContract({
+            address: fullConfig.contracts.councilRegistry,
+            abi: CouncilRegistryAbi,
+            functionName: "getCouncil",
+            args: [councilId],
+            blockNumber,
+          })
+        : null,
+      councilId
+        ? publicClient.readContract({
+            address: fullConfig.contracts.councilRegistry,
+            abi: CouncilRegistryAbi,
+            functionName: "getActiveMemberCount",
+            args: [councilId],
+            blockNumber,
+          })
+        : null,
+    ]);
+
+    return {
+      isValidated: snapshot.isValidated,
+      validationIssuedAt: validationRecord.issuedAt,
+      collateralBalance: collateral.balance,
+      availableCollateral: snapshot.availableBalance,
+      withdrawalAmount: collateral.withdrawalInitiatedAt > 0n ? collateral.withdrawalAmount : 0n,
+      maxPayoutPerClaim: terms?.valid ? terms.terms.maxPayoutPerClaim : null,
+      claims: {
+        total: Number(claimStats.totalClaims),
+        approved: Number(claimStats.approvedClaims),
+        rejected: Number(claimStats.rejectedClaims),
+        pending: Number(claimStats.pendingClaims),
+        expired: Number(claimStats.expiredClaims),
+        totalPaidOut: claimStats.totalPaidOut,
+      },
+      council: council ? { active: council.active, activeMembers: Number(activeMembers) } : null,
+      now: block.timestamp,
+    };
+  }
 
   return {
     config: fullConfig,
     publicClient,
     walletClient,
+    cache,
 
     // =========================================================================
     // Validation
     // =========================================================================
 
     async isValidated(agentId: bigint): Promise<boolean> {
-      return publicClient.readContract({
-        address: fullConfig.contracts.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: "isValidated",
-        args: [agentId],
-      }) as Promise<boolean>;
+      const key = cacheKey(fullConfig.contracts.trustfulValidator, "isValidated", [agentId]);
+      return cached("validation", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.trustfulValidator,
+          abi: TrustfulValidatorAbi,
+          functionName: "isValidated",
+          args: [agentId],
+        })
+      );
     },
 
     async getValidationRecord(agentId: bigint): Promise<ValidationRecord> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: "getValidationRecord",
-        args: [agentId],
-      });
-      return result as ValidationRecord;
+      const key = cacheKey(fullConfig.contracts.trustfulValidator, "getValidationRecord", [agentId]);
+      const result = await cached("validation", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.trustfulValidator,
+          abi: TrustfulValidatorAbi,
+          functionName: "getValidationRecord",
+          args: [agentId],
+        })
+      );
+      return result;
     },
 
     async checkConditions(agentId: bigint): Promise<ValidationConditions> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: "checkConditions",
-        args: [agentId],
-      });
-      return result as ValidationConditions;
+      const key = cacheKey(fullConfig.contracts.trustfulValidator, "checkConditions", [agentId]);
+      const result = await cached("validation", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.trustfulValidator,
+          abi: TrustfulValidatorAbi,
+          functionName: "checkConditions",
+          args: [agentId],
+        })
+      );
+      return result;
     },
 
     async getTrustInfo(agentId: bigint): Promise<TrustInfo> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.trustfulValidator,
-        abi: TrustfulValidatorAbi,
-        functionName: "getTrustInfo",
-        args: [agentId],
-      });
-      const [collateralAmount, maxPayoutPerClaim, councilId, isValid] = result as [
-        bigint,
-        bigint,
-        `0x${string}`,
-        boolean
-      ];
-      return { collateralAmount, maxPayoutPerClaim, councilId, isValid };
+      const key = cacheKey(fullConfig.contracts.trustfulValidator, "getTrustInfo", [agentId]);
+      const result = await cached("validation", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.trustfulValidator,
+          abi: TrustfulValidatorAbi,
+          functionName: "getTrustInfo",
+          args: [agentId],
+        })
+      );
+      return result;
     },
 
     // =========================================================================
@@ -164,22 +432,28 @@ export function createTrustfulClient(
     // =========================================================================
 
     async getCollateralAccount(agentId: bigint): Promise<CollateralAccount> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.collateralVault,
-        abi: CollateralVaultAbi,
-        functionName: "getAccount",
-        args: [agentId],
-      });
-      return result as CollateralAccount;
+      const key = cacheKey(fullConfig.contracts.collateralVault, "getAccount", [agentId]);
+      const result = await cached("collateral", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.collateralVault,
+          abi: CollateralVaultAbi,
+          functionName: "getAccount",
+          args: [agentId],
+        })
+      );
+      return result;
     },
 
     async getAvailableBalance(agentId: bigint): Promise<bigint> {
-      return publicClient.readContract({
-        address: fullConfig.contracts.collateralVault,
-        abi: CollateralVaultAbi,
-        functionName: "getAvailableBalance",
-        args: [agentId],
-      }) as Promise<bigint>;
+      const key = cacheKey(fullConfig.contracts.collateralVault, "getAvailableBalance", [agentId]);
+      return cached("collateral", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.collateralVault,
+          abi: CollateralVaultAbi,
+          functionName: "getAvailableBalance",
+          args: [agentId],
+        })
+      );
     },
 
     // =========================================================================
@@ -187,23 +461,30 @@ export function createTrustfulClient(
     // =========================================================================
 
     async getActiveTerms(agentId: bigint): Promise<{ terms: TermsVersion; version: bigint }> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.termsRegistry,
-        abi: TermsRegistryAbi,
-        functionName: "getActiveTerms",
-        args: [agentId],
-      });
-      const [terms, version] = result as [TermsVersion, bigint];
+      const key = cacheKey(fullConfig.contracts.termsRegistry, "getActiveTerms", [agentId]);
+      const result = await cached("terms", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.termsRegistry,
+          abi: TermsRegistryAbi,
+          functionName: "getActiveTerms",
+          args: [agentId],
+        })
+      );
+      const [terms, version] = result;
       return { terms, version };
     },
 
+    async getVerifiedTerms(agentId: bigint): Promise<VerifiedTermsResult> {
+      return readVerifiedTerms(publicClient, fullConfig.contracts.termsRegistry, agentId, contentResolver);
+    },
+
     async getMaxPayoutPerClaim(agentId: bigint): Promise<bigint> {
-      return publicClient.readContract({
-        address: fullConfig.contracts.termsRegistry,
-        abi: TermsRegistryAbi,
-        functionName: "getMaxPayoutPerClaim",
-        args: [agentId],
-      }) as Promise<bigint>;
+      // [v1.2] No longer on-chain; the value lives in the T&C document at contentUri
+      const result = await readVerifiedTerms(publicClient, fullConfig.contracts.termsRegistry, agentId, contentResolver);
+      if (!result.valid) {
+        throw new Error(`Cannot read maxPayoutPerClaim for agent ${agentId}: ${result.code}: ${result.message}`);
+      }
+      return result.terms.maxPayoutPerClaim;
     },
 
     // =========================================================================
@@ -211,42 +492,55 @@ export function createTrustfulClient(
     // =========================================================================
 
     async getClaim(claimId: bigint): Promise<Claim> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: "getClaim",
-        args: [claimId],
-      });
-      return result as Claim;
+      const key = cacheKey(fullConfig.contracts.claimsManager, "getClaim", [claimId]);
+      const result = await cached("claims", [claimTag(claimId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.claimsManager,
+          abi: ClaimsManagerAbi,
+          functionName: "getClaim",
+          args: [claimId],
+        })
+      );
+      cache?.linkClaim(claimId, result.agentId, result.councilId);
+      return result;
     },
 
     async getClaimsByAgent(agentId: bigint): Promise<bigint[]> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: "getClaimsByAgent",
-        args: [agentId],
-      });
-      return result as bigint[];
+      const key = cacheKey(fullConfig.contracts.claimsManager, "getClaimsByAgent", [agentId]);
+      const result = await cached("claims", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.claimsManager,
+          abi: ClaimsManagerAbi,
+          functionName: "getClaimsByAgent",
+          args: [agentId],
+        })
+      );
+      return [...result];
     },
 
     async getClaimStats(agentId: bigint): Promise<ClaimStats> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: "getClaimStats",
-        args: [agentId],
-      });
-      return result as ClaimStats;
+      const key = cacheKey(fullConfig.contracts.claimsManager, "getClaimStats", [agentId]);
+      const result = await cached("claims", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.claimsManager,
+          abi: ClaimsManagerAbi,
+          functionName: "getClaimStats",
+          args: [agentId],
+        })
+      );
+      return result;
     },
 
     async calculateRequiredDeposit(agentId: bigint, claimAmount: bigint): Promise<bigint> {
-      return publicClient.readContract({
-        address: fullConfig.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: "calculateRequiredDeposit",
-        args: [agentId, claimAmount],
-      }) as Promise<bigint>;
+      const key = cacheKey(fullConfig.contracts.claimsManager, "calculateRequiredDeposit", [agentId, claimAmount]);
+      return cached("claims", [agentTag(agentId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.claimsManager,
+          abi: ClaimsManagerAbi,
+          functionName: "calculateRequiredDeposit",
+          args: [agentId, claimAmount],
+        })
+      );
     },
 
     // =========================================================================
@@ -254,71 +548,276 @@ export function createTrustfulClient(
     // =========================================================================
 
     async getCouncil(councilId: `0x${string}`): Promise<Council> {
-      const result = await publicClient.readContract({
-        address: fullConfig.contracts.councilRegistry,
-        abi: CouncilRegistryAbi,
-        functionName: "getCouncil",
-        args: [councilId],
-      });
-      return result as Council;
+      const key = cacheKey(fullConfig.contracts.councilRegistry, "getCouncil", [councilId]);
+      const result = await cached("council", [councilTag(councilId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.councilRegistry,
+          abi: CouncilRegistryAbi,
+          functionName: "getCouncil",
+          args: [councilId],
+        })
+      );
+      return result;
     },
 
     async isCouncilMember(councilId: `0x${string}`, address: Address): Promise<boolean> {
-      return publicClient.readContract({
-        address: fullConfig.contracts.councilRegistry,
-        abi: CouncilRegistryAbi,
-        functionName: "isActiveMember",
-        args: [councilId, address],
-      }) as Promise<boolean>;
+      const key = cacheKey(fullConfig.contracts.councilRegistry, "isActiveMember", [councilId, address]);
+      return cached("council", [councilTag(councilId)], key, () =>
+        publicClient.readContract({
+          address: fullConfig.contracts.councilRegistry,
+          abi: CouncilRegistryAbi,
+          functionName: "isActiveMember",
+          args: [councilId, address],
+        })
+      );
     },
 
     // =========================================================================
-    // Write Functions (stubs - need wallet)
+    // Batched Reads
     // =========================================================================
 
-    async deposit(_agentId: bigint, _amount: bigint): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+    async getAgentTrustSnapshot(agentId: bigint, options?: BatchReadOptions): Promise<AgentTrustSnapshot> {
+      const [snapshot] = await readAgentTrustSnapshots(publicClient, fullConfig.contracts, [agentId], options);
+      return snapshot;
     },
 
-    async initiateWithdrawal(_agentId: bigint, _amount: bigint): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+    async getAgentTrustSnapshots(
+      agentIds: readonly bigint[],
+      options?: BatchReadOptions
+    ): Promise<AgentTrustSnapshot[]> {
+      return readAgentTrustSnapshots(publicClient, fullConfig.contracts, agentIds, options);
     },
 
-    async cancelWithdrawal(_agentId: bigint): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+    async getClaims(claimIds: readonly bigint[], options?: BatchReadOptions): Promise<ClaimBatch> {
+      return readClaims(publicClient, fullConfig.contracts.claimsManager, claimIds, options);
     },
 
-    async executeWithdrawal(_agentId: bigint): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+    // =========================================================================
+    // Trust Score
+    // =========================================================================
+
+    getTrustScoreInputs: readTrustScoreInputs,
+
+    async getTrustScore(agentId: bigint, options?: TrustScoreOptions): Promise<TrustScore> {
+      return computeTrustScore(await readTrustScoreInputs(agentId), options);
+    },
+
+    // =========================================================================
+    // Subscriptions
+    // =========================================================================
+
+    watchClaimLifecycle(
+      filter: ClaimWatchFilter,
+      onUpdate: (update: ClaimUpdate) => void | Promise<void>,
+      options?: WatchOptions
+    ): Unwatch {
+      return watchClaimLifecycle(publicClient, fullConfig.contracts.claimsManager, filter, onUpdate, options);
+    },
+
+    watchValidationChanges(
+      agentId: bigint,
+      onUpdate: (update: ValidationUpdate) => void | Promise<void>,
+      options?: WatchOptions
+    ): Unwatch {
+      return watchValidationChanges(publicClient, fullConfig.contracts.trustfulValidator, agentId, onUpdate, options);
+    },
+
+    watchCollateral(
+      agentId: bigint,
+      onUpdate: (update: CollateralUpdate) => void | Promise<void>,
+      options?: WatchOptions
+    ): Unwatch {
+      return watchCollateral(publicClient, fullConfig.contracts.collateralVault, agentId, onUpdate, options);
+    },
+
+    // =========================================================================
+    // Evidence
+    // =========================================================================
+
+    async buildEvidencePackage(
+      input: Omit<EvidencePackageInput, "claimant"> & { claimant?: Address }
+    ): Promise<EvidencePackage> {
+      const claimant = input.claimant ?? requireWallet().account.address;
+      const terms = await readVerifiedTerms(publicClient, fullConfig.contracts.termsRegistry, input.agentId, contentResolver);
+      if (!terms.valid) {
+        throw new Error(`Cannot snapshot terms for agent ${input.agentId}: ${terms.code}: ${terms.message}`);
+      }
+      return buildEvidencePackage({ ...input, claimant }, terms.terms);
+    },
+
+    async signEvidencePackage(pkg: EvidencePackage): Promise<SignedEvidencePackage> {
+      const { wallet } = requireWallet();
+      return signEvidencePackage(wallet, fullConfig.contracts.claimsManager, pkg);
+    },
+
+    async verifyEvidencePackage(signed: SignedEvidencePackage): Promise<EvidenceVerificationResult> {
+      return verifyEvidencePackage(publicClient, fullConfig.contracts, signed, contentResolver);
+    },
+
+    // =========================================================================
+    // Payments
+    // =========================================================================
+
+    async verifyPaymentReceipt(
+      receipt: string | object,
+      expected: PaymentExpectation
+    ): Promise<PaymentVerificationResult> {
+      return verifyX402Payment(publicClient, fullConfig.contracts, receipt, expected);
+    },
+
+    async verifyClaimPayment(claimId: bigint, receipt: string | object): Promise<PaymentVerificationResult> {
+      return verifyClaimPayment(publicClient, fullConfig.contracts, claimId, receipt);
+    },
+
+    // =========================================================================
+    // Validation Responses
+    // =========================================================================
+
+    async verifyValidationResponse(
+      response: SignedValidationResponse,
+      options: ValidationResponseVerificationOptions = {}
+    ): Promise<ValidationResponseVerificationResult> {
+      let signers = options.signers;
+      if (!signers) {
+        publishedSigner ??= fetchValidationSigner(fullConfig.validationApiUrl).catch((error) => {
+          publishedSigner = undefined;
+          throw error;
+        });
+        signers = [await publishedSigner];
+      }
+      return verifyValidationResponse(publicClient, fullConfig.contracts, response, { ...options, signers });
+    },
+
+    // =========================================================================
+    // Write Functions
+    // =========================================================================
+
+    async deposit(agentId: bigint, amount: bigint): Promise<TransactionResult> {
+      const { wallet, account } = requireWallet();
+      await ensureAllowance(fullConfig.contracts.collateralVault, amount);
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.collateralVault,
+        abi: CollateralVaultAbi,
+        functionName: "deposit",
+        args: [agentId, amount],
+        account,
+        chain,
+      });
+      return toResult(hash);
+    },
+
+    async initiateWithdrawal(agentId: bigint, amount: bigint): Promise<TransactionResult> {
+      const { wallet, account } = requireWallet();
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.collateralVault,
+        abi: CollateralVaultAbi,
+        functionName: "initiateWithdrawal",
+        args: [agentId, amount],
+        account,
+        chain,
+      });
+      return toResult(hash);
+    },
+
+    async cancelWithdrawal(agentId: bigint): Promise<TransactionResult> {
+      const { wallet, account } = requireWallet();
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.collateralVault,
+        abi: CollateralVaultAbi,
+        functionName: "cancelWithdrawal",
+        args: [agentId],
+        account,
+        chain,
+      });
+      return toResult(hash);
+    },
+
+    async executeWithdrawal(agentId: bigint): Promise<TransactionResult> {
+      const { wallet, account } = requireWallet();
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.collateralVault,
+        abi: CollateralVaultAbi,
+        functionName: "executeWithdrawal",
+        args: [agentId],
+        account,
+        chain,
+      });
+      return toResult(hash);
     },
 
     async registerTerms(
-      _agentId: bigint,
-      _contentHash: `0x${string}`,
-      _contentUri: string,
-      _maxPayoutPerClaim: bigint,
-      _councilId: `0x${string}`
-    ): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+      agentId: bigint,
+      contentHash: `0x${string}`,
+      contentUri: string,
+      councilId: `0x${string}`
+    ): Promise<TransactionResult<{ version: bigint }>> {
+      const { wallet, account } = requireWallet();
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.termsRegistry,
+        abi: TermsRegistryAbi,
+        functionName: "registerTerms",
+        args: [agentId, contentHash, contentUri, councilId],
+        account,
+        chain,
+      });
+      return toResult(hash, (events) => {
+        const registered = events.find((e) => e.eventName === "TermsRegistered");
+        if (!registered || registered.eventName !== "TermsRegistered") {
+          throw new Error(`TermsRegistered event not found in ${hash}`);
+        }
+        return { version: registered.args.version };
+      });
     },
 
     async fileClaim(
-      _agentId: bigint,
-      _claimedAmount: bigint,
-      _evidenceHash: `0x${string}`,
-      _evidenceUri: string,
-      _paymentReceiptHash: `0x${string}`
-    ): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+      agentId: bigint,
+      claimedAmount: bigint,
+      paymentReceiptHash: `0x${string}`
+    ): Promise<TransactionResult<{ claimId: bigint }>> {
+      const { wallet, account } = requireWallet();
+
+      // Claimant deposit is pulled by ClaimsManager
+      const requiredDeposit = await publicClient.readContract({
+        address: fullConfig.contracts.claimsManager,
+        abi: ClaimsManagerAbi,
+        functionName: "calculateRequiredDeposit",
+        args: [agentId, claimedAmount],
+      });
+      await ensureAllowance(fullConfig.contracts.claimsManager, requiredDeposit);
+
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.claimsManager,
+        abi: ClaimsManagerAbi,
+        functionName: "fileClaim",
+        args: [agentId, claimedAmount, paymentReceiptHash],
+        account,
+        chain,
+      });
+      return toResult(hash, (events) => {
+        const filed = events.find((e) => e.eventName === "ClaimFiled");
+        if (!filed || filed.eventName !== "ClaimFiled") {
+          throw new Error(`ClaimFiled event not found in ${hash}`);
+        }
+        return { claimId: filed.args.claimId };
+      });
     },
 
     async castVote(
-      _claimId: bigint,
-      _vote: 1 | 2 | 3,
-      _approvedAmount: bigint,
-      _reasoning: string
-    ): Promise<`0x${string}`> {
-      throw new Error("Wallet client not configured");
+      claimId: bigint,
+      vote: 1 | 2 | 3,
+      approvedAmount: bigint,
+      reasoning: string
+    ): Promise<TransactionResult> {
+      const { wallet, account } = requireWallet();
+      const hash = await wallet.writeContract({
+        address: fullConfig.contracts.claimsManager,
+        abi: ClaimsManagerAbi,
+        functionName: "castVote",
+        args: [claimId, vote, approvedAmount, reasoning],
+        account,
+        chain,
+      });
+      return toResult(hash);
     },
   };
 }
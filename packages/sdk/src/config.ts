@@ -1,8 +1,12 @@
-import { type Address } from "viem";
+import { type Address, type Chain } from "viem";
+import { anvil, base, baseSepolia, sepolia } from "viem/chains";
 import type { DataProviderMode } from "./providers";
+import { NETWORKS } from "./networks";
 
 export interface TrustfulConfig {
   chainId: number;
+  network: string; // config/networks/<network>.json, or the chain name for custom chains
+  startBlock: bigint; // Deployment block; event scans start here
   contracts: {
     collateralVault: Address;
     termsRegistry: Address;
@@ -22,58 +26,99 @@ export interface TrustfulConfig {
   validationApiUrl: string;
 }
 
-// Base Sepolia (testnet) - MVP contracts deployed
-export const BASE_SEPOLIA_CONFIG: TrustfulConfig = {
-  chainId: 84532,
-  contracts: {
-    // MVP contracts (deployed)
-    collateralVault: "0xDDC4eebCf1D6e62821A25Fa26B6Df021dcee11C4" as Address,
-    termsRegistry: "0x5Ae03075290e284ee05Fa648843F0ce81fffFA5d" as Address,
-    trustfulValidator: "0xe75817D8aADA91968AD492d583602Ec10B2569a6" as Address,
-    // Phase 1 contracts (update after deployment)
-    councilRegistry: "0x0000000000000000000000000000000000000000" as Address,
-    claimsManager: "0x0000000000000000000000000000000000000000" as Address,
-    rulingExecutor: "0x0000000000000000000000000000000000000000" as Address,
-    // External dependencies (mocks on testnet)
-    usdc: "0x63d5a529eD8a8192E2201c0cea4469397efE30Ba" as Address,
-    erc8004Registry: "0xb3B4b5042Fd3600404846671Ff5558719860b694" as Address,
-  },
-  dataSource: {
-    mode: 'rpc',
-    rpcUrl: 'https://sepolia.base.org',
-  },
-  validationApiUrl: "https://api.trustful-agents.org/v1",
-};
+/**
+ * Names of the networks in config/networks/
+ */
+export type NetworkName = keyof typeof NETWORKS;
 
-// Base Mainnet
-export const BASE_MAINNET_CONFIG: TrustfulConfig = {
-  chainId: 8453,
-  contracts: {
-    collateralVault: "0x0000000000000000000000000000000000000000" as Address,
-    termsRegistry: "0x0000000000000000000000000000000000000000" as Address,
-    trustfulValidator: "0x0000000000000000000000000000000000000000" as Address,
-    councilRegistry: "0x0000000000000000000000000000000000000000" as Address,
-    claimsManager: "0x0000000000000000000000000000000000000000" as Address,
-    rulingExecutor: "0x0000000000000000000000000000000000000000" as Address,
-    usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as Address, // Base USDC
-    erc8004Registry: "0x0000000000000000000000000000000000000000" as Address,
-  },
-  dataSource: {
-    mode: 'subgraph',
-    subgraphUrl: 'https://api.studio.thegraph.com/query/YOUR_ID/trustful-agents/version/latest',
-  },
-  validationApiUrl: "https://api.trustful-agents.org/v1",
+// viem chain definitions for the networks in config/networks/
+const CHAINS: Record<number, Chain> = {
+  [anvil.id]: anvil,
+  [sepolia.id]: sepolia,
+  [baseSepolia.id]: baseSepolia,
+  [base.id]: base,
 };
 
+/**
+ * Build the TrustfulConfig for a network in config/networks/
+ */
+export function getNetworkConfig(network: NetworkName): TrustfulConfig {
+  const config = NETWORKS[network];
+  if (!config) {
+    throw new Error(`Unknown network "${network}". Known networks: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+
+  const { usdc, erc8004Registry, collateralVault, termsRegistry, councilRegistry, trustfulValidator, claimsManager, rulingExecutor } =
+    config.contracts;
+
+  return {
+    chainId: config.chainId,
+    network: config.network,
+    startBlock: BigInt(config.startBlock),
+    contracts: {
+      collateralVault,
+      termsRegistry,
+      trustfulValidator,
+      councilRegistry,
+      claimsManager,
+      rulingExecutor,
+      usdc,
+      erc8004Registry,
+    },
+    dataSource: {
+      // Base mainnet has enough history to need the subgraph; testnets and Anvil read via RPC
+      mode: config.chainId === base.id ? "subgraph" : "rpc",
+      rpcUrl: config.rpcUrl,
+      subgraphUrl: config.subgraphUrl,
+    },
+    validationApiUrl: `${config.apiUrl}/v1`,
+  };
+}
+
+export const ANVIL_CONFIG = getNetworkConfig("anvil");
+export const ETH_SEPOLIA_CONFIG = getNetworkConfig("eth-sepolia");
+export const BASE_SEPOLIA_CONFIG = getNetworkConfig("base-sepolia");
+export const BASE_MAINNET_CONFIG = getNetworkConfig("base-mainnet");
+
 export const DEFAULT_CONFIG = BASE_SEPOLIA_CONFIG;
 
+function knownChains(): string {
+  return Object.entries(NETWORKS)
+    .map(([name, config]) => `${name} (${config.chainId})`)
+    .join(", ");
+}
+
+/**
+ * Network config for a chain ID, or undefined if no config/networks/ file targets it
+ */
+export function findChainConfig(chainId: number): TrustfulConfig | undefined {
+  const name = (Object.keys(NETWORKS) as NetworkName[]).find((n) => NETWORKS[n].chainId === chainId);
+  return name ? getNetworkConfig(name) : undefined;
+}
+
+/**
+ * Network config for a chain ID
+ * @throws If no config/networks/ file targets the chain
+ */
 export function getChainConfig(chainId: number): TrustfulConfig {
-  switch (chainId) {
-    case 84532:
-      return BASE_SEPOLIA_CONFIG;
-    case 8453:
-      return BASE_MAINNET_CONFIG;
-    default:
-      throw new Error(`Unsupported chain ID: ${chainId}`);
+  const config = findChainConfig(chainId);
+  if (!config) {
+    throw new Error(
+      `Unsupported chain ID: ${chainId}. Known networks: ${knownChains()}. ` +
+        "For other chains pass a viem chain and contract addresses to createTrustfulClient."
+    );
+  }
+  return config;
+}
+
+/**
+ * viem Chain for a chain ID with a network config
+ * @throws If the chain is unknown; pass a viem Chain explicitly instead
+ */
+export function getChain(chainId: number): Chain {
+  const chain = CHAINS[chainId];
+  if (!chain) {
+    throw new Error(`No viem chain for chain ID ${chainId}. Known networks: ${knownChains()}. Pass \`chain\` explicitly.`);
   }
+  return chain;
 }
@@ -0,0 +1,98 @@
+/**
+ * Off-chain content resolution
+ *
+ * Fetches documents referenced on-chain by URI (T&C contentUri, evidence, ...).
+ * Supports ipfs:// (through a gateway list, tried in order), http(s):// and
+ * data: URIs. Every attempt has its own timeout; the first success wins.
+ * Callers must verify the returned bytes against an on-chain hash.
+ */
+
+export interface ContentResolverOptions {
+  ipfsGateways?: string[]; // Base URLs, CID is appended (e.g. "https://ipfs.io/ipfs/")
+  timeoutMs?: number; // Per attempt (default 10s)
+  maxBytes?: number; // Reject larger responses (default 1 MiB)
+  fetch?: typeof fetch; // Custom fetch (tests, proxies, auth headers)
+}
+
+export const DEFAULT_IPFS_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+  "https://dweb.link/ipfs/",
+];
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Resolve a content URI to raw bytes
+ * @throws "Unsupported content URI" for unknown schemes; otherwise an error
+ *         listing every failed attempt
+ */
+export async function fetchContent(uri: string, options: ContentResolverOptions = {}): Promise<Uint8Array> {
+  if (uri.startsWith("data:")) {
+    return decodeDataUri(uri);
+  }
+
+  const urls = contentUrls(uri, options.ipfsGateways ?? DEFAULT_IPFS_GATEWAYS);
+  const failures: string[] = [];
+
+  for (const url of urls) {
+    try {
+      return await fetchBytes(url, options);
+    } catch (error) {
+      failures.push(`${url}: ${(error as Error).message}`);
+    }
+  }
+  throw new Error(`Failed to fetch ${uri}: ${failures.join("; ")}`);
+}
+
+/**
+ * True if fetchContent can resolve this URI scheme
+ */
+export function isSupportedContentUri(uri: string): boolean {
+  return /^(ipfs|https?|data):/i.test(uri);
+}
+
+function contentUrls(uri: string, gateways: string[]): string[] {
+  if (/^ipfs:\/\//i.test(uri)) {
+    const path = uri.replace(/^ipfs:\/\/(ipfs\/)?/i, "");
+    return gateways.map((gateway) => `${gateway.replace(/\/?$/, "/")}${path}`);
+  }
+  if (/^https?:\/\//i.test(uri)) {
+    return [uri];
+  }
+  throw new Error(`Unsupported content URI: ${uri}`);
+}
+
+async function fetchBytes(url: string, options: ContentResolverOptions): Promise<Uint8Array> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const response = await (options.fetch ?? fetch)(url, {
+    signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+    throw new Error(`Content exceeds ${maxBytes} bytes`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length > maxBytes) {
+    throw new Error(`Content exceeds ${maxBytes} bytes`);
+  }
+  return bytes;
+}
+
+function decodeDataUri(uri: string): Uint8Array {
+  const comma = uri.indexOf(",");
+  if (comma === -1) {
+    throw new Error("Malformed data URI");
+  }
+  const meta = uri.slice(5, comma);
+  const data = uri.slice(comma + 1);
+
+  if (meta.endsWith(";base64")) {
+    const binary = atob(data);
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  }
+  return new TextEncoder().encode(decodeURIComponent(data));
+}
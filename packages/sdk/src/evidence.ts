@@ -0,0 +1,280 @@
+/**
+ * Evidence packages
+ *
+ * A claimant bundles the payment proof, a snapshot of the terms the agent was
+ * bound by, incident logs and damages into an EvidencePackage, hashes its
+ * canonical JSON and signs that hash with EIP-712. The hash is referenced from
+ * claim messages and, for payments without an x402 receipt (whose canonical
+ * hash is used instead, see x402.ts), passed to fileClaim as
+ * paymentReceiptHash, so anyone holding the bundle can prove it is the one
+ * the claimant filed.
+ *
+ *   const pkg = await client.buildEvidencePackage({ ... });
+ *   const signed = await client.signEvidencePackage(pkg);
+ *   await client.fileClaim(agentId, claimedAmount, signed.hash);
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  keccak256,
+  toBytes,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { z } from "zod";
+import { ClaimsManagerAbi, TermsRegistryAbi } from "./contracts";
+import { fetchContent, type ContentResolverOptions } from "./content";
+import { verifyTermsContent } from "./terms";
+import { canonicalize } from "./utils/canonical";
+import { formatIssues, zAddress, zBytes32, zUintString } from "./utils/schema";
+import type {
+  EvidencePackage,
+  EvidencePackageInput,
+  EvidenceVerificationResult,
+  SignedEvidencePackage,
+  VerifiedTerms,
+} from "./types";
+
+/**
+ * Schema version written by buildEvidencePackage
+ */
+export const EVIDENCE_PACKAGE_VERSION = "1.0";
+
+/**
+ * Runtime schema for EvidencePackage
+ */
+export const EvidencePackageSchema: z.ZodType<EvidencePackage> = z.object({
+  version: z.string().min(1),
+  agentId: zUintString,
+  claimant: zAddress,
+  claimId: zUintString.optional(),
+  paymentProof: z.object({
+    type: z.enum(["x402", "crypto", "fiat", "other"]),
+    x402Receipt: z.string().optional(),
+    transactionHash: zBytes32.optional(),
+    amount: zUintString,
+    timestamp: z.string().datetime(),
+  }),
+  termsSnapshot: z.object({
+    version: zUintString,
+    hash: zBytes32,
+    uri: z.string().min(1),
+    maxPayoutPerClaim: zUintString,
+  }),
+  incident: z.object({
+    description: z.string().min(1),
+    timestamp: z.string().datetime(),
+    logs: z.array(z.string()).optional(),
+  }),
+  damages: z.object({
+    description: z.string().min(1),
+    amount: zUintString,
+    evidence: z.array(z.string()),
+  }),
+});
+
+/**
+ * EIP-712 types signed by the claimant. The package itself is committed via
+ * packageHash; the other fields are repeated so wallets show what is signed.
+ */
+export const EvidencePackageTypes = {
+  EvidencePackage: [
+    { name: "claimant", type: "address" },
+    { name: "agentId", type: "uint256" },
+    { name: "claimedAmount", type: "uint256" },
+    { name: "termsHash", type: "bytes32" },
+    { name: "packageHash", type: "bytes32" },
+  ],
+} as const;
+
+/**
+ * EIP-712 domain for evidence signatures, bound to the chain's ClaimsManager
+ */
+export function getEvidenceDomain(chainId: number, claimsManager: Address) {
+  return {
+    name: "Trustful Agents Evidence",
+    version: "1",
+    chainId,
+    verifyingContract: claimsManager,
+  } as const;
+}
+
+/**
+ * Assemble an EvidencePackage with the terms snapshot taken from verified terms
+ * @throws If the result does not match EvidencePackageSchema
+ */
+export function buildEvidencePackage(input: EvidencePackageInput, terms: VerifiedTerms): EvidencePackage {
+  if (terms.agentId !== input.agentId) {
+    throw new Error(`Terms are for agent ${terms.agentId}, not ${input.agentId}`);
+  }
+
+  const pkg = {
+    version: EVIDENCE_PACKAGE_VERSION,
+    agentId: input.agentId.toString(),
+    claimant: input.claimant,
+    ...(input.claimId !== undefined && { claimId: input.claimId.toString() }),
+    paymentProof: { ...input.paymentProof, amount: input.paymentProof.amount.toString() },
+    termsSnapshot: {
+      version: terms.version.toString(),
+      hash: terms.terms.contentHash,
+      uri: terms.terms.contentUri,
+      maxPayoutPerClaim: terms.maxPayoutPerClaim.toString(),
+    },
+    incident: input.incident,
+    damages: {
+      description: input.damages.description,
+      amount: input.damages.amount.toString(),
+      evidence: input.damages.evidence ?? [],
+    },
+  };
+
+  const result = EvidencePackageSchema.safeParse(pkg);
+  if (!result.success) {
+    throw new Error(`Invalid evidence package: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * keccak256 of the package's canonical JSON
+ */
+export function computeEvidencePackageHash(pkg: EvidencePackage): `0x${string}` {
+  return keccak256(toBytes(canonicalize(pkg)));
+}
+
+function typedMessage(pkg: EvidencePackage, packageHash: `0x${string}`) {
+  return {
+    claimant: pkg.claimant,
+    agentId: BigInt(pkg.agentId),
+    claimedAmount: BigInt(pkg.damages.amount),
+    termsHash: pkg.termsSnapshot.hash,
+    packageHash,
+  };
+}
+
+/**
+ * Sign a package as its claimant
+ * @throws If the wallet account is not package.claimant
+ */
+export async function signEvidencePackage(
+  walletClient: WalletClient,
+  claimsManager: Address,
+  pkg: EvidencePackage
+): Promise<SignedEvidencePackage> {
+  const account = walletClient.account;
+  if (!account) {
+    throw new Error("Wallet client not configured");
+  }
+  if (account.address.toLowerCase() !== pkg.claimant.toLowerCase()) {
+    throw new Error(`Evidence must be signed by the claimant ${pkg.claimant}, not ${account.address}`);
+  }
+
+  const hash = computeEvidencePackageHash(pkg);
+  const signature = await walletClient.signTypedData({
+    account,
+    domain: getEvidenceDomain(await walletClient.getChainId(), claimsManager),
+    types: EvidencePackageTypes,
+    primaryType: "EvidencePackage",
+    message: typedMessage(pkg, hash),
+  });
+  return { package: pkg, hash, signature };
+}
+
+/**
+ * Verify a signed package:
+ * - schema, hash and claimant signature (EOA or ERC-1271 smart account)
+ * - the terms snapshot matches the registered terms version and its document
+ * - when claimId is set, the on-chain claim matches the package
+ */
+export async function verifyEvidencePackage(
+  client: PublicClient,
+  contracts: { termsRegistry: Address; claimsManager: Address },
+  signed: SignedEvidencePackage,
+  options?: ContentResolverOptions
+): Promise<EvidenceVerificationResult> {
+  const parsed = EvidencePackageSchema.safeParse(signed.package);
+  if (!parsed.success) {
+    return { valid: false, code: "INVALID_SCHEMA", message: formatIssues(parsed.error) };
+  }
+
+  // Hash what was received, not the parsed copy: parsing strips unknown fields
+  const pkg = signed.package;
+  const hash = computeEvidencePackageHash(pkg);
+  if (hash.toLowerCase() !== signed.hash.toLowerCase()) {
+    return { valid: false, code: "HASH_MISMATCH", message: `Package hash ${hash} does not match ${signed.hash}` };
+  }
+
+  const signatureValid = await client.verifyTypedData({
+    address: pkg.claimant,
+    domain: getEvidenceDomain(client.chain?.id ?? (await client.getChainId()), contracts.claimsManager),
+    types: EvidencePackageTypes,
+    primaryType: "EvidencePackage",
+    message: typedMessage(pkg, hash),
+    signature: signed.signature,
+  });
+  if (!signatureValid) {
+    return { valid: false, code: "INVALID_SIGNATURE", message: `Signature is not from claimant ${pkg.claimant}` };
+  }
+
+  const agentId = BigInt(pkg.agentId);
+  const snapshot = pkg.termsSnapshot;
+
+  if (pkg.claimId !== undefined) {
+    const claim = await client.readContract({
+      address: contracts.claimsManager,
+      abi: ClaimsManagerAbi,
+      functionName: "getClaim",
+      args: [BigInt(pkg.claimId)],
+    });
+    if (
+      claim.agentId !== agentId ||
+      claim.claimant.toLowerCase() !== pkg.claimant.toLowerCase() ||
+      claim.termsVersionAtClaimTime !== BigInt(snapshot.version)
+    ) {
+      return { valid: false, code: "CLAIM_MISMATCH", message: `Claim ${pkg.claimId} does not match the package` };
+    }
+  }
+
+  let terms;
+  try {
+    terms = await client.readContract({
+      address: contracts.termsRegistry,
+      abi: TermsRegistryAbi,
+      functionName: "getTermsVersion",
+      args: [agentId, BigInt(snapshot.version)],
+    });
+  } catch (error) {
+    if (error instanceof BaseError && error.walk((e) => e instanceof ContractFunctionRevertedError)) {
+      return { valid: false, code: "TERMS_MISMATCH", message: `Terms version ${snapshot.version} is not registered` };
+    }
+    throw error;
+  }
+  if (terms.contentHash.toLowerCase() !== snapshot.hash.toLowerCase() || terms.contentUri !== snapshot.uri) {
+    return {
+      valid: false,
+      code: "TERMS_MISMATCH",
+      message: `Terms snapshot does not match registered version ${snapshot.version}`,
+    };
+  }
+
+  let document;
+  try {
+    document = verifyTermsContent(await fetchContent(snapshot.uri, options), snapshot.hash);
+  } catch (error) {
+    return { valid: false, code: "TERMS_UNAVAILABLE", message: (error as Error).message };
+  }
+  if (!document.valid) {
+    return { valid: false, code: "TERMS_UNAVAILABLE", message: `${document.code}: ${document.message}` };
+  }
+  if (document.document.terms.maxPayoutPerClaim !== snapshot.maxPayoutPerClaim) {
+    return {
+      valid: false,
+      code: "TERMS_MISMATCH",
+      message: `maxPayoutPerClaim ${snapshot.maxPayoutPerClaim} does not match the T&C document (${document.document.terms.maxPayoutPerClaim})`,
+    };
+  }
+
+  return { valid: true, package: parsed.data, hash };
+}
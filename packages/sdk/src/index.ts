@@ -17,6 +17,64 @@
  *
  * // Get trust info
  * const trustInfo = await client.getTrustInfo(agentId);
+ *
+ * // T&C document fetched from contentUri and verified against contentHash
+ * const terms = await client.getVerifiedTerms(agentId);
+ * if (terms.valid) console.log(terms.terms.maxPayoutPerClaim);
+ *
+ * // Validation, collateral, terms and claim stats in one eth_call
+ * const snapshot = await client.getAgentTrustSnapshot(agentId);
+ * console.log(snapshot.blockNumber, snapshot.availableBalance);
+ * ```
+ *
+ * @example Other networks
+ * ```ts
+ * // Local Anvil deployment: known chain, fresh addresses
+ * const client = createTrustfulClient({ chainId: 31337, contracts: deployed });
+ *
+ * // Any chain viem knows (or defineChain) plus your own deployment
+ * const client = createTrustfulClient({ chain: optimismSepolia, rpcUrl, contracts });
+ * ```
+ *
+ * @example Subscriptions
+ * ```ts
+ * // Stop serving as soon as validation is revoked
+ * const unwatch = client.watchValidationChanges(agentId, ({ isValidated }) => {
+ *   if (!isValidated) server.close();
+ * }, { confirmations: 0 });
+ *
+ * // Resume after a restart from a persisted cursor
+ * client.watchClaimLifecycle({ agentId }, onClaim, {
+ *   fromBlock: savedCursor + 1n,
+ *   onCursor: (block) => saveCursor(block),
+ * });
+ * ```
+ *
+ * @example Caching
+ * ```ts
+ * // Reads are cached per call type and dropped when a Deposited,
+ * // TermsActivated, VoteCast, ... event for the agent or claim is seen
+ * const client = createTrustfulClient({ chainId: 84532, cache: true });
+ *
+ * // Share one cache between the client and a data provider
+ * const cache = new TrustfulCache({ ttl: { validation: 10_000 } });
+ * const client = createTrustfulClient({ cache });
+ * const provider = createDataProvider({ mode: 'rpc', rpcUrl, contracts, cache });
+ *
+ * cache.stop(); // Stop following events on shutdown
+ * ```
+ *
+ * @example Write functions (require a wallet)
+ * ```ts
+ * const client = createTrustfulClient({
+ *   chainId: 84532,
+ *   rpcUrl: 'https://sepolia.base.org',
+ *   privateKey: process.env.PRIVATE_KEY as `0x${string}`,
+ * });
+ *
+ * // USDC approval is sent automatically if needed
+ * const tx = await client.deposit(agentId, parseUSDC('100'));
+ * await tx.wait();
  * ```
  * 
  * @example Data Provider (for list queries)
@@ -35,14 +93,39 @@
  *   mode: 'subgraph',
  *   subgraphUrl: 'https://api.studio.thegraph.com/...'
  * });
+ *
+ * // Production: Subgraph with RPC fallback (needs both configs)
+ * const provider = createDataProvider({
+ *   mode: 'hybrid',
+ *   chainId: 8453,
+ *   rpcUrl: 'https://mainnet.base.org',
+ *   subgraphUrl: 'https://api.studio.thegraph.com/...',
+ *   hybrid: { maxLagBlocks: 20n, crossVerify: true },
+ * });
  * 
  * // Query claims
- * const claims = await provider.getClaims({ agentId: 5n, status: 'Voting' });
+ * const claims = await provider.getClaims({ agentId: 5n, status: ['Filed', 'EvidenceClosed'] });
+ *
+ * // Walk every claim past The Graph's skip limit
+ * for await (const claim of provider.iterateClaims({ minClaimedAmount: 1_000_000n })) { ... }
  * ```
  */
 
-export { createTrustfulClient, type TrustfulClient } from "./client";
-export { type TrustfulConfig, DEFAULT_CONFIG } from "./config";
+export { createTrustfulClient, type TrustfulClient, type TrustfulClientOptions } from "./client";
+export {
+  type TrustfulConfig,
+  type NetworkName,
+  DEFAULT_CONFIG,
+  ANVIL_CONFIG,
+  ETH_SEPOLIA_CONFIG,
+  BASE_SEPOLIA_CONFIG,
+  BASE_MAINNET_CONFIG,
+  getNetworkConfig,
+  getChainConfig,
+  getChain,
+} from "./config";
+export { NETWORKS } from "./networks";
+export { MULTICALL3_ADDRESS } from "./multicall";
 
 // Contract ABIs
 export * from "./contracts";
@@ -55,21 +138,98 @@ export {
   createDataProvider,
   RpcDataProvider,
   SubgraphDataProvider,
+  HybridDataProvider,
+  CachedDataProvider,
+  DEFAULT_MAX_LAG_BLOCKS,
   RECOMMENDED_CONFIGS,
   getRecommendedMode,
   type DataProvider,
   type DataProviderConfig,
   type DataProviderMode,
+  type ClaimStatusName,
+  type ClaimFilter,
   type ClaimListQuery,
+  type ClaimIterationQuery,
   type ClaimListItem,
+  type AgentFilter,
   type AgentListQuery,
   type AgentListItem,
   type CouncilMemberQuery,
   type CouncilMemberItem,
   type VoteListQuery,
   type VoteItem,
+  type HybridOptions,
+  type HybridFallback,
+  type HybridMismatch,
 } from "./providers";
 
+// Read cache (in-memory LRU by default, pluggable store)
+export {
+  TrustfulCache,
+  MemoryCacheStore,
+  DEFAULT_CACHE_TTL,
+  type CacheCategory,
+  type CacheEntry,
+  type CacheOptions,
+  type CacheStore,
+} from "./cache";
+
+// T&C documents
+export {
+  buildTermsDocument,
+  parseTermsDocument,
+  serializeTermsDocument,
+  computeTermsHash,
+  verifyTermsDocument,
+  verifyTermsContent,
+  TermsDocumentSchema,
+  TERMS_DOCUMENT_VERSION,
+} from "./terms";
+
+// Evidence packages
+export {
+  buildEvidencePackage,
+  computeEvidencePackageHash,
+  signEvidencePackage,
+  verifyEvidencePackage,
+  getEvidenceDomain,
+  EvidencePackageSchema,
+  EvidencePackageTypes,
+  EVIDENCE_PACKAGE_VERSION,
+} from "./evidence";
+
+// x402 payment receipts
+export {
+  parseX402Receipt,
+  verifyX402Payment,
+  verifyClaimPayment,
+  computePaymentReceiptHash,
+  x402ChainId,
+  X402ReceiptSchema,
+  X402_NETWORKS,
+} from "./x402";
+
+// Trust score
+export { computeTrustScore, TRUST_SCORE_VERSION, DEFAULT_TRUST_SCORE_WEIGHTS } from "./score";
+
+// Signed validation responses
+export {
+  verifyValidationResponse,
+  fetchValidationSigner,
+  computeValidationDocumentHash,
+  getValidationDomain,
+  ValidationDocumentTypes,
+} from "./validation";
+
+// Off-chain content (ipfs://, https://, data:)
+export {
+  fetchContent,
+  isSupportedContentUri,
+  DEFAULT_IPFS_GATEWAYS,
+  type ContentResolverOptions,
+} from "./content";
+
 // Utils
 export { formatUSDC, parseUSDC } from "./utils/usdc";
 export { computeRequestHash } from "./utils/hash";
+export { canonicalize } from "./utils/canonical";
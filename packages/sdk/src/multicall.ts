@@ -0,0 +1,226 @@
+/**
+ * Multicall-batched reads
+ *
+ * Aggregates many contract reads into eth_calls through Multicall3, at most
+ * MAX_CALLS_PER_BATCH calls each so large reads stay within RPC gas and
+ * response-size limits. The first batch also reads
+ * Multicall3.getBlockNumber() and the rest are pinned to that block, so all
+ * results are consistent with one block and callers learn which block that was.
+ */
+
+import { parseAbi, type Abi, type Address, type PublicClient } from "viem";
+import {
+  TrustfulValidatorAbi,
+  CollateralVaultAbi,
+  TermsRegistryAbi,
+  ClaimsManagerAbi,
+  ERC8004RegistryAbi,
+} from "./contracts";
+import type { TrustfulConfig } from "./config";
+import type {
+  AgentTrustSnapshot,
+  BatchReadOptions,
+  Claim,
+  ClaimBatch,
+  ClaimStats,
+  CollateralAccount,
+  TermsVersion,
+  ValidationConditions,
+  ValidationRecord,
+  VoteRecord,
+} from "./types";
+
+/**
+ * Multicall3 is deployed at the same address on every supported chain
+ */
+export const MULTICALL3_ADDRESS: Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * Contract reads per eth_call
+ */
+export const MAX_CALLS_PER_BATCH = 100;
+
+const Multicall3BlockAbi = parseAbi(["function getBlockNumber() view returns (uint256 blockNumber)"]);
+
+type SnapshotContracts = Pick<
+  TrustfulConfig["contracts"],
+  "trustfulValidator" | "collateralVault" | "termsRegistry" | "claimsManager"
+>;
+
+interface Call {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+type CallResult = { status: "success"; result: unknown } | { status: "failure"; error: Error };
+
+/**
+ * Run calls in chunks of MAX_CALLS_PER_BATCH, all at the same block, and return
+ * their raw results with the block number they were read at. Individual calls
+ * may fail; the caller decides which failures are fatal.
+ */
+async function aggregate(
+  client: PublicClient,
+  calls: Call[],
+  options: BatchReadOptions = {}
+): Promise<{ blockNumber: bigint; results: CallResult[] }> {
+  const multicallAddress = client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS;
+  const chunks: Call[][] = [];
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_BATCH) {
+    chunks.push(calls.slice(i, i + MAX_CALLS_PER_BATCH));
+  }
+
+  const run = async (chunk: Call[], blockNumber: bigint | undefined, withBlock: boolean) =>
+    (await client.multicall({
+      contracts: [
+        ...(withBlock
+          ? [{ address: multicallAddress, abi: Multicall3BlockAbi, functionName: "getBlockNumber" }]
+          : []),
+        ...chunk,
+      ] as readonly Call[],
+      allowFailure: true,
+      batchSize: 0, // Chunks are sized above; each one is a single eth_call
+      blockNumber,
+      multicallAddress,
+    })) as CallResult[];
+
+  // The first chunk fixes the block the remaining chunks are pinned to
+  const [block, ...results] = await run(chunks[0] ?? [], options.blockNumber, true);
+  if (block.status !== "success") {
+    throw new Error(`Multicall3 not available at ${multicallAddress}: ${block.error.message}`);
+  }
+  const blockNumber = block.result as bigint;
+
+  const rest = await Promise.all(chunks.slice(1).map((chunk) => run(chunk, blockNumber, false)));
+  return { blockNumber, results: results.concat(...rest) };
+}
+
+function unwrap<T>(result: CallResult, call: Call): T {
+  if (result.status !== "success") {
+    throw new Error(`${call.functionName}(${call.args.join(", ")}) failed: ${result.error.message}`);
+  }
+  return result.result as T;
+}
+
+// =============================================================================
+// Claims
+// =============================================================================
+
+export async function readClaims(
+  client: PublicClient,
+  claimsManager: Address,
+  claimIds: readonly bigint[],
+  options?: BatchReadOptions
+): Promise<ClaimBatch> {
+  const calls: Call[] = claimIds.map((claimId) => ({
+    address: claimsManager,
+    abi: ClaimsManagerAbi,
+    functionName: "getClaim",
+    args: [claimId],
+  }));
+
+  const { blockNumber, results } = await aggregate(client, calls, options);
+  return {
+    blockNumber,
+    claims: results.map((result, i) => unwrap<Claim>(result, calls[i])),
+  };
+}
+
+export async function readVotes(
+  client: PublicClient,
+  claimsManager: Address,
+  votes: readonly { claimId: bigint; voter: Address }[],
+  options?: BatchReadOptions
+): Promise<{ blockNumber: bigint; votes: VoteRecord[] }> {
+  const calls: Call[] = votes.map(({ claimId, voter }) => ({
+    address: claimsManager,
+    abi: ClaimsManagerAbi,
+    functionName: "getVote",
+    args: [claimId, voter],
+  }));
+
+  const { blockNumber, results } = await aggregate(client, calls, options);
+  return {
+    blockNumber,
+    votes: results.map((result, i) => unwrap<VoteRecord>(result, calls[i])),
+  };
+}
+
+// =============================================================================
+// Agents
+// =============================================================================
+
+/**
+ * ERC-8004 owners; null for agents whose token no longer exists
+ */
+export async function readAgentOwners(
+  client: PublicClient,
+  erc8004Registry: Address,
+  agentIds: readonly bigint[],
+  options?: BatchReadOptions
+): Promise<(Address | null)[]> {
+  const calls: Call[] = agentIds.map((agentId) => ({
+    address: erc8004Registry,
+    abi: ERC8004RegistryAbi,
+    functionName: "ownerOf",
+    args: [agentId],
+  }));
+
+  const { results } = await aggregate(client, calls, options);
+  return results.map((result) => (result.status === "success" ? (result.result as Address) : null));
+}
+
+// =============================================================================
+// Agent Trust Snapshots
+// =============================================================================
+
+const SNAPSHOT_CALLS = 7;
+
+function snapshotCalls(contracts: SnapshotContracts, agentId: bigint): Call[] {
+  return [
+    { address: contracts.trustfulValidator, abi: TrustfulValidatorAbi, functionName: "isValidated", args: [agentId] },
+    { address: contracts.trustfulValidator, abi: TrustfulValidatorAbi, functionName: "getValidationRecord", args: [agentId] },
+    { address: contracts.trustfulValidator, abi: TrustfulValidatorAbi, functionName: "checkConditions", args: [agentId] },
+    { address: contracts.collateralVault, abi: CollateralVaultAbi, functionName: "getAccount", args: [agentId] },
+    { address: contracts.collateralVault, abi: CollateralVaultAbi, functionName: "getAvailableBalance", args: [agentId] },
+    { address: contracts.termsRegistry, abi: TermsRegistryAbi, functionName: "getActiveTerms", args: [agentId] },
+    { address: contracts.claimsManager, abi: ClaimsManagerAbi, functionName: "getClaimStats", args: [agentId] },
+  ];
+}
+
+export async function readAgentTrustSnapshots(
+  client: PublicClient,
+  contracts: SnapshotContracts,
+  agentIds: readonly bigint[],
+  options?: BatchReadOptions
+): Promise<AgentTrustSnapshot[]> {
+  const calls = agentIds.flatMap((agentId) => snapshotCalls(contracts, agentId));
+  const { blockNumber, results } = await aggregate(client, calls, options);
+
+  return agentIds.map((agentId, i) => {
+    const offset = i * SNAPSHOT_CALLS;
+    const at = (j: number) => [results[offset + j], calls[offset + j]] as const;
+
+    // getActiveTerms reverts with NoActiveTerms when the agent has none
+    let activeTerms: AgentTrustSnapshot["activeTerms"] = null;
+    const [termsResult] = at(5);
+    if (termsResult.status === "success") {
+      const [terms, version] = termsResult.result as readonly [TermsVersion, bigint];
+      activeTerms = { terms, version };
+    }
+
+    return {
+      agentId,
+      blockNumber,
+      isValidated: unwrap<boolean>(...at(0)),
+      validationRecord: unwrap<ValidationRecord>(...at(1)),
+      conditions: unwrap<ValidationConditions>(...at(2)),
+      collateral: unwrap<CollateralAccount>(...at(3)),
+      availableBalance: unwrap<bigint>(...at(4)),
+      activeTerms,
+      claimStats: unwrap<ClaimStats>(...at(6)),
+    };
+  });
+}
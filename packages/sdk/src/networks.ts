@@ -0,0 +1,87 @@
+// =============================================================================
+// AUTO-GENERATED — DO NOT EDIT
+// Generated by: config/scripts/generate-sdk-networks.js
+// Source: config/networks/*.json
+// =============================================================================
+
+export const NETWORKS = {
+  "anvil": {
+    "network": "anvil",
+    "chainId": 31337,
+    "rpcUrl": "http://127.0.0.1:8545",
+    "blockExplorerUrl": "",
+    "startBlock": 0,
+    "contracts": {
+      "usdc": "0x0000000000000000000000000000000000000000",
+      "erc8004Registry": "0x0000000000000000000000000000000000000000",
+      "collateralVault": "0x0000000000000000000000000000000000000000",
+      "termsRegistry": "0x0000000000000000000000000000000000000000",
+      "councilRegistry": "0x0000000000000000000000000000000000000000",
+      "trustfulValidator": "0x0000000000000000000000000000000000000000",
+      "claimsManager": "0x0000000000000000000000000000000000000000",
+      "rulingExecutor": "0x0000000000000000000000000000000000000000"
+    },
+    "apiUrl": "http://localhost:3001",
+    "subgraphUrl": "http://localhost:8000/subgraphs/name/trustful-agents"
+  },
+  "base-mainnet": {
+    "network": "base",
+    "chainId": 8453,
+    "rpcUrl": "https://mainnet.base.org",
+    "blockExplorerUrl": "https://basescan.org",
+    "startBlock": 0,
+    "contracts": {
+      "usdc": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      "erc8004Registry": "0x0000000000000000000000000000000000000000",
+      "collateralVault": "0x0000000000000000000000000000000000000000",
+      "termsRegistry": "0x0000000000000000000000000000000000000000",
+      "councilRegistry": "0x0000000000000000000000000000000000000000",
+      "trustfulValidator": "0x0000000000000000000000000000000000000000",
+      "claimsManager": "0x0000000000000000000000000000000000000000",
+      "rulingExecutor": "0x0000000000000000000000000000000000000000"
+    },
+    "apiUrl": "https://api.trustful-agents.ai",
+    "subgraphUrl": "https://api.studio.thegraph.com/query/YOUR_ID/trustful-agents/version/latest"
+  },
+  "base-sepolia": {
+    "network": "base-sepolia",
+    "chainId": 84532,
+    "rpcUrl": "https://sepolia.base.org",
+    "blockExplorerUrl": "https://sepolia.basescan.org",
+    "startBlock": 36873479,
+    "contracts": {
+      "usdc": "0xd6897C4801c639Ff4eAaA31D7A5b4802613DB681",
+      "erc8004Registry": "0x454909C7551158e12a6a5192dEB359dDF067ec80",
+      "collateralVault": "0xC948389425061c2C960c034c1c9526E9E6f39ff9",
+      "termsRegistry": "0xBDc5328D4442A1e893CD2b1F75d3F64a3e50f923",
+      "councilRegistry": "0xAaA608c80168D90d77Ec5a7f72Fb939E7Add5C32",
+      "trustfulValidator": "0x9628C1bD875C3378B14f0108b60B0b5739fE92E8",
+      "claimsManager": "0x7B0465DF41c3649f88A627cF06941469BE9C7a44",
+      "rulingExecutor": "0x2a49b1826810AefAfFf93eC9317A426BbF8DC11f"
+    },
+    "apiUrl": "https://api.trustful-agents.ai",
+    "subgraphUrl": "https://api.studio.thegraph.com/query/1723244/trustful-agents/v1.3.1"
+  },
+  "eth-sepolia": {
+    "network": "sepolia",
+    "chainId": 11155111,
+    "rpcUrl": "https://rpc.sepolia.org",
+    "blockExplorerUrl": "https://sepolia.etherscan.io",
+    "startBlock": 10327001,
+    "contracts": {
+      "usdc": "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+      "erc8004Registry": "0x8004A818BFB912233c491871b3d84c89A494BD9e",
+      "identityRegistry": "0x8004A818BFB912233c491871b3d84c89A494BD9e",
+      "validationRegistry": "0x8004CB39f29c09145F24Ad9dDe2A108C1A2cdfC5",
+      "reputationRegistry": "0x8004B8FD1A363aa02fDC07635C0c5F94f6Af5B7E",
+      "collateralVault": "0xba911c9AE66a4a6671e5964A95Af91Ba65b4493F",
+      "termsRegistry": "0x9553A8C080E2111BB8369EF961D1cb7191e2d795",
+      "councilRegistry": "0xbD7a50A4E6Bb398e1ACC4C6A265d34c3cebdF63C",
+      "trustfulValidator": "0x16e57Df3Df09c18D239021c15ca6C34739dDD90F",
+      "claimsManager": "0x16F472703B8E36a74927500D144E055d37cEa97d",
+      "rulingExecutor": "0xaFd95218dfE0203722B56C4234Fa687c64C8A028"
+    },
+    "apiUrl": "https://api.trustful-agents.ai",
+    "subgraphUrl": "https://api.studio.thegraph.com/query/1723244/trustful-agents-eth-sepolia/v0.8.1"
+  }
+} as const;
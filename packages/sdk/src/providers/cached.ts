@@ -0,0 +1,100 @@
+/**
+ * Cached Data Provider
+ *
+ * Wraps any DataProvider with a TrustfulCache. Results are keyed by provider
+ * mode + method + query and tagged with the agent, claim or council the query
+ * is scoped to; broad queries (no scope) are dropped on every invalidation.
+ *
+ * Event invalidation needs an RPC client and is only started in RPC mode: the
+ * subgraph trails the chain, so re-reading it right after an event would just
+ * cache the old value again. Subgraph and hybrid results expire by TTL.
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { ANY_TAG, agentTag, cacheKey, claimTag, councilTag, type CacheCategory, type TrustfulCache } from '../cache';
+import type {
+  DataProvider,
+  DataProviderMode,
+  ClaimFilter,
+  ClaimIterationQuery,
+  ClaimListQuery,
+  ClaimListItem,
+  AgentFilter,
+  AgentListQuery,
+  AgentListItem,
+  CouncilMemberQuery,
+  CouncilMemberItem,
+  VoteListQuery,
+  VoteItem,
+} from './index';
+
+type ProtocolStats = Awaited<ReturnType<DataProvider['getProtocolStats']>>;
+
+/**
+ * Tags for a query: its agent, claim and council scope, or ANY_TAG if unscoped
+ */
+function queryTags(query: { agentId?: bigint; claimId?: bigint; councilId?: `0x${string}` }): string[] {
+  const tags: string[] = [];
+  if (query.agentId !== undefined) tags.push(agentTag(query.agentId));
+  if (query.claimId !== undefined) tags.push(claimTag(query.claimId));
+  if (query.councilId !== undefined) tags.push(councilTag(query.councilId));
+  return tags.length > 0 ? tags : [ANY_TAG];
+}
+
+export class CachedDataProvider implements DataProvider {
+  mode: DataProviderMode;
+
+  constructor(
+    private provider: DataProvider,
+    readonly cache: TrustfulCache,
+    watch?: { client: PublicClient; addresses: Address[] }
+  ) {
+    this.mode = provider.mode;
+    if (watch) {
+      cache.watch(watch.client, watch.addresses);
+    }
+  }
+
+  private read<T>(category: CacheCategory, tags: string[], method: string, query: unknown, load: () => Promise<T>) {
+    return this.cache.read(cacheKey(`provider:${this.mode}`, method, [query]), category, tags, load);
+  }
+
+  async getClaims(query: ClaimListQuery): Promise<ClaimListItem[]> {
+    const claims = await this.read('claims', queryTags(query), 'getClaims', query, () => this.provider.getClaims(query));
+    for (const claim of claims) {
+      this.cache.linkClaim(claim.claimId, claim.agentId, claim.councilId);
+    }
+    return claims;
+  }
+
+  async getClaimCount(query: ClaimFilter): Promise<number> {
+    return this.read('claims', queryTags(query), 'getClaimCount', query, () => this.provider.getClaimCount(query));
+  }
+
+  // Walks are not cached: they can span the whole claim set
+  async *iterateClaims(query: ClaimIterationQuery): AsyncIterableIterator<ClaimListItem> {
+    yield* this.provider.iterateClaims(query);
+  }
+
+  async getAgents(query: AgentListQuery): Promise<AgentListItem[]> {
+    return this.read('validation', [ANY_TAG], 'getAgents', query, () => this.provider.getAgents(query));
+  }
+
+  async getAgentCount(query: AgentFilter): Promise<number> {
+    return this.read('validation', [ANY_TAG], 'getAgentCount', query, () => this.provider.getAgentCount(query));
+  }
+
+  async getCouncilMembers(query: CouncilMemberQuery): Promise<CouncilMemberItem[]> {
+    return this.read('council', queryTags(query), 'getCouncilMembers', query, () =>
+      this.provider.getCouncilMembers(query)
+    );
+  }
+
+  async getVotes(query: VoteListQuery): Promise<VoteItem[]> {
+    return this.read('claims', queryTags(query), 'getVotes', query, () => this.provider.getVotes(query));
+  }
+
+  async getProtocolStats(): Promise<ProtocolStats> {
+    return this.read('collateral', [ANY_TAG], 'getProtocolStats', null, () => this.provider.getProtocolStats());
+  }
+}
@@ -17,22 +17,60 @@
  *     mode: 'subgraph',
  *     subgraphUrl: 'https://api.studio.thegraph.com/query/.../trustful-agents/version/latest'
  *   });
+ *
+ *   // Production: subgraph, with RPC fallback when it lags more than 20 blocks or errors
+ *   const provider = createDataProvider({
+ *     mode: 'hybrid',
+ *     chainId: 8453,
+ *     rpcUrl: 'https://mainnet.base.org',
+ *     subgraphUrl: '...',
+ *     hybrid: { maxLagBlocks: 20n, crossVerify: true, onFallback: (e) => console.warn(e) }
+ *   });
+ *
+ *   // Any mode with a cache (see CachedDataProvider)
+ *   const provider = createDataProvider({ mode: 'rpc', ..., cache: { ttl: { claims: 5_000 } } });
  */
 
 import type { DataProvider, DataProviderConfig, DataProviderMode } from './index';
 import { RpcDataProvider } from './rpc';
 import { SubgraphDataProvider } from './subgraph';
+import { HybridDataProvider } from './hybrid';
+import { CachedDataProvider } from './cached';
+import { resolveCache } from '../cache';
 
 /**
  * Create a data provider instance
  */
 export function createDataProvider(config: DataProviderConfig): DataProvider {
+  const cache = resolveCache(config.cache);
+
   switch (config.mode) {
-    case 'rpc':
-      return new RpcDataProvider(config);
+    case 'rpc': {
+      const provider = new RpcDataProvider(config);
+      if (!cache) return provider;
+      return new CachedDataProvider(provider, cache, {
+        client: provider.client,
+        addresses: [
+          provider.contracts.collateralVault,
+          provider.contracts.termsRegistry,
+          provider.contracts.trustfulValidator,
+          provider.contracts.councilRegistry,
+          provider.contracts.claimsManager,
+          provider.contracts.rulingExecutor,
+        ],
+      });
+    }
     
-    case 'subgraph':
-      return new SubgraphDataProvider(config);
+    case 'subgraph': {
+      const provider = new SubgraphDataProvider(config);
+      return cache ? new CachedDataProvider(provider, cache) : provider;
+    }
+
+    case 'hybrid': {
+      // TTL-only like subgraph mode: most results come from the (trailing) subgraph
+      const provider = new HybridDataProvider(config);
+      return cache ? new CachedDataProvider(provider, cache) : provider;
+    }
     
     default:
       throw new Error(`Unknown data provider mode: ${(config as any).mode}`);
@@ -48,6 +86,7 @@ export const RECOMMENDED_CONFIGS = {
    */
   local: {
     mode: 'rpc' as DataProviderMode,
+    chainId: 31337,
     rpcUrl: 'http://localhost:8545',
   },
 
@@ -56,6 +95,7 @@ export const RECOMMENDED_CONFIGS = {
    */
   testnet: {
     mode: 'rpc' as DataProviderMode,
+    chainId: 84532,
     rpcUrl: 'https://sepolia.base.org',
   },
 
@@ -74,6 +114,7 @@ export const RECOMMENDED_CONFIGS = {
 export function getRecommendedMode(chainId: number): DataProviderMode {
   switch (chainId) {
     case 31337: // Anvil
+    case 11155111: // Ethereum Sepolia
     case 84532: // Base Sepolia
       return 'rpc';
     
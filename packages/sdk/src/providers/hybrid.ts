@@ -0,0 +1,224 @@
+/**
+ * Hybrid Data Provider
+ *
+ * Serves queries from the subgraph while it keeps up with the chain, and from
+ * RPC when it does not. Before a query the subgraph's `_meta.block.number` is
+ * compared with the chain head; if it trails by more than maxLagBlocks, or the
+ * subgraph request fails, the query is answered by an RpcDataProvider instead.
+ *
+ * With crossVerify, agents returned by the subgraph have their validation
+ * state and collateral balance re-read from chain (batched via Multicall3) and any
+ * stale values replaced before the result is returned.
+ *
+ * The RPC provider's log index is only built on the first fallback, so that
+ * query pays for the scan from startBlock.
+ */
+
+import type {
+  DataProvider,
+  DataProviderConfig,
+  ClaimFilter,
+  ClaimIterationQuery,
+  ClaimListQuery,
+  ClaimListItem,
+  AgentFilter,
+  AgentListQuery,
+  AgentListItem,
+  CouncilMemberQuery,
+  CouncilMemberItem,
+  VoteListQuery,
+  VoteItem,
+} from './index';
+import { RpcDataProvider } from './rpc';
+import { SubgraphDataProvider } from './subgraph';
+import { readAgentTrustSnapshots } from '../multicall';
+
+type ProtocolStats = Awaited<ReturnType<DataProvider['getProtocolStats']>>;
+
+export interface HybridFallback {
+  method: string;
+  reason: 'lag' | 'error';
+  lag?: bigint; // Blocks behind head (reason 'lag')
+  error?: unknown; // Subgraph failure (reason 'error')
+}
+
+export interface HybridMismatch {
+  agentId: bigint;
+  field: 'isValidated' | 'collateralBalance';
+  subgraph: boolean | bigint;
+  chain: boolean | bigint;
+}
+
+export interface HybridOptions {
+  maxLagBlocks?: bigint; // Fall back to RPC beyond this lag (default 50)
+  lagCheckInterval?: number; // Reuse a lag check for this many ms (default 10s)
+  crossVerify?: boolean; // Re-read validation state and collateral from chain
+  onFallback?: (event: HybridFallback) => void;
+  onMismatch?: (mismatch: HybridMismatch) => void;
+}
+
+export const DEFAULT_MAX_LAG_BLOCKS = 50n;
+const DEFAULT_LAG_CHECK_INTERVAL = 10_000;
+
+export class HybridDataProvider implements DataProvider {
+  mode: 'hybrid' = 'hybrid';
+  readonly subgraph: SubgraphDataProvider;
+  readonly rpc: RpcDataProvider;
+  private options: HybridOptions;
+  private lagCheck?: { at: number; result: Promise<bigint> };
+
+  constructor(config: DataProviderConfig) {
+    this.subgraph = new SubgraphDataProvider(config);
+    this.rpc = new RpcDataProvider(config);
+    this.options = config.hybrid ?? {};
+  }
+
+  /**
+   * Blocks the subgraph trails the chain head by (0 if ahead of this node)
+   */
+  async getLag(): Promise<bigint> {
+    const interval = this.options.lagCheckInterval ?? DEFAULT_LAG_CHECK_INTERVAL;
+    if (!this.lagCheck || Date.now() - this.lagCheck.at > interval) {
+      const result = Promise.all([this.subgraph.getIndexedBlock(), this.rpc.client.getBlockNumber()]).then(
+        ([indexed, head]) => (head > indexed ? head - indexed : 0n)
+      );
+      this.lagCheck = { at: Date.now(), result };
+      // Don't reuse a failed check
+      result.catch(() => {
+        if (this.lagCheck?.result === result) this.lagCheck = undefined;
+      });
+    }
+    return this.lagCheck.result;
+  }
+
+  /**
+   * Run a query on the subgraph, or on RPC if the subgraph lags or fails
+   */
+  private async route<T>(method: string, query: (provider: DataProvider) => Promise<T>): Promise<{ result: T; fromSubgraph: boolean }> {
+    const maxLag = this.options.maxLagBlocks ?? DEFAULT_MAX_LAG_BLOCKS;
+
+    let fallback: HybridFallback;
+    try {
+      const lag = await this.getLag();
+      if (lag <= maxLag) {
+        return { result: await query(this.subgraph), fromSubgraph: true };
+      }
+      fallback = { method, reason: 'lag', lag };
+    } catch (error) {
+      fallback = { method, reason: 'error', error };
+    }
+
+    this.options.onFallback?.(fallback);
+    return { result: await query(this.rpc), fromSubgraph: false };
+  }
+
+  async getClaims(query: ClaimListQuery): Promise<ClaimListItem[]> {
+    return (await this.route('getClaims', (p) => p.getClaims(query))).result;
+  }
+
+  async getClaimCount(query: ClaimFilter): Promise<number> {
+    return (await this.route('getClaimCount', (p) => p.getClaimCount(query))).result;
+  }
+
+  /**
+   * Walk claims from the subgraph; if it fails part way, finish from RPC,
+   * skipping the claims already yielded. The subgraph walks ids as strings
+   * (0, 1, 10, 11, ..., 2), so the two orders differ and no cursor carries over.
+   */
+  async *iterateClaims(query: ClaimIterationQuery): AsyncIterableIterator<ClaimListItem> {
+    const yielded = new Set<bigint>();
+    let fallback: HybridFallback | undefined;
+
+    try {
+      const lag = await this.getLag();
+      if (lag > (this.options.maxLagBlocks ?? DEFAULT_MAX_LAG_BLOCKS)) {
+        fallback = { method: 'iterateClaims', reason: 'lag', lag };
+      }
+    } catch (error) {
+      fallback = { method: 'iterateClaims', reason: 'error', error };
+    }
+
+    if (!fallback) {
+      try {
+        for await (const claim of this.subgraph.iterateClaims(query)) {
+          yielded.add(claim.claimId);
+          yield claim;
+        }
+        return;
+      } catch (error) {
+        fallback = { method: 'iterateClaims', reason: 'error', error };
+      }
+    }
+
+    this.options.onFallback?.(fallback);
+    for await (const claim of this.rpc.iterateClaims(query)) {
+      if (!yielded.has(claim.claimId)) {
+        yield claim;
+      }
+    }
+  }
+
+  async getAgents(query: AgentListQuery): Promise<AgentListItem[]> {
+    const { result, fromSubgraph } = await this.route('getAgents', (p) => p.getAgents(query));
+    if (!fromSubgraph || !this.options.crossVerify || result.length === 0) {
+      return result;
+    }
+    return this.verifyAgents(result, query);
+  }
+
+  async getAgentCount(query: AgentFilter): Promise<number> {
+    return (await this.route('getAgentCount', (p) => p.getAgentCount(query))).result;
+  }
+
+  async getCouncilMembers(query: CouncilMemberQuery): Promise<CouncilMemberItem[]> {
+    return (await this.route('getCouncilMembers', (p) => p.getCouncilMembers(query))).result;
+  }
+
+  async getVotes(query: VoteListQuery): Promise<VoteItem[]> {
+    return (await this.route('getVotes', (p) => p.getVotes(query))).result;
+  }
+
+  async getProtocolStats(): Promise<ProtocolStats> {
+    return (await this.route('getProtocolStats', (p) => p.getProtocolStats())).result;
+  }
+
+  /**
+   * Replace subgraph validation state and collateral with chain values, then
+   * drop agents that no longer match the query (the page may come back short)
+   */
+  private async verifyAgents(agents: AgentListItem[], query: AgentListQuery): Promise<AgentListItem[]> {
+    const snapshots = await readAgentTrustSnapshots(
+      this.rpc.client,
+      this.rpc.contracts,
+      agents.map((a) => a.agentId)
+    );
+
+    const verified = agents.map((agent, i) => {
+      const { isValidated, collateral } = snapshots[i];
+      if (agent.isValidated !== isValidated) {
+        this.options.onMismatch?.({ agentId: agent.agentId, field: 'isValidated', subgraph: agent.isValidated, chain: isValidated });
+      }
+      if (agent.collateralBalance !== collateral.balance) {
+        this.options.onMismatch?.({
+          agentId: agent.agentId,
+          field: 'collateralBalance',
+          subgraph: agent.collateralBalance,
+          chain: collateral.balance,
+        });
+      }
+      return { ...agent, isValidated, collateralBalance: collateral.balance };
+    });
+
+    return verified
+      .filter(
+        (a) =>
+          (query.isValidated === undefined || a.isValidated === query.isValidated) &&
+          (query.minCollateral === undefined || a.collateralBalance >= query.minCollateral)
+      )
+      .sort((a, b) => {
+        const [x, y] = query.orderBy === 'totalClaims' ? [a.totalClaims, b.totalClaims] : [a.collateralBalance, b.collateralBalance];
+        const cmp = x < y ? -1 : x > y ? 1 : 0;
+        return query.orderDirection === 'asc' ? cmp : -cmp;
+      });
+  }
+}
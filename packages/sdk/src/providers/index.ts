@@ -2,23 +2,34 @@
  * Data Provider Abstraction
  * 
  * Allows switching between:
- * - RPC: Direct contract reads (testnet, simple queries)
+ * - RPC: Contract reads plus an in-memory index of contract logs (testnet, Anvil)
  * - Subgraph: GraphQL queries via The Graph (mainnet, complex queries)
+ * - Hybrid: Subgraph, falling back to RPC when it lags or fails
  * 
  * Usage:
  *   const provider = createDataProvider({ mode: 'rpc', ... });
- *   const claims = await provider.getClaimsByAgent(agentId);
+ *   const claims = await provider.getClaims({ agentId, status: ['Filed', 'EvidenceClosed'] });
+ *
+ *   for await (const claim of provider.iterateClaims({ filedFrom: since })) { ... }
  * 
  * Switch to subgraph for mainnet:
  *   const provider = createDataProvider({ mode: 'subgraph', subgraphUrl: '...' });
  */
 
-export type DataProviderMode = 'rpc' | 'subgraph';
+import type { Chain } from 'viem';
+import type { CacheOptions, TrustfulCache } from '../cache';
+import type { HybridOptions } from './hybrid';
+import type { ClaimStatus } from '../types';
+
+export type DataProviderMode = 'rpc' | 'subgraph' | 'hybrid';
 
 export interface DataProviderConfig {
   mode: DataProviderMode;
   // RPC mode config
+  chainId?: number; // A network in config/networks/; supplies chain and default contracts
+  chain?: Chain; // Full viem chain for other networks (takes precedence over chainId)
   rpcUrl?: string;
+  startBlock?: bigint; // First block to scan for logs (default: the network's deployment block, else 0)
   contracts?: {
     collateralVault: `0x${string}`;
     termsRegistry: `0x${string}`;
@@ -26,31 +37,58 @@ export interface DataProviderConfig {
     councilRegistry: `0x${string}`;
     claimsManager: `0x${string}`;
     rulingExecutor: `0x${string}`;
+    erc8004Registry?: `0x${string}`; // Agent owners in getAgents (zero address without it)
   };
   // Subgraph mode config
   subgraphUrl?: string;
+  // Hybrid mode config (also needs the RPC and subgraph config above)
+  hybrid?: HybridOptions;
+  // Cache query results (true for defaults); a TrustfulCache can be shared with a TrustfulClient
+  cache?: boolean | CacheOptions | TrustfulCache;
 }
 
+/**
+ * Claim status names, as in the ClaimStatus enum of subgraph/schema.graphql
+ * (and the contract's ClaimStatus)
+ */
+export type ClaimStatusName = keyof typeof ClaimStatus;
+
 /**
  * Query types for complex/aggregated data that benefit from indexing
  */
-export interface ClaimListQuery {
+export interface ClaimFilter {
   agentId?: bigint;
   claimant?: `0x${string}`;
   councilId?: `0x${string}`;
-  status?: 'Filed' | 'Evidence' | 'Voting' | 'Approved' | 'Rejected' | 'Executed' | 'Cancelled';
+  status?: ClaimStatusName | ClaimStatusName[]; // Any of
+  filedFrom?: bigint; // Unix seconds, inclusive
+  filedTo?: bigint; // Unix seconds, inclusive
+  minClaimedAmount?: bigint; // USDC base units, inclusive
+  maxClaimedAmount?: bigint;
+}
+
+export interface ClaimListQuery extends ClaimFilter {
   first?: number;
-  skip?: number;
+  skip?: number; // The Graph rejects skip > 5000; use iterateClaims to walk large sets
   orderBy?: 'filedAt' | 'claimedAmount';
   orderDirection?: 'asc' | 'desc';
 }
 
-export interface AgentListQuery {
+export interface ClaimIterationQuery extends ClaimFilter {
+  pageSize?: number; // Claims fetched per request (default 1000)
+}
+
+export interface AgentFilter {
   isValidated?: boolean;
   hasActiveTerms?: boolean;
   minCollateral?: bigint;
+}
+
+export interface AgentListQuery extends AgentFilter {
   first?: number;
   skip?: number;
+  orderBy?: 'collateralBalance' | 'totalClaims'; // Default collateralBalance
+  orderDirection?: 'asc' | 'desc'; // Default desc
 }
 
 export interface CouncilMemberQuery {
@@ -118,10 +156,14 @@ export interface DataProvider {
   
   // Claims queries
   getClaims(query: ClaimListQuery): Promise<ClaimListItem[]>;
-  getClaimCount(query: Omit<ClaimListQuery, 'first' | 'skip' | 'orderBy' | 'orderDirection'>): Promise<number>;
+  getClaimCount(query: ClaimFilter): Promise<number>;
+  // Every matching claim, fetched page by page. The order depends on the
+  // provider: RPC walks claim ids numerically, the subgraph as strings
+  iterateClaims(query: ClaimIterationQuery): AsyncIterableIterator<ClaimListItem>;
   
   // Agent queries  
   getAgents(query: AgentListQuery): Promise<AgentListItem[]>;
+  getAgentCount(query: AgentFilter): Promise<number>;
   
   // Council queries
   getCouncilMembers(query: CouncilMemberQuery): Promise<CouncilMemberItem[]>;
@@ -140,5 +182,13 @@ export interface DataProvider {
 }
 
 export { RpcDataProvider } from './rpc';
+export { CachedDataProvider } from './cached';
 export { SubgraphDataProvider } from './subgraph';
-export { createDataProvider } from './factory';
+export {
+  HybridDataProvider,
+  DEFAULT_MAX_LAG_BLOCKS,
+  type HybridOptions,
+  type HybridFallback,
+  type HybridMismatch,
+} from './hybrid';
+export { createDataProvider, RECOMMENDED_CONFIGS, getRecommendedMode } from './factory';
@@ -0,0 +1,96 @@
+/**
+ * RPC Log Index
+ *
+ * The contracts cannot enumerate claims, agents or votes, so RPC mode scans
+ * their logs (ClaimFiled, VoteCast, Deposited, TermsRegistered,
+ * ValidationIssued, ...) from the deployment block with chunked eth_getLogs
+ * and keeps the ids it finds in memory. Each sync only fetches the blocks
+ * added since the last one. The index holds identities and immutable fields
+ * only; current state is read from the contracts at the synced block.
+ */
+
+import { parseEventLogs, type Address, type PublicClient } from 'viem';
+import { TrustfulEventsAbi } from '../contracts';
+
+// Most RPC providers cap eth_getLogs ranges
+const LOG_CHUNK_SIZE = 2_000n;
+
+export interface IndexedClaim {
+  claimId: bigint;
+  agentId: bigint;
+  claimant: `0x${string}`;
+  claimedAmount: bigint;
+  councilId: `0x${string}`;
+}
+
+export class RpcLogIndex {
+  readonly claims = new Map<bigint, IndexedClaim>();
+  readonly agents = new Set<bigint>();
+  readonly voters = new Map<bigint, Set<Address>>(); // claimId -> voters
+  private syncedTo?: bigint;
+  private syncing?: Promise<bigint>;
+
+  constructor(
+    private client: PublicClient,
+    private addresses: Address[],
+    private startBlock: bigint
+  ) {}
+
+  /**
+   * Bring the index up to the chain head
+   * @returns The block the index is synced to; read state at this block
+   */
+  sync(): Promise<bigint> {
+    // Concurrent queries share one sync
+    this.syncing ??= this.catchUp().finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async catchUp(): Promise<bigint> {
+    const head = await this.client.getBlockNumber();
+    let fromBlock = this.syncedTo === undefined ? this.startBlock : this.syncedTo + 1n;
+
+    while (fromBlock <= head) {
+      const end = fromBlock + LOG_CHUNK_SIZE - 1n;
+      const toBlock = end < head ? end : head;
+      const logs = await this.client.getLogs({ address: this.addresses, fromBlock, toBlock });
+      for (const event of parseEventLogs({ abi: TrustfulEventsAbi, logs, strict: true })) {
+        this.apply(event);
+      }
+      // Advance per chunk so a failed sync resumes where it stopped
+      this.syncedTo = toBlock;
+      fromBlock = toBlock + 1n;
+    }
+
+    return this.syncedTo ?? head;
+  }
+
+  private apply(event: ReturnType<typeof parseEventLogs<typeof TrustfulEventsAbi>>[number]): void {
+    switch (event.eventName) {
+      case 'ClaimFiled': {
+        const { claimId, agentId, claimant, claimedAmount, councilId } = event.args;
+        this.claims.set(claimId, { claimId, agentId, claimant, claimedAmount, councilId });
+        this.agents.add(agentId);
+        break;
+      }
+
+      case 'VoteCast': {
+        const { claimId, voter } = event.args;
+        let voters = this.voters.get(claimId);
+        if (!voters) this.voters.set(claimId, (voters = new Set()));
+        voters.add(voter);
+        break;
+      }
+
+      case 'Deposited':
+      case 'TermsRegistered':
+      case 'TermsActivated':
+      case 'ValidationIssued':
+      case 'ValidationConditionsChanged':
+        this.agents.add(event.args.agentId);
+        break;
+    }
+  }
+}
@@ -1,24 +1,29 @@
 /**
  * RPC Data Provider
- * 
- * Reads data directly from contracts via RPC calls.
- * Suitable for testnet and simple queries.
- * 
+ *
+ * Answers list queries from an RPC node alone (testnets, local Anvil).
+ * Claims, agents and votes are enumerated from contract logs (see
+ * RpcLogIndex); their current state is read in one Multicall3 batch pinned
+ * to the block the index was synced to, then filtered, sorted and paginated
+ * client-side.
+ *
  * Limitations:
- * - No efficient filtering (must fetch all then filter client-side)
- * - No aggregations (must compute client-side)
- * - Multiple RPC calls for list queries
- * 
+ * - The first query scans logs from startBlock (slow on a fresh process)
+ * - Filters and aggregations run client-side over every indexed entity
+ * - The index lives in memory and is rebuilt per process
+ *
  * For production with complex queries, use SubgraphDataProvider.
  */
 
-import { createPublicClient, http, type PublicClient } from 'viem';
-import { baseSepolia, base } from 'viem/chains';
+import { createPublicClient, http, zeroAddress, type Chain, type PublicClient } from 'viem';
 import type {
   DataProvider,
   DataProviderConfig,
+  ClaimFilter,
+  ClaimIterationQuery,
   ClaimListQuery,
   ClaimListItem,
+  AgentFilter,
   AgentListQuery,
   AgentListItem,
   CouncilMemberQuery,
@@ -26,128 +31,128 @@ import type {
   VoteListQuery,
   VoteItem,
 } from './index';
-import { ClaimsManagerAbi, CouncilRegistryAbi, CollateralVaultAbi, TrustfulValidatorAbi } from '../contracts';
+import { CouncilRegistryAbi } from '../contracts';
+import { readAgentOwners, readAgentTrustSnapshots, readClaims, readVotes } from '../multicall';
+import { findChainConfig, getChain, getChainConfig } from '../config';
+import { ClaimStatus, type AgentTrustSnapshot } from '../types';
+import { RpcLogIndex, type IndexedClaim } from './rpc-index';
 
 export class RpcDataProvider implements DataProvider {
   mode: 'rpc' = 'rpc';
-  private client: PublicClient;
-  private contracts: NonNullable<DataProviderConfig['contracts']>;
+  readonly client: PublicClient;
+  readonly contracts: NonNullable<DataProviderConfig['contracts']>;
+  private index: RpcLogIndex;
 
   constructor(config: DataProviderConfig) {
-    if (!config.contracts) {
-      throw new Error('RpcDataProvider requires contracts config');
+    const chainId = config.chain?.id ?? config.chainId;
+    const network = chainId === undefined ? undefined : config.contracts ? findChainConfig(chainId) : getChainConfig(chainId);
+
+    const contracts = config.contracts ?? network?.contracts;
+    if (!contracts) {
+      throw new Error('RpcDataProvider requires contracts config (or the chainId of a known network)');
     }
-    
-    this.contracts = config.contracts;
-    
-    // Determine chain from contract addresses or default to testnet
-    const chain = config.rpcUrl?.includes('mainnet') ? base : baseSepolia;
-    
+    this.contracts = contracts;
+
+    // Without a chain, viem reads the chain ID from the RPC endpoint when it needs it
+    const chain: Chain | undefined = config.chain ?? (config.chainId !== undefined ? getChain(config.chainId) : undefined);
+
     this.client = createPublicClient({
       chain,
-      transport: http(config.rpcUrl),
+      transport: http(config.rpcUrl ?? network?.dataSource.rpcUrl),
     });
+
+    this.index = new RpcLogIndex(
+      this.client,
+      [contracts.claimsManager, contracts.collateralVault, contracts.termsRegistry, contracts.trustfulValidator],
+      config.startBlock ?? network?.startBlock ?? 0n
+    );
   }
 
   /**
    * Get claims matching query
-   * 
-   * Note: RPC mode fetches claims by agent, then filters client-side.
-   * This is inefficient for broad queries - use subgraph for production.
+   *
+   * Without status or filedAt filters only the requested page is read from
+   * chain; claim ids increase with filedAt and claimedAmount is indexed.
    */
   async getClaims(query: ClaimListQuery): Promise<ClaimListItem[]> {
-    // RPC limitation: must have agentId to query
-    if (!query.agentId) {
-      console.warn('RpcDataProvider.getClaims: No agentId provided. Returning empty array. Use subgraph for broad queries.');
-      return [];
-    }
+    const blockNumber = await this.index.sync();
+    const orderBy = query.orderBy ?? 'filedAt';
+    const desc = (query.orderDirection ?? 'desc') === 'desc';
+    const skip = query.skip ?? 0;
+    const first = query.first ?? 100;
 
-    // Get claim IDs for this agent
-    const claimIds = await this.client.readContract({
-      address: this.contracts.claimsManager,
-      abi: ClaimsManagerAbi,
-      functionName: 'getClaimsByAgent',
-      args: [query.agentId],
-    }) as bigint[];
-
-    // Fetch each claim
-    const claims: ClaimListItem[] = [];
-    for (const claimId of claimIds) {
-      const claim = await this.client.readContract({
-        address: this.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: 'getClaim',
-        args: [claimId],
-      }) as any;
-
-      claims.push({
-        claimId: claim.claimId,
-        agentId: claim.agentId,
-        claimant: claim.claimant,
-        claimedAmount: claim.claimedAmount,
-        approvedAmount: claim.approvedAmount,
-        status: claim.status,
-        filedAt: claim.filedAt,
-        evidenceDeadline: claim.evidenceDeadline,
-        votingDeadline: claim.votingDeadline,
-        councilId: claim.councilId,
-      });
-    }
+    let candidates = this.indexedClaims(query);
 
-    // Apply filters
-    let filtered = claims;
-    
-    if (query.claimant) {
-      filtered = filtered.filter(c => c.claimant.toLowerCase() === query.claimant!.toLowerCase());
-    }
-    
-    if (query.councilId) {
-      filtered = filtered.filter(c => c.councilId === query.councilId);
-    }
-    
-    if (query.status) {
-      const statusMap: Record<string, number> = {
-        'Filed': 0,
-        'Evidence': 1,
-        'Voting': 2,
-        'Approved': 3,
-        'Rejected': 4,
-        'Executed': 5,
-        'Cancelled': 6,
-      };
-      filtered = filtered.filter(c => c.status === statusMap[query.status!]);
+    if (!needsState(query)) {
+      candidates = sortBy(candidates, (c) => (orderBy === 'filedAt' ? c.claimId : c.claimedAmount), desc);
+      return this.readClaimItems(candidates.slice(skip, skip + first), blockNumber);
     }
 
-    // Sort
-    if (query.orderBy) {
-      filtered.sort((a, b) => {
-        const aVal = a[query.orderBy!];
-        const bVal = b[query.orderBy!];
-        const cmp = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-        return query.orderDirection === 'desc' ? -cmp : cmp;
-      });
-    }
+    const claims = (await this.readClaimItems(candidates, blockNumber)).filter(stateFilter(query));
+    return sortBy(claims, (c) => c[orderBy], desc).slice(skip, skip + first);
+  }
 
-    // Paginate
-    const skip = query.skip ?? 0;
-    const first = query.first ?? 100;
-    return filtered.slice(skip, skip + first);
+  async getClaimCount(query: ClaimFilter): Promise<number> {
+    const blockNumber = await this.index.sync();
+    const candidates = this.indexedClaims(query);
+    if (!needsState(query)) {
+      return candidates.length;
+    }
+    const claims = await this.readClaimItems(candidates, blockNumber);
+    return claims.filter(stateFilter(query)).length;
   }
 
-  async getClaimCount(query: Omit<ClaimListQuery, 'first' | 'skip' | 'orderBy' | 'orderDirection'>): Promise<number> {
-    const claims = await this.getClaims({ ...query, first: 10000 });
-    return claims.length;
+  /**
+   * Walk every matching claim in claim id order
+   *
+   * Claims are read pageSize at a time, all pinned to the block the index was
+   * synced to when iteration started.
+   */
+  async *iterateClaims(query: ClaimIterationQuery): AsyncIterableIterator<ClaimListItem> {
+    const blockNumber = await this.index.sync();
+    const candidates = sortBy(this.indexedClaims(query), (c) => c.claimId, false);
+    const pageSize = query.pageSize ?? 1000;
+    const matches = stateFilter(query);
+
+    for (let i = 0; i < candidates.length; i += pageSize) {
+      const page = await this.readClaimItems(candidates.slice(i, i + pageSize), blockNumber);
+      yield* page.filter(matches);
+    }
   }
 
   /**
-   * Get agents matching query
-   * 
-   * Note: RPC mode cannot enumerate all agents efficiently.
-   * This returns empty for broad queries - use subgraph for production.
+   * Get agents matching query, by collateral balance (highest first) unless
+   * orderBy says otherwise
+   *
+   * Agents are every id seen in a deposit, terms, validation or claim event.
    */
-  async getAgents(_query: AgentListQuery): Promise<AgentListItem[]> {
-    console.warn('RpcDataProvider.getAgents: Cannot enumerate agents via RPC. Use subgraph for this query.');
-    return [];
+  async getAgents(query: AgentListQuery): Promise<AgentListItem[]> {
+    const { blockNumber, snapshots: matching } = await this.matchingAgents(query);
+    const skip = query.skip ?? 0;
+    const desc = (query.orderDirection ?? 'desc') === 'desc';
+    const key =
+      query.orderBy === 'totalClaims'
+        ? (s: AgentTrustSnapshot) => s.claimStats.totalClaims
+        : (s: AgentTrustSnapshot) => s.collateral.balance;
+    const page = sortBy(matching, key, desc).slice(skip, skip + (query.first ?? 100));
+
+    const owners = this.contracts.erc8004Registry
+      ? await readAgentOwners(this.client, this.contracts.erc8004Registry, page.map((s) => s.agentId), { blockNumber })
+      : page.map(() => null);
+
+    return page.map((s, i) => ({
+      agentId: s.agentId,
+      owner: owners[i] ?? zeroAddress,
+      collateralBalance: s.collateral.balance,
+      isValidated: s.isValidated,
+      hasActiveTerms: s.activeTerms !== null,
+      totalClaims: Number(s.claimStats.totalClaims),
+      pendingClaims: Number(s.claimStats.pendingClaims),
+    }));
+  }
+
+  async getAgentCount(query: AgentFilter): Promise<number> {
+    return (await this.matchingAgents(query)).snapshots.length;
   }
 
   /**
@@ -160,17 +165,17 @@ export class RpcDataProvider implements DataProvider {
       abi: CouncilRegistryAbi,
       functionName: 'getCouncilMembers',
       args: [query.councilId],
-    }) as `0x${string}`[];
+    });
 
     const result: CouncilMemberItem[] = [];
-    
+
     for (const address of members) {
       const memberData = await this.client.readContract({
         address: this.contracts.councilRegistry,
         abi: CouncilRegistryAbi,
         functionName: 'getMember',
         args: [query.councilId, address],
-      }) as any;
+      });
 
       // Filter by active if requested
       if (query.activeOnly && !memberData.active) {
@@ -190,56 +195,35 @@ export class RpcDataProvider implements DataProvider {
   }
 
   /**
-   * Get votes
-   * 
-   * Note: RPC mode requires claimId to query votes.
+   * Get votes, most recent first
    */
   async getVotes(query: VoteListQuery): Promise<VoteItem[]> {
-    if (!query.claimId) {
-      console.warn('RpcDataProvider.getVotes: No claimId provided. Use subgraph for voter-based queries.');
-      return [];
-    }
+    const blockNumber = await this.index.sync();
 
-    // Get voters for this claim
-    const voters = await this.client.readContract({
-      address: this.contracts.claimsManager,
-      abi: ClaimsManagerAbi,
-      functionName: 'getClaimVoters',
-      args: [query.claimId],
-    }) as `0x${string}`[];
-
-    const votes: VoteItem[] = [];
-    
-    for (const voter of voters) {
-      // Filter by voter if specified
-      if (query.voter && voter.toLowerCase() !== query.voter.toLowerCase()) {
-        continue;
+    const pairs: { claimId: bigint; voter: `0x${string}` }[] = [];
+    for (const [claimId, voters] of this.index.voters) {
+      if (query.claimId !== undefined && claimId !== query.claimId) continue;
+      if (query.councilId && this.index.claims.get(claimId)?.councilId !== query.councilId) continue;
+      for (const voter of voters) {
+        if (query.voter && voter.toLowerCase() !== query.voter.toLowerCase()) continue;
+        pairs.push({ claimId, voter });
       }
-
-      const vote = await this.client.readContract({
-        address: this.contracts.claimsManager,
-        abi: ClaimsManagerAbi,
-        functionName: 'getVote',
-        args: [query.claimId, voter],
-      }) as any;
-
-      votes.push({
-        claimId: query.claimId,
-        voter,
-        vote: vote.vote,
-        approvedAmount: vote.approvedAmount,
-        reasoning: vote.reasoning,
-        votedAt: vote.votedAt,
-      });
     }
 
-    return votes;
+    const { votes } = await readVotes(this.client, this.contracts.claimsManager, pairs, { blockNumber });
+    const items = votes.map((vote, i) => ({
+      claimId: pairs[i].claimId,
+      voter: pairs[i].voter,
+      vote: vote.vote,
+      approvedAmount: vote.approvedAmount,
+      reasoning: vote.reasoning,
+      votedAt: vote.votedAt,
+    }));
+    return sortBy(items, (v) => v.votedAt, true);
   }
 
   /**
-   * Get protocol-wide stats
-   * 
-   * Note: Very limited in RPC mode - no way to enumerate all agents.
+   * Get protocol-wide stats, computed over every indexed agent
    */
   async getProtocolStats(): Promise<{
     totalAgents: number;
@@ -248,15 +232,90 @@ export class RpcDataProvider implements DataProvider {
     totalClaims: number;
     totalPaidOut: bigint;
   }> {
-    console.warn('RpcDataProvider.getProtocolStats: Limited data available via RPC. Use subgraph for accurate stats.');
-    
-    // Return placeholder - RPC cannot efficiently compute these
+    const blockNumber = await this.index.sync();
+    const snapshots = await readAgentTrustSnapshots(this.client, this.contracts, [...this.index.agents], { blockNumber });
+
+    return {
+      totalAgents: snapshots.length,
+      validatedAgents: snapshots.filter((s) => s.isValidated).length,
+      totalCollateral: snapshots.reduce((sum, s) => sum + s.collateral.balance, 0n),
+      totalClaims: this.index.claims.size,
+      totalPaidOut: snapshots.reduce((sum, s) => sum + s.claimStats.totalPaidOut, 0n),
+    };
+  }
+
+  /**
+   * Trust snapshots of the indexed agents matching the filter
+   */
+  private async matchingAgents(query: AgentFilter): Promise<{ blockNumber: bigint; snapshots: AgentTrustSnapshot[] }> {
+    const blockNumber = await this.index.sync();
+    const snapshots = await readAgentTrustSnapshots(this.client, this.contracts, [...this.index.agents], { blockNumber });
+
     return {
-      totalAgents: 0,
-      validatedAgents: 0,
-      totalCollateral: 0n,
-      totalClaims: 0,
-      totalPaidOut: 0n,
+      blockNumber,
+      snapshots: snapshots.filter(
+        (s) =>
+          (query.isValidated === undefined || s.isValidated === query.isValidated) &&
+          (query.hasActiveTerms === undefined || (s.activeTerms !== null) === query.hasActiveTerms) &&
+          (query.minCollateral === undefined || s.collateral.balance >= query.minCollateral)
+      ),
     };
   }
+
+  /**
+   * Indexed claims matching the query's agent, claimant, council and amount filters
+   */
+  private indexedClaims(query: ClaimFilter): IndexedClaim[] {
+    return [...this.index.claims.values()].filter(
+      (c) =>
+        (query.agentId === undefined || c.agentId === query.agentId) &&
+        (!query.claimant || c.claimant.toLowerCase() === query.claimant.toLowerCase()) &&
+        (!query.councilId || c.councilId.toLowerCase() === query.councilId.toLowerCase()) &&
+        (query.minClaimedAmount === undefined || c.claimedAmount >= query.minClaimedAmount) &&
+        (query.maxClaimedAmount === undefined || c.claimedAmount <= query.maxClaimedAmount)
+    );
+  }
+
+  private async readClaimItems(candidates: IndexedClaim[], blockNumber: bigint): Promise<ClaimListItem[]> {
+    const { claims } = await readClaims(
+      this.client,
+      this.contracts.claimsManager,
+      candidates.map((c) => c.claimId),
+      { blockNumber }
+    );
+    return claims.map((claim) => ({
+      claimId: claim.claimId,
+      agentId: claim.agentId,
+      claimant: claim.claimant,
+      claimedAmount: claim.claimedAmount,
+      approvedAmount: claim.approvedAmount,
+      status: claim.status,
+      filedAt: claim.filedAt,
+      evidenceDeadline: claim.evidenceDeadline,
+      votingDeadline: claim.votingDeadline,
+      councilId: claim.councilId,
+    }));
+  }
+}
+
+/**
+ * Whether the filter needs claim state read from chain (status, filedAt)
+ */
+function needsState(query: ClaimFilter): boolean {
+  return query.status !== undefined || query.filedFrom !== undefined || query.filedTo !== undefined;
+}
+
+function stateFilter(query: ClaimFilter): (claim: ClaimListItem) => boolean {
+  const statuses = query.status === undefined ? undefined : [query.status].flat().map((name) => ClaimStatus[name]);
+  return (c) =>
+    (statuses === undefined || statuses.includes(c.status)) &&
+    (query.filedFrom === undefined || c.filedAt >= query.filedFrom) &&
+    (query.filedTo === undefined || c.filedAt <= query.filedTo);
+}
+
+function sortBy<T>(items: T[], key: (item: T) => bigint, desc: boolean): T[] {
+  return [...items].sort((a, b) => {
+    const cmp = key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0;
+    return desc ? -cmp : cmp;
+  });
 }
@@ -1,15 +1,19 @@
 /**
  * Subgraph Data Provider
- * 
+ *
  * Reads data from The Graph's indexed subgraph.
  * Suitable for mainnet and complex queries.
- * 
+ *
  * Advantages over RPC:
  * - Efficient filtering and pagination
  * - Aggregations computed by indexer
  * - Single request for complex queries
  * - Historical data access
- * 
+ *
+ * Filters are sent as GraphQL variables (typed `<Entity>_filter` inputs),
+ * never interpolated into the query. The Graph caps `skip` at 5000, so large
+ * result sets are walked with `id_gt` cursors (iterateClaims and the counts).
+ *
  * Prerequisites:
  * 1. Deploy subgraph to The Graph Studio
  * 2. Get your subgraph URL
@@ -19,8 +23,11 @@
 import type {
   DataProvider,
   DataProviderConfig,
+  ClaimFilter,
+  ClaimIterationQuery,
   ClaimListQuery,
   ClaimListItem,
+  AgentFilter,
   AgentListQuery,
   AgentListItem,
   CouncilMemberQuery,
@@ -28,6 +35,81 @@ import type {
   VoteListQuery,
   VoteItem,
 } from './index';
+import { ClaimStatus, Vote } from '../types';
+
+// The Graph limits
+const MAX_FIRST = 1000;
+const MAX_SKIP = 5000;
+
+const CLAIM_FIELDS = `
+  id
+  agent { id }
+  council { id }
+  claimant
+  claimedAmount
+  approvedAmount
+  status
+  filedAt
+  evidenceDeadline
+  votingDeadline
+`;
+
+interface SubgraphClaim {
+  id: string;
+  agent: { id: string };
+  council: { id: string };
+  claimant: string;
+  claimedAmount: string;
+  approvedAmount: string | null;
+  status: keyof typeof ClaimStatus;
+  filedAt: string;
+  evidenceDeadline: string;
+  votingDeadline: string;
+}
+
+/**
+ * Agent entity ids are the token id as hex (graph-ts BigInt.toHexString)
+ */
+function agentEntityId(agentId: bigint): string {
+  return `0x${agentId.toString(16)}`;
+}
+
+function claimWhere(query: ClaimFilter): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  if (query.agentId !== undefined) where.agent = agentEntityId(query.agentId);
+  if (query.claimant) where.claimant = query.claimant.toLowerCase();
+  if (query.councilId) where.council = query.councilId.toLowerCase();
+  if (query.status !== undefined) where.status_in = [query.status].flat();
+  if (query.filedFrom !== undefined) where.filedAt_gte = query.filedFrom.toString();
+  if (query.filedTo !== undefined) where.filedAt_lte = query.filedTo.toString();
+  if (query.minClaimedAmount !== undefined) where.claimedAmount_gte = query.minClaimedAmount.toString();
+  if (query.maxClaimedAmount !== undefined) where.claimedAmount_lte = query.maxClaimedAmount.toString();
+  return where;
+}
+
+function agentWhere(query: AgentFilter): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  if (query.isValidated !== undefined) where.isValidated = query.isValidated;
+  // activeTermsVersion is 0 until terms are activated and after deactivation
+  if (query.hasActiveTerms !== undefined) where[query.hasActiveTerms ? 'activeTermsVersion_gt' : 'activeTermsVersion'] = 0;
+  if (query.minCollateral !== undefined) where.collateralBalance_gte = query.minCollateral.toString();
+  return where;
+}
+
+function toClaimListItem(c: SubgraphClaim): ClaimListItem {
+  return {
+    claimId: BigInt(c.id),
+    agentId: BigInt(c.agent.id),
+    claimant: c.claimant as `0x${string}`,
+    claimedAmount: BigInt(c.claimedAmount),
+    approvedAmount: BigInt(c.approvedAmount ?? '0'),
+    status: ClaimStatus[c.status],
+    filedAt: BigInt(c.filedAt),
+    evidenceDeadline: BigInt(c.evidenceDeadline),
+    votingDeadline: BigInt(c.votingDeadline),
+    councilId: c.council.id as `0x${string}`,
+  };
+}
 
 export class SubgraphDataProvider implements DataProvider {
   mode: 'subgraph' = 'subgraph';
@@ -52,7 +134,7 @@ export class SubgraphDataProvider implements DataProvider {
     }
 
     const json = await response.json();
-    
+
     if (json.errors) {
       throw new Error(`Subgraph query error: ${json.errors[0].message}`);
     }
@@ -60,203 +142,210 @@ export class SubgraphDataProvider implements DataProvider {
     return json.data;
   }
 
-  async getClaims(query: ClaimListQuery): Promise<ClaimListItem[]> {
-    const where: string[] = [];
-    
-    if (query.agentId !== undefined) {
-      where.push(`agentId: "${query.agentId}"`);
-    }
-    if (query.claimant) {
-      where.push(`claimant: "${query.claimant.toLowerCase()}"`);
-    }
-    if (query.councilId) {
-      where.push(`councilId: "${query.councilId}"`);
-    }
-    if (query.status) {
-      where.push(`status: ${query.status}`);
-    }
+  /**
+   * Latest block the subgraph has indexed
+   * @throws If the deployment reports indexing errors
+   */
+  async getIndexedBlock(): Promise<bigint> {
+    const data = await this.query<{ _meta: { block: { number: number }; hasIndexingErrors: boolean } }>(`
+      query GetIndexedBlock {
+        _meta {
+          block { number }
+          hasIndexingErrors
+        }
+      }
+    `);
 
-    const orderBy = query.orderBy ?? 'filedAt';
-    const orderDirection = query.orderDirection ?? 'desc';
-    const first = query.first ?? 100;
-    const skip = query.skip ?? 0;
+    if (data._meta.hasIndexingErrors) {
+      throw new Error('Subgraph has indexing errors');
+    }
+    return BigInt(data._meta.block.number);
+  }
 
+  /**
+   * Walk every claim or agent matching where in id order, one page per request
+   */
+  private async *idPages<T extends { id: string }>(
+    entity: 'Claim' | 'Agent',
+    where: Record<string, unknown>,
+    fields: string,
+    pageSize: number
+  ): AsyncGenerator<T[]> {
+    const collection = entity === 'Claim' ? 'claims' : 'agents';
     const gql = `
-      query GetClaims($first: Int!, $skip: Int!) {
-        claims(
-          first: $first
-          skip: $skip
-          orderBy: ${orderBy}
-          orderDirection: ${orderDirection}
-          ${where.length > 0 ? `where: { ${where.join(', ')} }` : ''}
-        ) {
-          claimId
-          agentId
-          claimant
-          claimedAmount
-          approvedAmount
-          status
-          filedAt
-          evidenceDeadline
-          votingDeadline
-          councilId
+      query Page($where: ${entity}_filter!, $first: Int!) {
+        ${collection}(where: $where, first: $first, orderBy: id, orderDirection: asc) {
+          ${fields}
         }
       }
     `;
 
-    const data = await this.query<{ claims: any[] }>(gql, { first, skip });
-
-    return data.claims.map(c => ({
-      claimId: BigInt(c.claimId),
-      agentId: BigInt(c.agentId),
-      claimant: c.claimant as `0x${string}`,
-      claimedAmount: BigInt(c.claimedAmount),
-      approvedAmount: BigInt(c.approvedAmount),
-      status: c.status,
-      filedAt: BigInt(c.filedAt),
-      evidenceDeadline: BigInt(c.evidenceDeadline),
-      votingDeadline: BigInt(c.votingDeadline),
-      councilId: c.councilId as `0x${string}`,
-    }));
+    let lastId: string | undefined;
+    while (true) {
+      const data = await this.query<Record<string, T[]>>(gql, {
+        where: lastId === undefined ? where : { ...where, id_gt: lastId },
+        first: pageSize,
+      });
+      const page = data[collection];
+      if (page.length > 0) {
+        yield page;
+      }
+      if (page.length < pageSize) return;
+      lastId = page[page.length - 1].id;
+    }
   }
 
-  async getClaimCount(query: Omit<ClaimListQuery, 'first' | 'skip' | 'orderBy' | 'orderDirection'>): Promise<number> {
-    const where: string[] = [];
-    
-    if (query.agentId !== undefined) {
-      where.push(`agentId: "${query.agentId}"`);
-    }
-    if (query.claimant) {
-      where.push(`claimant: "${query.claimant.toLowerCase()}"`);
-    }
-    if (query.councilId) {
-      where.push(`councilId: "${query.councilId}"`);
-    }
-    if (query.status) {
-      where.push(`status: ${query.status}`);
+  async getClaims(query: ClaimListQuery): Promise<ClaimListItem[]> {
+    const first = query.first ?? 100;
+    const skip = query.skip ?? 0;
+    if (first > MAX_FIRST || skip > MAX_SKIP) {
+      throw new Error(
+        `Subgraph pagination is limited to first <= ${MAX_FIRST} and skip <= ${MAX_SKIP}; use iterateClaims for larger result sets`
+      );
     }
 
-    // The Graph doesn't have a count, so we fetch IDs only
     const gql = `
-      query CountClaims {
-        claims(
-          first: 10000
-          ${where.length > 0 ? `where: { ${where.join(', ')} }` : ''}
-        ) {
-          claimId
+      query GetClaims(
+        $where: Claim_filter!
+        $first: Int!
+        $skip: Int!
+        $orderBy: Claim_orderBy!
+        $orderDirection: OrderDirection!
+      ) {
+        claims(where: $where, first: $first, skip: $skip, orderBy: $orderBy, orderDirection: $orderDirection) {
+          ${CLAIM_FIELDS}
         }
       }
     `;
 
-    const data = await this.query<{ claims: any[] }>(gql);
-    return data.claims.length;
+    const data = await this.query<{ claims: SubgraphClaim[] }>(gql, {
+      where: claimWhere(query),
+      first,
+      skip,
+      orderBy: query.orderBy ?? 'filedAt',
+      orderDirection: query.orderDirection ?? 'desc',
+    });
+
+    return data.claims.map(toClaimListItem);
   }
 
-  async getAgents(query: AgentListQuery): Promise<AgentListItem[]> {
-    const where: string[] = [];
-    
-    if (query.isValidated !== undefined) {
-      where.push(`isValidated: ${query.isValidated}`);
-    }
-    if (query.hasActiveTerms !== undefined) {
-      where.push(`hasActiveTerms: ${query.hasActiveTerms}`);
-    }
-    if (query.minCollateral !== undefined) {
-      where.push(`collateralBalance_gte: "${query.minCollateral}"`);
+  async *iterateClaims(query: ClaimIterationQuery): AsyncIterableIterator<ClaimListItem> {
+    const pageSize = Math.min(query.pageSize ?? MAX_FIRST, MAX_FIRST);
+    for await (const page of this.idPages<SubgraphClaim>('Claim', claimWhere(query), CLAIM_FIELDS, pageSize)) {
+      yield* page.map(toClaimListItem);
     }
+  }
 
-    const first = query.first ?? 100;
-    const skip = query.skip ?? 0;
+  async getClaimCount(query: ClaimFilter): Promise<number> {
+    // The Graph has no count; walk the ids
+    let count = 0;
+    for await (const page of this.idPages('Claim', claimWhere(query), 'id', MAX_FIRST)) {
+      count += page.length;
+    }
+    return count;
+  }
 
+  async getAgents(query: AgentListQuery): Promise<AgentListItem[]> {
     const gql = `
-      query GetAgents($first: Int!, $skip: Int!) {
-        agents(
-          first: $first
-          skip: $skip
-          orderBy: collateralBalance
-          orderDirection: desc
-          ${where.length > 0 ? `where: { ${where.join(', ')} }` : ''}
-        ) {
-          agentId
+      query GetAgents(
+        $where: Agent_filter!
+        $first: Int!
+        $skip: Int!
+        $orderBy: Agent_orderBy!
+        $orderDirection: OrderDirection!
+      ) {
+        agents(where: $where, first: $first, skip: $skip, orderBy: $orderBy, orderDirection: $orderDirection) {
+          id
           owner
           collateralBalance
           isValidated
-          hasActiveTerms
+          activeTermsVersion
           totalClaims
           pendingClaims
         }
       }
     `;
 
-    const data = await this.query<{ agents: any[] }>(gql, { first, skip });
+    const data = await this.query<{ agents: any[] }>(gql, {
+      where: agentWhere(query),
+      first: query.first ?? 100,
+      skip: query.skip ?? 0,
+      orderBy: query.orderBy ?? 'collateralBalance',
+      orderDirection: query.orderDirection ?? 'desc',
+    });
 
     return data.agents.map(a => ({
-      agentId: BigInt(a.agentId),
+      agentId: BigInt(a.id),
       owner: a.owner as `0x${string}`,
       collateralBalance: BigInt(a.collateralBalance),
       isValidated: a.isValidated,
-      hasActiveTerms: a.hasActiveTerms,
+      hasActiveTerms: (a.activeTermsVersion ?? 0) > 0,
       totalClaims: a.totalClaims,
       pendingClaims: a.pendingClaims,
     }));
   }
 
+  async getAgentCount(query: AgentFilter): Promise<number> {
+    let count = 0;
+    for await (const page of this.idPages('Agent', agentWhere(query), 'id', MAX_FIRST)) {
+      count += page.length;
+    }
+    return count;
+  }
+
   async getCouncilMembers(query: CouncilMemberQuery): Promise<CouncilMemberItem[]> {
-    const where: string[] = [`councilId: "${query.councilId}"`];
-    
+    const where: Record<string, unknown> = { council: query.councilId.toLowerCase() };
+
     if (query.activeOnly) {
-      where.push('active: true');
+      where.isActive = true;
     }
 
     const gql = `
-      query GetCouncilMembers {
-        councilMembers(
-          first: 1000
-          where: { ${where.join(', ')} }
-        ) {
-          address
-          councilId
+      query GetCouncilMembers($where: CouncilMember_filter!) {
+        councilMembers(first: ${MAX_FIRST}, where: $where) {
+          member
+          council { id }
           joinedAt
-          active
+          isActive
           claimsVoted
         }
       }
     `;
 
-    const data = await this.query<{ councilMembers: any[] }>(gql);
+    const data = await this.query<{ councilMembers: any[] }>(gql, { where });
 
     return data.councilMembers.map(m => ({
-      address: m.address as `0x${string}`,
-      councilId: m.councilId as `0x${string}`,
+      address: m.member as `0x${string}`,
+      councilId: m.council.id as `0x${string}`,
       joinedAt: BigInt(m.joinedAt),
-      active: m.active,
+      active: m.isActive,
       claimsVoted: m.claimsVoted,
     }));
   }
 
   async getVotes(query: VoteListQuery): Promise<VoteItem[]> {
-    const where: string[] = [];
-    
+    const where: Record<string, unknown> = {};
+
     if (query.claimId !== undefined) {
-      where.push(`claimId: "${query.claimId}"`);
+      where.claim = query.claimId.toString();
     }
     if (query.voter) {
-      where.push(`voter: "${query.voter.toLowerCase()}"`);
+      where.voter_ = { member: query.voter.toLowerCase() };
     }
     if (query.councilId) {
-      where.push(`councilId: "${query.councilId}"`);
+      where.claim_ = { council: query.councilId.toLowerCase() };
     }
 
     const gql = `
-      query GetVotes {
+      query GetVotes($where: Vote_filter!) {
         votes(
-          first: 1000
+          first: ${MAX_FIRST}
           orderBy: votedAt
           orderDirection: desc
-          ${where.length > 0 ? `where: { ${where.join(', ')} }` : ''}
+          where: $where
         ) {
-          claimId
-          voter
+          claim { id }
+          voter { member }
           vote
           approvedAmount
           reasoning
@@ -265,14 +354,14 @@ export class SubgraphDataProvider implements DataProvider {
       }
     `;
 
-    const data = await this.query<{ votes: any[] }>(gql);
+    const data = await this.query<{ votes: any[] }>(gql, { where });
 
     return data.votes.map(v => ({
-      claimId: BigInt(v.claimId),
-      voter: v.voter as `0x${string}`,
-      vote: v.vote,
-      approvedAmount: BigInt(v.approvedAmount),
-      reasoning: v.reasoning,
+      claimId: BigInt(v.claim.id),
+      voter: v.voter.member as `0x${string}`,
+      vote: Vote[v.vote as keyof typeof Vote],
+      approvedAmount: BigInt(v.approvedAmount ?? '0'),
+      reasoning: v.reasoning ?? '',
       votedAt: BigInt(v.votedAt),
     }));
   }
@@ -286,12 +375,12 @@ export class SubgraphDataProvider implements DataProvider {
   }> {
     const gql = `
       query GetProtocolStats {
-        protocolStats(id: "1") {
+        protocolStats(id: "global") {
           totalAgents
           validatedAgents
           totalCollateral
           totalClaims
-          totalPaidOut
+          totalCompensationPaid
         }
       }
     `;
@@ -304,7 +393,7 @@ export class SubgraphDataProvider implements DataProvider {
       validatedAgents: stats?.validatedAgents ?? 0,
       totalCollateral: BigInt(stats?.totalCollateral ?? '0'),
       totalClaims: stats?.totalClaims ?? 0,
-      totalPaidOut: BigInt(stats?.totalPaidOut ?? '0'),
+      totalPaidOut: BigInt(stats?.totalCompensationPaid ?? '0'),
     };
   }
 }
@@ -0,0 +1,99 @@
+/**
+ * Trust score
+ *
+ * A 0-100 summary of an agent's trust state, computed from six components
+ * that are each scored 0-1 and weighted:
+ *
+ * - collateralCoverage: available collateral / maxPayoutPerClaim (full at 1x)
+ * - claimRecord: 1 - approved / (approved + rejected); no decided claims is a clean record
+ * - payoutHistory: 1 - totalPaidOut / (collateral + totalPaidOut)
+ * - validationAge: days since validation / fullValidationAgeDays
+ * - withdrawalState: 1 - pending withdrawal / collateral
+ * - councilActivity: active council members / fullCouncilMembers (0 if the council is closed)
+ *
+ * Agents that are not validated score 0; their components are still reported.
+ * The validation API serves the same computation at
+ * /v1/agents/:agentId/score.json (apps/governance-api/src/services/score.ts);
+ * any change to the rules must bump TRUST_SCORE_VERSION in both.
+ */
+
+import type {
+  TrustScore,
+  TrustScoreComponent,
+  TrustScoreComponentName,
+  TrustScoreInputs,
+  TrustScoreOptions,
+  TrustScoreWeights,
+} from "./types";
+
+/**
+ * Version of the scoring rules below
+ */
+export const TRUST_SCORE_VERSION = "1.0";
+
+export const DEFAULT_TRUST_SCORE_WEIGHTS: TrustScoreWeights = {
+  collateralCoverage: 30,
+  claimRecord: 20,
+  payoutHistory: 15,
+  validationAge: 15,
+  withdrawalState: 10,
+  councilActivity: 10,
+};
+
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * a / b clamped to 0-1, with 4 decimal places of precision
+ */
+function ratio(a: bigint, b: bigint): number {
+  if (b <= 0n) return 0;
+  if (a >= b) return 1;
+  return a <= 0n ? 0 : Number((a * 10_000n) / b) / 10_000;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute an agent's trust score
+ * @throws If every weight is zero
+ */
+export function computeTrustScore(inputs: TrustScoreInputs, options: TrustScoreOptions = {}): TrustScore {
+  const fullAge = BigInt((options.fullValidationAgeDays ?? 90) * SECONDS_PER_DAY);
+  const fullCouncil = options.fullCouncilMembers ?? 5;
+  const { claims } = inputs;
+
+  const decided = claims.approved + claims.rejected;
+  const values: Record<TrustScoreComponentName, number> = {
+    collateralCoverage: inputs.maxPayoutPerClaim ? ratio(inputs.availableCollateral, inputs.maxPayoutPerClaim) : 0,
+    claimRecord: decided === 0 ? 1 : round(1 - claims.approved / decided, 4),
+    payoutHistory: round(1 - ratio(claims.totalPaidOut, inputs.collateralBalance + claims.totalPaidOut), 4),
+    validationAge:
+      inputs.isValidated && inputs.validationIssuedAt > 0n ? ratio(inputs.now - inputs.validationIssuedAt, fullAge) : 0,
+    withdrawalState: inputs.collateralBalance > 0n ? round(1 - ratio(inputs.withdrawalAmount, inputs.collateralBalance), 4) : 0,
+    councilActivity: inputs.council?.active ? Math.min(1, inputs.council.activeMembers / fullCouncil) : 0,
+  };
+
+  const weights = { ...DEFAULT_TRUST_SCORE_WEIGHTS, ...options.weights };
+  const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) {
+    throw new Error("Trust score weights must not all be zero");
+  }
+
+  const components = {} as Record<TrustScoreComponentName, TrustScoreComponent>;
+  let total = 0;
+  for (const name of Object.keys(DEFAULT_TRUST_SCORE_WEIGHTS) as TrustScoreComponentName[]) {
+    const weight = (weights[name] * 100) / totalWeight;
+    const points = values[name] * weight;
+    components[name] = { value: values[name], weight: round(weight, 2), points: round(points, 2) };
+    total += points;
+  }
+
+  return {
+    version: TRUST_SCORE_VERSION,
+    score: inputs.isValidated ? Math.round(total) : 0,
+    components,
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * T&C documents
+ *
+ * Since v1.2 the terms an agent is bound by (including maxPayoutPerClaim) live
+ * in an off-chain JSON document; TermsRegistry only stores its contentHash and
+ * contentUri. The hash is keccak256 over the canonical JSON of the document
+ * (see utils/canonical), so re-serializing a fetched document cannot change it.
+ *
+ * Publish flow:
+ *   const doc = buildTermsDocument({ ... });
+ *   upload(serializeTermsDocument(doc));  // -> contentUri
+ *   client.registerTerms(agentId, computeTermsHash(doc), contentUri, councilId);
+ *
+ * Documents uploaded as files before canonical hashing existed were registered
+ * with keccak256 of their exact bytes; verifyTermsContent accepts both.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  keccak256,
+  toBytes,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { z } from "zod";
+import { TermsRegistryAbi } from "./contracts";
+import { fetchContent, isSupportedContentUri, type ContentResolverOptions } from "./content";
+import { canonicalize } from "./utils/canonical";
+import { formatIssues, zAddress, zBytes32, zUintString } from "./utils/schema";
+import type {
+  TermsDocument,
+  TermsDocumentInput,
+  TermsVerificationResult,
+  VerifiedTermsResult,
+} from "./types";
+
+/**
+ * Schema version written by buildTermsDocument
+ */
+export const TERMS_DOCUMENT_VERSION = "1.0";
+
+/**
+ * Runtime schema for TermsDocument
+ */
+export const TermsDocumentSchema: z.ZodType<TermsDocument> = z.object({
+  version: z.string().min(1),
+  agentId: zUintString,
+  provider: z.object({
+    name: z.string().min(1),
+    address: zAddress,
+  }),
+  terms: z.object({
+    serviceDescription: z.string().min(1),
+    limitations: z.array(z.string()),
+    maxPayoutPerClaim: zUintString, // USDC base units
+    coveredDamages: z.array(z.string()),
+    excludedDamages: z.array(z.string()),
+  }),
+  legal: z
+    .object({
+      jurisdiction: z.string().optional(),
+      governingLaw: z.string().optional(),
+    })
+    .optional(),
+  signature: z
+    .object({
+      hash: zBytes32,
+      timestamp: z.string(),
+    })
+    .optional(),
+});
+
+/**
+ * Build a schema-valid TermsDocument
+ * @throws If the resulting document does not match TermsDocumentSchema
+ */
+export function buildTermsDocument(input: TermsDocumentInput): TermsDocument {
+  return parseTermsDocument({
+    version: TERMS_DOCUMENT_VERSION,
+    agentId: input.agentId.toString(),
+    provider: input.provider,
+    terms: {
+      serviceDescription: input.terms.serviceDescription,
+      limitations: input.terms.limitations ?? [],
+      maxPayoutPerClaim: input.terms.maxPayoutPerClaim.toString(),
+      coveredDamages: input.terms.coveredDamages ?? [],
+      excludedDamages: input.terms.excludedDamages ?? [],
+    },
+    ...(input.legal && { legal: input.legal }),
+  });
+}
+
+/**
+ * Validate an untrusted value (e.g. fetched JSON) as a TermsDocument
+ * @throws With every schema issue listed when the value is invalid
+ */
+export function parseTermsDocument(value: unknown): TermsDocument {
+  const result = TermsDocumentSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid T&C document: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Canonical JSON of the document; upload exactly this string to contentUri
+ */
+export function serializeTermsDocument(doc: TermsDocument): string {
+  return canonicalize(doc);
+}
+
+/**
+ * Compute the contentHash to register on-chain for a document.
+ * The optional signature block is excluded because it signs this hash.
+ */
+export function computeTermsHash(doc: TermsDocument): `0x${string}` {
+  const { signature: _signature, ...content } = doc;
+  return keccak256(toBytes(canonicalize(content)));
+}
+
+/**
+ * Check a document against the contentHash stored in TermsRegistry
+ * @param doc Document as fetched (validated against the schema first)
+ * @param onChainHash TermsVersion.contentHash
+ */
+export function verifyTermsDocument(doc: unknown, onChainHash: `0x${string}`): TermsVerificationResult {
+  const parsed = TermsDocumentSchema.safeParse(doc);
+  if (!parsed.success) {
+    return { valid: false, code: "INVALID_SCHEMA", message: formatIssues(parsed.error) };
+  }
+
+  // Hash what was fetched, not the parsed copy: parsing strips unknown fields
+  const hash = computeTermsHash(doc as TermsDocument);
+  if (hash.toLowerCase() !== onChainHash.toLowerCase()) {
+    return {
+      valid: false,
+      code: "HASH_MISMATCH",
+      message: `Document hash ${hash} does not match on-chain contentHash ${onChainHash}`,
+      hash,
+    };
+  }
+  return { valid: true, document: parsed.data, hash };
+}
+
+/**
+ * Check fetched document bytes against the contentHash stored in TermsRegistry.
+ * Matches either keccak256 of the exact bytes or the canonical JSON hash.
+ */
+export function verifyTermsContent(bytes: Uint8Array, onChainHash: `0x${string}`): TermsVerificationResult {
+  const rawHash = keccak256(bytes);
+  const rawMatches = rawHash.toLowerCase() === onChainHash.toLowerCase();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    return rawMatches
+      ? { valid: false, code: "INVALID_JSON", message: `T&C document is not JSON: ${(error as Error).message}`, hash: rawHash }
+      : { valid: false, code: "HASH_MISMATCH", message: `Content hash ${rawHash} does not match on-chain contentHash ${onChainHash}`, hash: rawHash };
+  }
+
+  if (!rawMatches) {
+    return verifyTermsDocument(json, onChainHash);
+  }
+  const parsed = TermsDocumentSchema.safeParse(json);
+  if (!parsed.success) {
+    return { valid: false, code: "INVALID_SCHEMA", message: formatIssues(parsed.error), hash: rawHash };
+  }
+  return { valid: true, document: parsed.data, hash: rawHash };
+}
+
+/**
+ * Read an agent's active terms, fetch the document from contentUri and verify it.
+ * Verification failures are returned, not thrown; RPC errors still throw.
+ */
+export async function readVerifiedTerms(
+  client: PublicClient,
+  termsRegistry: Address,
+  agentId: bigint,
+  options?: ContentResolverOptions
+): Promise<VerifiedTermsResult> {
+  let active;
+  try {
+    active = await client.readContract({
+      address: termsRegistry,
+      abi: TermsRegistryAbi,
+      functionName: "getActiveTerms",
+      args: [agentId],
+    });
+  } catch (error) {
+    // getActiveTerms reverts with NoActiveTerms
+    if (error instanceof BaseError && error.walk((e) => e instanceof ContractFunctionRevertedError)) {
+      return { valid: false, code: "NO_ACTIVE_TERMS", message: `Agent ${agentId} has no active terms` };
+    }
+    throw error;
+  }
+  const [terms, version] = active;
+
+  if (!isSupportedContentUri(terms.contentUri)) {
+    return { valid: false, code: "UNSUPPORTED_URI", message: `Unsupported content URI: ${terms.contentUri}` };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await fetchContent(terms.contentUri, options);
+  } catch (error) {
+    return { valid: false, code: "FETCH_FAILED", message: (error as Error).message };
+  }
+
+  const result = verifyTermsContent(bytes, terms.contentHash);
+  if (!result.valid) {
+    return result;
+  }
+  if (result.document.agentId !== agentId.toString()) {
+    return {
+      valid: false,
+      code: "AGENT_MISMATCH",
+      message: `T&C document is for agent ${result.document.agentId}, not ${agentId}`,
+      hash: result.hash,
+    };
+  }
+
+  return {
+    valid: true,
+    terms: {
+      agentId,
+      version,
+      terms,
+      document: result.document,
+      maxPayoutPerClaim: BigInt(result.document.terms.maxPayoutPerClaim),
+    },
+  };
+}
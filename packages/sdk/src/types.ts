@@ -1,9 +1,34 @@
-import { type Address } from "viem";
+import type {
+  Abi,
+  Address,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  ParseEventLogsReturnType,
+  TransactionReceipt,
+} from "viem";
+import type {
+  ClaimsManagerAbi,
+  CollateralVaultAbi,
+  CouncilRegistryAbi,
+  RulingExecutorAbi,
+  TermsRegistryAbi,
+  TrustfulEventsAbi,
+  TrustfulValidatorAbi,
+} from "./contracts";
 
 /**
  * Trustful Agents SDK Types
- * v1.2 - Updated to match smart contract interface changes
- * 
+ * v1.3 - On-chain structs are derived from the contract ABIs
+ *
+ * Struct types use viem's ContractFunctionReturnType over the generated ABIs
+ * in ./contracts/abis.ts, so regenerating the ABIs after a contract change
+ * surfaces every drifted field as a compile error.
+ *
+ * v1.3 Changes:
+ * - Evidence moved off-chain: evidenceHash/evidenceUri removed from Claim
+ * - fileClaim(agentId, claimedAmount, paymentReceiptHash)
+ * - registerTerms(agentId, contentHash, contentUri, councilId)
+ *
  * v1.2 Changes:
  * - Removed maxPayoutPerClaim from on-chain types (now in T&C document)
  * - Added Expired status for claims
@@ -12,16 +37,21 @@ import { type Address } from "viem";
  * - Updated TrustInfo structure
  */
 
+/**
+ * Return type of a view function, with uint8 enum fields narrowed to SDK enums
+ */
+type ViewReturn<
+  abi extends Abi,
+  functionName extends ContractFunctionName<abi, "view">,
+> = ContractFunctionReturnType<abi, "view", functionName>;
+
+type WithEnums<T, Enums extends Partial<Record<keyof T, number>>> = Omit<T, keyof Enums> & Enums;
+
 // =============================================================================
 // Collateral Vault
 // =============================================================================
 
-export interface CollateralAccount {
-  balance: bigint;
-  lockedAmount: bigint;
-  withdrawalInitiatedAt: bigint;
-  withdrawalAmount: bigint;
-}
+export type CollateralAccount = ViewReturn<typeof CollateralVaultAbi, "getAccount">;
 
 // =============================================================================
 // Terms Registry
@@ -30,25 +60,16 @@ export interface CollateralAccount {
 /**
  * On-chain terms version
  * Note: maxPayoutPerClaim is now stored off-chain in the T&C document
- * Fetch the document from contentUri to get maxPayoutPerClaim
+ * Fetch the document from contentUri to get maxPayoutPerClaim (getVerifiedTerms)
  */
-export interface TermsVersion {
-  contentHash: `0x${string}`;
-  contentUri: string;
-  // maxPayoutPerClaim removed in v1.2 - read from T&C document
-  councilId: `0x${string}`;
-  registeredAt: bigint;
-  active: boolean;
-}
+export type TermsVersion = ViewReturn<typeof TermsRegistryAbi, "getActiveTerms">[0];
 
-export interface TermsConfig {
-  activeVersion: bigint;
-  versionCount: bigint;
-}
+export type TermsConfig = ViewReturn<typeof TermsRegistryAbi, "getTermsConfig">;
 
 /**
  * Off-chain T&C document structure (IPFS/URI)
- * This is the JSON schema for the document at contentUri
+ * This is the JSON schema for the document at contentUri; validated at
+ * runtime by TermsDocumentSchema and hashed with computeTermsHash
  */
 export interface TermsDocument {
   version: string;
@@ -60,7 +81,7 @@ export interface TermsDocument {
   terms: {
     serviceDescription: string;
     limitations: string[];
-    maxPayoutPerClaim: string; // USDC amount as string (6 decimals)
+    maxPayoutPerClaim: string; // USDC base units (6 decimals) as a decimal string
     coveredDamages: string[];
     excludedDamages: string[];
   };
@@ -74,6 +95,56 @@ export interface TermsDocument {
   };
 }
 
+/**
+ * Input to buildTermsDocument; amounts are bigints and lists default to empty
+ */
+export interface TermsDocumentInput {
+  agentId: bigint;
+  provider: TermsDocument["provider"];
+  terms: {
+    serviceDescription: string;
+    maxPayoutPerClaim: bigint; // USDC base units
+    limitations?: string[];
+    coveredDamages?: string[];
+    excludedDamages?: string[];
+  };
+  legal?: TermsDocument["legal"];
+}
+
+export type TermsVerificationCode =
+  | "NO_ACTIVE_TERMS"
+  | "UNSUPPORTED_URI"
+  | "FETCH_FAILED"
+  | "INVALID_JSON"
+  | "INVALID_SCHEMA"
+  | "HASH_MISMATCH"
+  | "AGENT_MISMATCH";
+
+export interface TermsVerificationError {
+  code: TermsVerificationCode;
+  message: string;
+  hash?: `0x${string}`; // Hash computed from the fetched content, when it got that far
+}
+
+export type TermsVerificationResult =
+  | { valid: true; document: TermsDocument; hash: `0x${string}` }
+  | ({ valid: false } & TermsVerificationError);
+
+/**
+ * Active terms whose off-chain document was fetched and matched contentHash
+ */
+export interface VerifiedTerms {
+  agentId: bigint;
+  version: bigint;
+  terms: TermsVersion;
+  document: TermsDocument;
+  maxPayoutPerClaim: bigint; // USDC base units, parsed from the document
+}
+
+export type VerifiedTermsResult =
+  | { valid: true; terms: VerifiedTerms }
+  | ({ valid: false } & TermsVerificationError);
+
 // =============================================================================
 // Validator
 // =============================================================================
@@ -95,62 +166,26 @@ export enum RevocationReason {
   EmergencyPause = 6,
 }
 
-export interface ValidationRecord {
-  requestHash: `0x${string}`;
-  issuedAt: bigint;
-  revokedAt: bigint;
-  nonce: bigint;
-  revocationReason: RevocationReason;
-}
+export type ValidationRecord = WithEnums<
+  ViewReturn<typeof TrustfulValidatorAbi, "getValidationRecord">,
+  { revocationReason: RevocationReason }
+>;
 
-export interface ValidationConditions {
-  hasMinimumCollateral: boolean;
-  hasActiveTerms: boolean; // [v1.2] Renamed from hasTermsRegistered
-  // hasValidMaxPayout removed in v1.2
-  isOwnerValid: boolean;
-  councilIsActive: boolean; // [v1.2] Added
-}
+export type ValidationConditions = ViewReturn<typeof TrustfulValidatorAbi, "checkConditions">;
 
 /**
  * Trust info returned by validator
  * Note: maxPayoutPerClaim removed - fetch from termsUri document
  */
-export interface TrustInfo {
-  collateralAmount: bigint;
-  termsHash: `0x${string}`; // [v1.2] Added
-  termsUri: string; // [v1.2] Added - fetch T&C document to get maxPayoutPerClaim
-  // maxPayoutPerClaim removed in v1.2
-  councilId: `0x${string}`;
-  isValid: boolean;
-  withdrawalPending: boolean; // [v1.2] Added - risk signal for clients
-}
+export type TrustInfo = ViewReturn<typeof TrustfulValidatorAbi, "getTrustInfo">;
 
 // =============================================================================
 // Council
 // =============================================================================
 
-export interface Council {
-  councilId: `0x${string}`;
-  name: string;
-  description: string; // [v1.2] Added
-  vertical: string;
-  memberCount: bigint;
-  quorumPercentage: bigint;
-  claimDepositPercentage: bigint;
-  votingPeriod: bigint;
-  evidencePeriod: bigint;
-  active: boolean;
-  createdAt: bigint;
-  closedAt: bigint; // [v1.2] Added (0 = not closed)
-}
-
-export interface CouncilMember {
-  member: Address;
-  councilId: `0x${string}`;
-  joinedAt: bigint;
-  claimsVoted: bigint;
-  active: boolean;
-}
+export type Council = ViewReturn<typeof CouncilRegistryAbi, "getCouncil">;
+
+export type CouncilMember = ViewReturn<typeof CouncilRegistryAbi, "getMember">;
 
 // =============================================================================
 // Claims
@@ -174,87 +209,69 @@ export enum Vote {
   Abstain = 3,
 }
 
-export interface Claim {
-  claimId: bigint;
+export type Claim = WithEnums<
+  ViewReturn<typeof ClaimsManagerAbi, "getClaim">,
+  { status: ClaimStatus }
+>;
+
+export type VoteRecord = WithEnums<
+  ViewReturn<typeof ClaimsManagerAbi, "getVote">,
+  { vote: Vote }
+>;
+
+export type ClaimStats = ViewReturn<typeof ClaimsManagerAbi, "getClaimStats">;
+
+export type VotingProgress = ViewReturn<typeof ClaimsManagerAbi, "getVotingProgress">;
+
+// =============================================================================
+// Batched Reads
+// =============================================================================
+
+export interface BatchReadOptions {
+  blockNumber?: bigint; // Read at this block instead of the latest
+}
+
+export interface ClaimBatch {
+  blockNumber: bigint; // All claims were read at this block
+  claims: Claim[]; // Same order as the requested ids
+}
+
+/**
+ * Everything needed to judge an agent's trust status, read in one round-trip
+ */
+export interface AgentTrustSnapshot {
   agentId: bigint;
-  claimant: Address;
-  claimedAmount: bigint;
-  approvedAmount: bigint;
-  evidenceHash: `0x${string}`;
-  evidenceUri: string;
-  paymentReceiptHash: `0x${string}`;
-  termsHashAtClaimTime: `0x${string}`;
-  termsVersionAtClaimTime: bigint;
-  providerAtClaimTime: Address;
-  councilId: `0x${string}`;
-  claimantDeposit: bigint;
-  lockedCollateral: bigint;
-  status: ClaimStatus;
-  filedAt: bigint;
-  evidenceDeadline: bigint;
-  votingDeadline: bigint;
-  hadVotes: boolean; // [v1.2] Added - true if at least one vote was cast
-}
-
-export interface VoteRecord {
-  voter: Address;
-  vote: Vote;
-  approvedAmount: bigint;
-  reasoning: string;
-  votedAt: bigint;
-  lastChangedAt: bigint; // [v1.2] Added - timestamp of last vote change (0 if never changed)
-}
-
-export interface ClaimStats {
-  totalClaims: bigint;
-  approvedClaims: bigint;
-  rejectedClaims: bigint;
-  pendingClaims: bigint;
-  expiredClaims: bigint; // [v1.2] Added
-  totalPaidOut: bigint;
-}
-
-export interface VotingProgress {
-  approveVotes: bigint;
-  rejectVotes: bigint;
-  abstainVotes: bigint;
-  totalVotes: bigint;
-  requiredQuorum: bigint;
-  deadline: bigint;
-  quorumReached: boolean;
+  blockNumber: bigint; // All fields were read at this block
+  isValidated: boolean;
+  validationRecord: ValidationRecord;
+  conditions: ValidationConditions;
+  collateral: CollateralAccount;
+  availableBalance: bigint;
+  activeTerms: { terms: TermsVersion; version: bigint } | null; // null when no terms are active
+  claimStats: ClaimStats;
 }
 
 // =============================================================================
 // Ruling Executor [v1.2]
 // =============================================================================
 
-export interface ExecutionResult {
-  claimId: bigint;
-  agentId: bigint;
-  claimant: Address;
-  approvedAmount: bigint;
-  effectivePayout: bigint;
-  councilFee: bigint;
-  claimantReceives: bigint;
-  depositAmount: bigint;
-  voterCount: bigint;
-  depositPerVoter: bigint;
-  executedAt: bigint;
-}
+export type ExecutionResult = ViewReturn<typeof RulingExecutorAbi, "previewExecution">;
 
-export interface DepositDistribution {
-  recipients: Address[];
-  amountPerRecipient: bigint;
-  remainder: bigint;
-  totalDistributed: bigint;
-}
+export type DepositDistribution = ViewReturn<typeof RulingExecutorAbi, "previewDepositDistribution">;
 
 // =============================================================================
 // Evidence Package (Off-chain)
 // =============================================================================
 
+/**
+ * Claimant-assembled evidence bundle (built and signed by evidence.ts)
+ * Amounts are USDC base units as decimal strings; timestamps are ISO 8601.
+ */
 export interface EvidencePackage {
-  claimId?: string;
+  version: string;
+  agentId: string;
+  claimant: Address;
+  claimId?: string; // Absent when built before filing (hash used as paymentReceiptHash)
   paymentProof: {
     type: "x402" | "crypto" | "fiat" | "other";
     x402Receipt?: string;
@@ -263,6 +280,7 @@ export interface EvidencePackage {
     timestamp: string;
   };
   termsSnapshot: {
+    version: string;
     hash: `0x${string}`;
     uri: string;
     maxPayoutPerClaim: string;
@@ -278,3 +296,291 @@ export interface EvidencePackage {
     evidence: string[];
   };
 }
+
+/**
+ * Input to buildEvidencePackage; the terms snapshot is filled from chain
+ */
+export interface EvidencePackageInput {
+  agentId: bigint;
+  claimant: Address;
+  claimId?: bigint;
+  paymentProof: Omit<EvidencePackage["paymentProof"], "amount"> & { amount: bigint };
+  incident: EvidencePackage["incident"];
+  damages: {
+    description: string;
+    amount: bigint;
+    evidence?: string[]; // URIs or content hashes of supporting files
+  };
+}
+
+export interface SignedEvidencePackage {
+  package: EvidencePackage;
+  hash: `0x${string}`; // computeEvidencePackageHash(package)
+  signature: `0x${string}`; // EIP-712 signature by package.claimant
+}
+
+export type EvidenceVerificationCode =
+  | "INVALID_SCHEMA"
+  | "HASH_MISMATCH"
+  | "INVALID_SIGNATURE"
+  | "CLAIM_MISMATCH"
+  | "TERMS_MISMATCH"
+  | "TERMS_UNAVAILABLE";
+
+export type EvidenceVerificationResult =
+  | { valid: true; package: EvidencePackage; hash: `0x${string}` }
+  | { valid: false; code: EvidenceVerificationCode; message: string };
+
+// =============================================================================
+// Payments (x402)
+// =============================================================================
+
+/**
+ * x402 settlement response (base64 JSON in the X-PAYMENT-RESPONSE header)
+ */
+export interface X402Receipt {
+  success: boolean;
+  transaction: `0x${string}`;
+  network: string; // "base", "base-sepolia", ... or CAIP-2 "eip155:8453"
+  payer: Address;
+  errorReason?: string;
+}
+
+export interface PaymentExpectation {
+  agentId: bigint;
+  claimant: Address; // Must be the payer
+  amount?: bigint; // USDC base units; any amount when omitted
+  payees?: Address[]; // Accepted recipients; defaults to the agent owner
+  notBefore?: bigint; // Unix seconds
+  notAfter?: bigint; // Unix seconds (e.g. claim filedAt)
+  paymentReceiptHash?: `0x${string}`; // Only the transfer hashing to this is accepted
+}
+
+export interface VerifiedPayment {
+  chainId: number;
+  transaction: `0x${string}`;
+  payer: Address;
+  payee: Address;
+  amount: bigint;
+  blockNumber: bigint;
+  timestamp: bigint;
+  paymentReceiptHash: `0x${string}`; // Canonical hash to file the claim with
+}
+
+export type PaymentVerificationCode =
+  | "INVALID_RECEIPT"
+  | "WRONG_NETWORK"
+  | "PAYER_MISMATCH"
+  | "TX_NOT_FOUND"
+  | "TX_FAILED"
+  | "TRANSFER_NOT_FOUND"
+  | "AMOUNT_MISMATCH"
+  | "OUT_OF_TIME_WINDOW"
+  | "HASH_MISMATCH";
+
+export type PaymentVerificationResult =
+  | { valid: true; payment: VerifiedPayment }
+  | { valid: false; code: PaymentVerificationCode; message: string };
+
+// =============================================================================
+// Trust Score
+// =============================================================================
+
+/**
+ * Everything computeTrustScore reads; amounts in USDC base units
+ */
+export interface TrustScoreInputs {
+  isValidated: boolean;
+  validationIssuedAt: bigint; // Unix seconds, 0 if never validated
+  collateralBalance: bigint;
+  availableCollateral: bigint; // Not locked by claims
+  withdrawalAmount: bigint; // Pending withdrawal, 0 if none
+  maxPayoutPerClaim: bigint | null; // From the verified T&C document; null if unavailable
+  claims: {
+    total: number;
+    approved: number;
+    rejected: number;
+    pending: number;
+    expired: number;
+    totalPaidOut: bigint;
+  };
+  council: { active: boolean; activeMembers: number } | null; // Council of the active terms
+  now: bigint; // Unix seconds the score is computed at
+}
+
+export type TrustScoreComponentName =
+  | "collateralCoverage"
+  | "claimRecord"
+  | "payoutHistory"
+  | "validationAge"
+  | "withdrawalState"
+  | "councilActivity";
+
+export type TrustScoreWeights = Record<TrustScoreComponentName, number>;
+
+export interface TrustScoreOptions {
+  weights?: Partial<TrustScoreWeights>; // Relative; normalized so the score stays 0-100
+  fullValidationAgeDays?: number; // Validation age that earns the full component (default 90)
+  fullCouncilMembers?: number; // Active council members that earn the full component (default 5)
+}
+
+export interface TrustScoreComponent {
+  value: number; // 0-1
+  weight: number; // Normalized, components sum to 100
+  points: number; // value * weight
+}
+
+export interface TrustScore {
+  version: string; // TRUST_SCORE_VERSION the score was computed with
+  score: number; // 0-100 integer; 0 for agents that are not validated
+  components: Record<TrustScoreComponentName, TrustScoreComponent>;
+}
+
+// =============================================================================
+// Signed Validation Responses
+// =============================================================================
+
+export type ValidationDocumentKind = "validation" | "trust-info" | "score";
+
+/**
+ * EIP-712 proof attached to validation.json / trust-info.json
+ */
+export interface ValidationProof {
+  type: "EIP712";
+  kind: ValidationDocumentKind;
+  signer: Address;
+  documentHash: `0x${string}`; // keccak256 of the canonical JSON without proof
+  signature: `0x${string}`;
+}
+
+/**
+ * A validation.json or trust-info.json response as served
+ */
+export interface SignedValidationResponse {
+  agentId: string;
+  blockNumber: string; // Every field was read at this block
+  blockHash: `0x${string}`;
+  proof?: ValidationProof;
+  [field: string]: unknown;
+}
+
+export interface ValidationResponseVerificationOptions {
+  signers?: Address[]; // Trusted signers; the client defaults to the API's published signer
+  checkChain?: boolean; // Re-read the block hash, validation state and collateral at blockNumber
+}
+
+export interface VerifiedValidationResponse {
+  kind: ValidationDocumentKind;
+  signer: Address;
+  agentId: bigint;
+  isValidated: boolean;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+}
+
+export type ValidationResponseVerificationCode =
+  | "UNSIGNED"
+  | "HASH_MISMATCH"
+  | "INVALID_SIGNATURE"
+  | "UNTRUSTED_SIGNER"
+  | "BLOCK_MISMATCH"
+  | "STATE_MISMATCH";
+
+export type ValidationResponseVerificationResult =
+  | { valid: true; response: VerifiedValidationResponse }
+  | { valid: false; code: ValidationResponseVerificationCode; message: string };
+
+// =============================================================================
+// Transactions
+// =============================================================================
+
+/**
+ * Protocol event decoded from a transaction receipt
+ */
+export type TrustfulEvent = ParseEventLogsReturnType<typeof TrustfulEventsAbi, undefined, true>[number];
+
+export interface TransactionOutcome<TData = void> {
+  receipt: TransactionReceipt;
+  events: TrustfulEvent[];
+  data: TData; // Values extracted from events (e.g. the new claimId)
+}
+
+/**
+ * Returned by every write method on TrustfulClient.
+ * The transaction is already broadcast; call wait() to block until it is mined.
+ */
+export interface TransactionResult<TData = void> {
+  hash: `0x${string}`;
+  wait(options?: { confirmations?: number }): Promise<TransactionOutcome<TData>>;
+}
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+export interface WatchOptions {
+  fromBlock?: bigint; // Resume point (last cursor + 1); defaults to the next confirmed block
+  confirmations?: number; // Blocks an event must be buried under before delivery (default 2)
+  pollingInterval?: number; // ms; defaults to the client's polling interval
+  onCursor?: (blockNumber: bigint) => void | Promise<void>; // Every block up to here was delivered
+  onError?: (error: Error) => void; // The failed range is retried on the next block
+}
+
+export type Unwatch = () => void;
+
+export type ClaimLifecycleEvent = Extract<
+  TrustfulEvent,
+  {
+    eventName:
+      | "ClaimFiled"
+      | "VoteCast"
+      | "VoteChanged"
+      | "ClaimApproved"
+      | "ClaimRejected"
+      | "ClaimCancelled"
+      | "ClaimExpired"
+      | "ClaimExecuted";
+  }
+>;
+
+export interface ClaimWatchFilter {
+  claimId?: bigint;
+  agentId?: bigint;
+  claimant?: Address;
+  councilId?: `0x${string}`;
+}
+
+export interface ClaimUpdate {
+  event: ClaimLifecycleEvent;
+  claim: Claim; // State at the end of the delivered block range
+}
+
+export type ValidationEvent = Extract<
+  TrustfulEvent,
+  { eventName: "ValidationIssued" | "ValidationRevoked" | "ValidationConditionsChanged" }
+>;
+
+export interface ValidationUpdate {
+  event: ValidationEvent;
+  isValidated: boolean;
+  record: ValidationRecord; // State at the end of the delivered block range
+}
+
+export type CollateralEvent = Extract<
+  TrustfulEvent,
+  {
+    eventName:
+      | "Deposited"
+      | "WithdrawalInitiated"
+      | "WithdrawalCancelled"
+      | "WithdrawalExecuted"
+      | "CollateralLocked"
+      | "CollateralUnlocked"
+      | "CollateralSlashed";
+  }
+>;
+
+export interface CollateralUpdate {
+  event: CollateralEvent;
+  account: CollateralAccount; // State at the end of the delivered block range
+}
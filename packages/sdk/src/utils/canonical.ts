@@ -0,0 +1,36 @@
+/**
+ * Canonical JSON serialization
+ *
+ * Deterministic encoding for documents whose keccak256 is committed on-chain:
+ * object keys are sorted, whitespace is removed and numbers use the shortest
+ * round-trip form (1.0 and 1e0 both encode as 1), following RFC 8785 (JCS).
+ * Two semantically identical documents therefore always hash the same.
+ */
+
+/**
+ * Serialize a JSON value canonically
+ * @param value Plain JSON value (objects, arrays, strings, finite numbers, booleans, null)
+ * @returns Canonical JSON string
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === "boolean" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(Object.is(value, -0) ? 0 : value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item ?? null)).join(",")}]`;
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
@@ -22,6 +22,8 @@ export function computeRequestHash(
 
 /**
  * Compute content hash for T&C document
+ * Hashes the exact bytes given; for structured documents use computeTermsHash,
+ * which canonicalizes the JSON first
  * @param content The full T&C content string
  * @returns keccak256 hash
  */
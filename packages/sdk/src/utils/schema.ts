@@ -0,0 +1,25 @@
+/**
+ * Shared zod building blocks for off-chain document schemas
+ */
+
+import { isAddress, type Address } from "viem";
+import { z } from "zod";
+
+export const zAddress = z.custom<Address>((v) => typeof v === "string" && isAddress(v), "Invalid address");
+
+export const zBytes32 = z.custom<`0x${string}`>(
+  (v) => typeof v === "string" && /^0x[0-9a-fA-F]{64}$/.test(v),
+  "Invalid bytes32"
+);
+
+/**
+ * Unsigned integer as a decimal string (token IDs, USDC base units)
+ */
+export const zUintString = z.string().regex(/^\d+$/, "Expected a decimal integer string");
+
+/**
+ * Flatten zod issues into one line: "path: message; path: message"
+ */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+}
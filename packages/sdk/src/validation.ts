@@ -0,0 +1,187 @@
+/**
+ * Signed validation responses
+ *
+ * The validation API reads validation.json, trust-info.json and score.json at
+ * one pinned block and attaches an EIP-712 proof over the keccak256 of the
+ * document's canonical JSON (without the proof). Relying agents check the proof against
+ * the signer published at `<validationApiUrl>/validation-signer.json` (or one
+ * they pinned themselves) and can re-read the chain at that block instead of
+ * trusting TLS and the server.
+ *
+ *   const res = await fetch(`${api}/agents/42/trust-info.json`).then((r) => r.json());
+ *   const result = await client.verifyValidationResponse(res, { checkChain: true });
+ *
+ * Must stay identical to apps/governance-api/src/services/signing.ts.
+ */
+
+import { getAddress, keccak256, toBytes, type Address, type PublicClient } from "viem";
+import { CollateralVaultAbi, TrustfulValidatorAbi } from "./contracts";
+import { canonicalize } from "./utils/canonical";
+import { parseUSDC } from "./utils/usdc";
+import type {
+  SignedValidationResponse,
+  ValidationResponseVerificationOptions,
+  ValidationResponseVerificationResult,
+} from "./types";
+
+/**
+ * EIP-712 types signed by the validation API
+ */
+export const ValidationDocumentTypes = {
+  ValidationDocument: [
+    { name: "kind", type: "string" },
+    { name: "agentId", type: "uint256" },
+    { name: "isValidated", type: "bool" },
+    { name: "blockNumber", type: "uint256" },
+    { name: "blockHash", type: "bytes32" },
+    { name: "documentHash", type: "bytes32" },
+  ],
+} as const;
+
+/**
+ * EIP-712 domain for validation responses, bound to the chain's TrustfulValidator
+ */
+export function getValidationDomain(chainId: number, trustfulValidator: Address) {
+  return {
+    name: "Trustful Agents Validation",
+    version: "1",
+    chainId,
+    verifyingContract: trustfulValidator,
+  } as const;
+}
+
+/**
+ * keccak256 of the response's canonical JSON, without its proof
+ */
+export function computeValidationDocumentHash(response: SignedValidationResponse): `0x${string}` {
+  const { proof: _proof, ...document } = response;
+  return keccak256(toBytes(canonicalize(document)));
+}
+
+/**
+ * Signer address published by a validation API
+ * @param validationApiUrl e.g. https://api.trustful-agents.ai/v1
+ * @throws If the API does not sign responses
+ */
+export async function fetchValidationSigner(validationApiUrl: string): Promise<Address> {
+  const response = await fetch(`${validationApiUrl.replace(/\/$/, "")}/validation-signer.json`);
+  if (!response.ok) {
+    throw new Error(`No validation signer published at ${validationApiUrl} (${response.status})`);
+  }
+  const { signer } = (await response.json()) as { signer: string };
+  return getAddress(signer);
+}
+
+/**
+ * Verify a signed validation.json, trust-info.json or score.json:
+ * - documentHash matches the document and the EIP-712 signature is from signer
+ * - signer is one of options.signers
+ * - with checkChain, blockHash is canonical and the validation state (and,
+ *   for trust-info, collateral balance) matches the chain at blockNumber
+ */
+export async function verifyValidationResponse(
+  client: PublicClient,
+  contracts: { trustfulValidator: Address; collateralVault: Address },
+  response: SignedValidationResponse,
+  options: ValidationResponseVerificationOptions & { signers: Address[] }
+): Promise<ValidationResponseVerificationResult> {
+  const { proof } = response;
+  if (!proof) {
+    return { valid: false, code: "UNSIGNED", message: "Response has no proof" };
+  }
+
+  const documentHash = computeValidationDocumentHash(response);
+  if (documentHash.toLowerCase() !== proof.documentHash.toLowerCase()) {
+    return {
+      valid: false,
+      code: "HASH_MISMATCH",
+      message: `Document hash ${documentHash} does not match ${proof.documentHash}`,
+    };
+  }
+
+  // The signed isValidated must be the one the document states
+  const isValidated =
+    proof.kind === "trust-info"
+      ? (response.validation as { status?: string } | undefined)?.status === "valid"
+      : response.isValidated === true;
+  const agentId = BigInt(response.agentId);
+  const blockNumber = BigInt(response.blockNumber);
+
+  const signatureValid = await client.verifyTypedData({
+    address: proof.signer,
+    domain: getValidationDomain(client.chain?.id ?? (await client.getChainId()), contracts.trustfulValidator),
+    types: ValidationDocumentTypes,
+    primaryType: "ValidationDocument",
+    message: { kind: proof.kind, agentId, isValidated, blockNumber, blockHash: response.blockHash, documentHash },
+    signature: proof.signature,
+  });
+  if (!signatureValid) {
+    return { valid: false, code: "INVALID_SIGNATURE", message: `Signature is not from ${proof.signer}` };
+  }
+
+  if (!options.signers.some((s) => s.toLowerCase() === proof.signer.toLowerCase())) {
+    return { valid: false, code: "UNTRUSTED_SIGNER", message: `${proof.signer} is not a trusted validation signer` };
+  }
+
+  if (options.checkChain) {
+    let blockHash: `0x${string}` | undefined;
+    try {
+      blockHash = (await client.getBlock({ blockNumber })).hash;
+    } catch {
+      blockHash = undefined;
+    }
+    if (blockHash?.toLowerCase() !== response.blockHash.toLowerCase()) {
+      return {
+        valid: false,
+        code: "BLOCK_MISMATCH",
+        message: `Block ${blockNumber} is not ${response.blockHash} on this chain (reorg or wrong network)`,
+      };
+    }
+
+    const onChainValidated = await client.readContract({
+      address: contracts.trustfulValidator,
+      abi: TrustfulValidatorAbi,
+      functionName: "isValidated",
+      args: [agentId],
+      blockNumber,
+    });
+    if (onChainValidated !== isValidated) {
+      return {
+        valid: false,
+        code: "STATE_MISMATCH",
+        message: `isValidated was ${onChainValidated} at block ${blockNumber}, response says ${isValidated}`,
+      };
+    }
+
+    // trust-info states collateral as a decimal USDC amount
+    const collateral = response.collateral as { amount?: string } | null | undefined;
+    if (proof.kind === "trust-info" && collateral?.amount !== undefined) {
+      const account = await client.readContract({
+        address: contracts.collateralVault,
+        abi: CollateralVaultAbi,
+        functionName: "getAccount",
+        args: [agentId],
+        blockNumber,
+      });
+      if (account.balance !== parseUSDC(collateral.amount)) {
+        return {
+          valid: false,
+          code: "STATE_MISMATCH",
+          message: `Collateral was ${account.balance} base units at block ${blockNumber}, response says ${collateral.amount} USDC`,
+        };
+      }
+    }
+  }
+
+  return {
+    valid: true,
+    response: {
+      kind: proof.kind,
+      signer: proof.signer,
+      agentId,
+      isValidated,
+      blockNumber,
+      blockHash: response.blockHash,
+    },
+  };
+}
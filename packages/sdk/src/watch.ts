@@ -0,0 +1,247 @@
+/**
+ * Event subscriptions
+ *
+ * viem's watchContractEvent delivers logs as soon as they appear at the chain
+ * head, so a reorg can hand callers events that never happened. Instead we
+ * follow new blocks with watchBlockNumber and fetch logs only for ranges that
+ * are `confirmations` deep. Ranges are delivered in order and the cursor only
+ * advances once every callback for a range has resolved, so persisting the
+ * cursor from onCursor and passing `fromBlock: cursor + 1n` after a restart
+ * gives at-least-once delivery.
+ *
+ * Revocation kill-switches can use `confirmations: 0`: acting on a revocation
+ * that is later reorged out only stops serving early.
+ */
+
+import { parseEventLogs, type Address, type ContractEventName, type Log, type PublicClient } from "viem";
+import { CollateralVaultAbi, TrustfulEventsAbi, TrustfulValidatorAbi } from "./contracts";
+import { readClaims } from "./multicall";
+import type {
+  ClaimLifecycleEvent,
+  ClaimUpdate,
+  ClaimWatchFilter,
+  CollateralEvent,
+  CollateralUpdate,
+  Unwatch,
+  ValidationEvent,
+  ValidationUpdate,
+  WatchOptions,
+} from "./types";
+
+const DEFAULT_CONFIRMATIONS = 2;
+
+// Most RPC providers cap eth_getLogs ranges; catching up from an old cursor is chunked
+const MAX_BLOCK_RANGE = 2_000n;
+
+const CLAIM_LIFECYCLE_EVENTS: ClaimLifecycleEvent["eventName"][] = [
+  "ClaimFiled",
+  "VoteCast",
+  "VoteChanged",
+  "ClaimApproved",
+  "ClaimRejected",
+  "ClaimCancelled",
+  "ClaimExpired",
+  "ClaimExecuted",
+];
+
+const VALIDATION_EVENTS: ValidationEvent["eventName"][] = [
+  "ValidationIssued",
+  "ValidationRevoked",
+  "ValidationConditionsChanged",
+];
+
+const COLLATERAL_EVENTS: CollateralEvent["eventName"][] = [
+  "Deposited",
+  "WithdrawalInitiated",
+  "WithdrawalCancelled",
+  "WithdrawalExecuted",
+  "CollateralLocked",
+  "CollateralUnlocked",
+  "CollateralSlashed",
+];
+
+/**
+ * Call onRange for every confirmed block range, in order, as the chain grows
+ */
+function watchConfirmedRanges(
+  client: PublicClient,
+  options: WatchOptions,
+  onRange: (fromBlock: bigint, toBlock: bigint) => Promise<void>
+): Unwatch {
+  const confirmations = BigInt(options.confirmations ?? DEFAULT_CONFIRMATIONS);
+  const onError = options.onError ?? ((error: Error) => console.error("Trustful watch error:", error));
+
+  let cursor = options.fromBlock; // Next block to deliver
+  let running = false;
+  let stopped = false;
+
+  async function poll(head: bigint): Promise<void> {
+    if (running || stopped) return; // The next block picks up where this poll stops
+    running = true;
+    try {
+      const safe = head - confirmations;
+      // On a fresh chain (head < confirmations) nothing is confirmed yet:
+      // start from block 0 and wait for it to be confirmed
+      let fromBlock = cursor ?? (safe >= 0n ? safe + 1n : 0n);
+      if (safe < 0n) {
+        cursor = fromBlock;
+        return;
+      }
+      while (!stopped && fromBlock <= safe) {
+        const end = fromBlock + MAX_BLOCK_RANGE - 1n;
+        const toBlock = end < safe ? end : safe;
+        await onRange(fromBlock, toBlock);
+        await options.onCursor?.(toBlock);
+        fromBlock = cursor = toBlock + 1n;
+      }
+      cursor = fromBlock;
+    } catch (error) {
+      onError(error as Error);
+    } finally {
+      running = false;
+    }
+  }
+
+  const unwatch = client.watchBlockNumber({
+    emitOnBegin: true,
+    pollingInterval: options.pollingInterval,
+    onBlockNumber: (head) => void poll(head),
+    onError,
+  });
+
+  return () => {
+    stopped = true;
+    unwatch();
+  };
+}
+
+/**
+ * Fetch and decode a contract's logs, keeping only the given events
+ */
+async function getEvents<TName extends ContractEventName<typeof TrustfulEventsAbi>>(
+  client: PublicClient,
+  address: Address,
+  eventName: TName[],
+  fromBlock: bigint,
+  toBlock: bigint
+) {
+  const logs = await client.getLogs({ address, fromBlock, toBlock });
+  return parseEventLogs({ abi: TrustfulEventsAbi, logs, eventName, strict: true });
+}
+
+/**
+ * Deliver every log the given contracts emit, one non-empty range at a time
+ */
+export function watchContractLogs(
+  client: PublicClient,
+  addresses: Address[],
+  onLogs: (logs: Log[]) => void | Promise<void>,
+  options: WatchOptions = {}
+): Unwatch {
+  return watchConfirmedRanges(client, options, async (fromBlock, toBlock) => {
+    const logs = await client.getLogs({ address: addresses, fromBlock, toBlock });
+    if (logs.length > 0) await onLogs(logs);
+  });
+}
+
+// =============================================================================
+// Claims
+// =============================================================================
+
+export function watchClaimLifecycle(
+  client: PublicClient,
+  claimsManager: Address,
+  filter: ClaimWatchFilter,
+  onUpdate: (update: ClaimUpdate) => void | Promise<void>,
+  options: WatchOptions = {}
+): Unwatch {
+  return watchConfirmedRanges(client, options, async (fromBlock, toBlock) => {
+    const events = (await getEvents(client, claimsManager, CLAIM_LIFECYCLE_EVENTS, fromBlock, toBlock)).filter(
+      (e) => filter.claimId === undefined || e.args.claimId === filter.claimId
+    );
+    if (events.length === 0) return;
+
+    const claimIds = [...new Set(events.map((e) => e.args.claimId))];
+    const { claims } = await readClaims(client, claimsManager, claimIds, { blockNumber: toBlock });
+    const byId = new Map(claims.map((claim) => [claim.claimId, claim]));
+
+    for (const event of events) {
+      const claim = byId.get(event.args.claimId)!;
+      if (filter.agentId !== undefined && claim.agentId !== filter.agentId) continue;
+      if (filter.claimant && claim.claimant.toLowerCase() !== filter.claimant.toLowerCase()) continue;
+      if (filter.councilId && claim.councilId !== filter.councilId) continue;
+      await onUpdate({ event, claim });
+    }
+  });
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export function watchValidationChanges(
+  client: PublicClient,
+  trustfulValidator: Address,
+  agentId: bigint,
+  onUpdate: (update: ValidationUpdate) => void | Promise<void>,
+  options: WatchOptions = {}
+): Unwatch {
+  return watchConfirmedRanges(client, options, async (fromBlock, toBlock) => {
+    const events = (await getEvents(client, trustfulValidator, VALIDATION_EVENTS, fromBlock, toBlock)).filter(
+      (e) => e.args.agentId === agentId
+    );
+    if (events.length === 0) return;
+
+    const [isValidated, record] = await Promise.all([
+      client.readContract({
+        address: trustfulValidator,
+        abi: TrustfulValidatorAbi,
+        functionName: "isValidated",
+        args: [agentId],
+        blockNumber: toBlock,
+      }),
+      client.readContract({
+        address: trustfulValidator,
+        abi: TrustfulValidatorAbi,
+        functionName: "getValidationRecord",
+        args: [agentId],
+        blockNumber: toBlock,
+      }),
+    ]);
+
+    for (const event of events) {
+      await onUpdate({ event, isValidated, record });
+    }
+  });
+}
+
+// =============================================================================
+// Collateral
+// =============================================================================
+
+export function watchCollateral(
+  client: PublicClient,
+  collateralVault: Address,
+  agentId: bigint,
+  onUpdate: (update: CollateralUpdate) => void | Promise<void>,
+  options: WatchOptions = {}
+): Unwatch {
+  return watchConfirmedRanges(client, options, async (fromBlock, toBlock) => {
+    const events = (await getEvents(client, collateralVault, COLLATERAL_EVENTS, fromBlock, toBlock)).filter(
+      (e) => e.args.agentId === agentId
+    );
+    if (events.length === 0) return;
+
+    const account = await client.readContract({
+      address: collateralVault,
+      abi: CollateralVaultAbi,
+      functionName: "getAccount",
+      args: [agentId],
+      blockNumber: toBlock,
+    });
+
+    for (const event of events) {
+      await onUpdate({ event, account });
+    }
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * x402 payment receipts
+ *
+ * An x402 payment settles as a USDC transfer (EIP-3009 transferWithAuthorization)
+ * and the resource server returns a settlement receipt naming the transaction.
+ * verifyX402Payment checks that transaction on-chain: the claimant paid the
+ * agent owner (or another accepted payee) the expected amount within the
+ * expected time window.
+ *
+ * Claims backed by an x402 payment are filed with the canonical
+ * paymentReceiptHash, which commits to the verified on-chain facts rather than
+ * to the receipt's encoding:
+ *   keccak256(abi.encode(chainId, transaction, payer, payee, amount))
+ */
+
+import {
+  BaseError,
+  TransactionReceiptNotFoundError,
+  encodeAbiParameters,
+  keccak256,
+  parseEventLogs,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { z } from "zod";
+import { ClaimsManagerAbi, ERC8004RegistryAbi, UsdcAbi } from "./contracts";
+import { formatIssues, zAddress, zBytes32 } from "./utils/schema";
+import type {
+  PaymentExpectation,
+  PaymentVerificationResult,
+  VerifiedPayment,
+  X402Receipt,
+} from "./types";
+
+/**
+ * x402 network names for the chains Trustful is deployed on
+ */
+export const X402_NETWORKS: Record<string, number> = {
+  base: 8453,
+  "base-sepolia": 84532,
+  ethereum: 1,
+  sepolia: 11155111,
+};
+
+export const X402ReceiptSchema: z.ZodType<X402Receipt> = z.object({
+  success: z.boolean(),
+  transaction: zBytes32,
+  network: z.string().min(1),
+  payer: zAddress,
+  errorReason: z.string().optional(),
+});
+
+/**
+ * Parse a settlement receipt given as an object, JSON or base64 JSON
+ * @throws If the value is not a valid receipt
+ */
+export function parseX402Receipt(input: string | object): X402Receipt {
+  let value: unknown = input;
+  if (typeof input === "string") {
+    const json = input.trimStart().startsWith("{") ? input : atob(input.trim());
+    try {
+      value = JSON.parse(json);
+    } catch {
+      throw new Error("Invalid x402 receipt: not JSON or base64 JSON");
+    }
+  }
+
+  const result = X402ReceiptSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid x402 receipt: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Chain ID for an x402 network name or CAIP-2 id; undefined if unknown
+ */
+export function x402ChainId(network: string): number | undefined {
+  const caip2 = /^eip155:(\d+)$/.exec(network);
+  return caip2 ? Number(caip2[1]) : X402_NETWORKS[network];
+}
+
+/**
+ * Canonical paymentReceiptHash for a verified payment
+ */
+export function computePaymentReceiptHash(
+  payment: Pick<VerifiedPayment, "chainId" | "transaction" | "payer" | "payee" | "amount">
+): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "bytes32" },
+        { type: "address" },
+        { type: "address" },
+        { type: "uint256" },
+      ],
+      [BigInt(payment.chainId), payment.transaction, payment.payer, payment.payee, payment.amount]
+    )
+  );
+}
+
+/**
+ * Verify the USDC transfer referenced by an x402 receipt.
+ * Verification failures are returned, not thrown; RPC errors still throw.
+ */
+export async function verifyX402Payment(
+  client: PublicClient,
+  contracts: { usdc: Address; erc8004Registry: Address },
+  receipt: string | object,
+  expected: PaymentExpectation
+): Promise<PaymentVerificationResult> {
+  let parsed: X402Receipt;
+  try {
+    parsed = parseX402Receipt(receipt);
+  } catch (error) {
+    return { valid: false, code: "INVALID_RECEIPT", message: (error as Error).message };
+  }
+  if (!parsed.success) {
+    return { valid: false, code: "INVALID_RECEIPT", message: `Settlement failed: ${parsed.errorReason ?? "unknown reason"}` };
+  }
+
+  const chainId = client.chain?.id ?? (await client.getChainId());
+  if (x402ChainId(parsed.network) !== chainId) {
+    return { valid: false, code: "WRONG_NETWORK", message: `Receipt is for ${parsed.network}, expected chain ${chainId}` };
+  }
+  if (parsed.payer.toLowerCase() !== expected.claimant.toLowerCase()) {
+    return { valid: false, code: "PAYER_MISMATCH", message: `Receipt payer ${parsed.payer} is not the claimant ${expected.claimant}` };
+  }
+
+  let txReceipt;
+  try {
+    txReceipt = await client.getTransactionReceipt({ hash: parsed.transaction });
+  } catch (error) {
+    if (error instanceof BaseError && error.walk((e) => e instanceof TransactionReceiptNotFoundError)) {
+      return { valid: false, code: "TX_NOT_FOUND", message: `Transaction ${parsed.transaction} not found` };
+    }
+    throw error;
+  }
+  if (txReceipt.status !== "success") {
+    return { valid: false, code: "TX_FAILED", message: `Transaction ${parsed.transaction} reverted` };
+  }
+
+  const payees = (
+    expected.payees ?? [
+      await client.readContract({
+        address: contracts.erc8004Registry,
+        abi: ERC8004RegistryAbi,
+        functionName: "ownerOf",
+        args: [expected.agentId],
+      }),
+    ]
+  ).map((payee) => payee.toLowerCase());
+
+  const transfers = parseEventLogs({ abi: UsdcAbi, eventName: "Transfer", logs: txReceipt.logs, strict: true }).filter(
+    (log) =>
+      log.address.toLowerCase() === contracts.usdc.toLowerCase() &&
+      log.args.from.toLowerCase() === expected.claimant.toLowerCase() &&
+      payees.includes(log.args.to.toLowerCase())
+  );
+  if (transfers.length === 0) {
+    return { valid: false, code: "TRANSFER_NOT_FOUND", message: `No USDC transfer from the claimant to the agent in ${parsed.transaction}` };
+  }
+
+  const matching =
+    expected.amount === undefined ? transfers : transfers.filter((log) => log.args.value === expected.amount);
+  if (matching.length === 0) {
+    return {
+      valid: false,
+      code: "AMOUNT_MISMATCH",
+      message: `Transferred ${transfers.map((log) => log.args.value).join(", ")}, expected ${expected.amount}`,
+    };
+  }
+
+  const { timestamp } = await client.getBlock({ blockNumber: txReceipt.blockNumber });
+  if (
+    (expected.notBefore !== undefined && timestamp < expected.notBefore) ||
+    (expected.notAfter !== undefined && timestamp > expected.notAfter)
+  ) {
+    return { valid: false, code: "OUT_OF_TIME_WINDOW", message: `Payment at ${timestamp} is outside the expected time window` };
+  }
+
+  // A transaction can carry several transfers to the agent; any of them may be
+  // the one a claim was filed with
+  const payments = matching.map((transfer) => {
+    const payment = {
+      chainId,
+      transaction: parsed.transaction,
+      payer: transfer.args.from,
+      payee: transfer.args.to,
+      amount: transfer.args.value,
+      blockNumber: txReceipt.blockNumber,
+      timestamp,
+    };
+    return { ...payment, paymentReceiptHash: computePaymentReceiptHash(payment) };
+  });
+  const payment =
+    expected.paymentReceiptHash === undefined
+      ? payments[0]
+      : payments.find((p) => p.paymentReceiptHash.toLowerCase() === expected.paymentReceiptHash!.toLowerCase());
+  if (!payment) {
+    return {
+      valid: false,
+      code: "HASH_MISMATCH",
+      message: `No transfer in ${parsed.transaction} hashes to paymentReceiptHash ${expected.paymentReceiptHash}`,
+    };
+  }
+  return { valid: true, payment };
+}
+
+/**
+ * Verify an x402 receipt against a filed claim: the claimant paid the agent
+ * before filing and the claim was filed with the canonical paymentReceiptHash.
+ * The owner at claim time and the current owner are both accepted as payee.
+ */
+export async function verifyClaimPayment(
+  client: PublicClient,
+  contracts: { usdc: Address; erc8004Registry: Address; claimsManager: Address },
+  claimId: bigint,
+  receipt: string | object
+): Promise<PaymentVerificationResult> {
+  const claim = await client.readContract({
+    address: contracts.claimsManager,
+    abi: ClaimsManagerAbi,
+    functionName: "getClaim",
+    args: [claimId],
+  });
+  const owner = await client.readContract({
+    address: contracts.erc8004Registry,
+    abi: ERC8004RegistryAbi,
+    functionName: "ownerOf",
+    args: [claim.agentId],
+  });
+
+  return verifyX402Payment(client, contracts, receipt, {
+    agentId: claim.agentId,
+    claimant: claim.claimant,
+    payees: [claim.providerAtClaimTime, owner],
+    notAfter: claim.filedAt,
+    paymentReceiptHash: claim.paymentReceiptHash,
+  });
+}